@@ -1,10 +1,17 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { AppPhase, GenerationState, SVGVersion } from './types';
+import { AppPhase, CandidateInfo, GenerationState, StopConditions, StructuredCritique, SVGSession, SVGVersion } from './types';
 import * as db from './services/db';
 import * as gemini from './services/gemini';
 import { loadApiKey, initApiKey, ApiKeyError } from './services/apiKeyStorage';
 import { isTokenMode as checkTokenMode, setAppMode } from './services/platform';
+import {
+  getActiveProviderId,
+  getProvider,
+  isOfflineProvider,
+  setActiveProviderId,
+} from './services/providerRegistry';
+import type { ModelProviderId } from './services/modelProvider';
 import {
   onAuthStateChanged,
   getCurrentUser,
@@ -17,7 +24,34 @@ import { refreshBalance, subscribeToBalance } from './services/tokenManager';
 import { getPendingPurchases } from './services/billing';
 import { verifyPurchase, deleteMyAccount } from './services/backendApi';
 import { PRIVACY_POLICY_URL, SUPPORT_EMAIL } from './services/appConfig';
-import { sanitizeSvg } from './services/svgSanitizer';
+import { getSanitizerPolicies, sanitizeSvgFor, setSanitizerPolicies } from './services/svgSanitizer';
+import type { SanitizerPolicyName, SanitizerUse } from './services/svgSanitizer';
+import { formatCritiqueText, getReviewCritique, setReviewCritique } from './services/critique';
+import { checkStopConditions, createRunProgress, DEFAULT_STOP_CONDITIONS } from './services/convergence';
+import { pickBestVersionId } from './services/sessions';
+import { getOptimizeOnSave, optimizeSvg, setOptimizeOnSave } from './services/svgOptimizer';
+import { appendLintIssues, getLintInRefine, lintSvg, setLintInRefine } from './services/svgLint';
+import { SvgExtractionError, summarizeRepairs } from './services/svgExtractor';
+import type { SvgRepair } from './services/svgExtractor';
+import {
+  BUILT_IN_STYLE_PRESETS,
+  DEFAULT_STYLE_PRESET_ID,
+  getCustomStylePresets,
+  getSelectedStylePresetId,
+  setCustomStylePresets,
+  setSelectedStylePresetId,
+  toStyleGuide,
+} from './services/stylePresets';
+import type { StylePreset } from './services/stylePresets';
+import { buildRegionEditInstruction } from './services/prompts';
+import type { OutputConstraints, StyleGuide } from './services/prompts';
+import { appendConstraintViolations, captureFrameFor, checkOutputConstraints, hasConstraints } from './services/outputConstraints';
+import { CONTACT_SHEET_CELL, DEFAULT_FRAME_COUNT } from './services/animationFrames';
+import { traceRasterFile } from './services/rasterTrace';
+import { normalizeReferenceImage } from './services/referenceImage';
+import { excerptRegions, mergeRegionEdits, normalizeSelection, RegionRefineError } from './services/svgRegions';
+import { checkWellFormed } from './services/svgSyntax';
+import type { GeminiResult } from './services/gemini';
 import { SVGCanvasHandle } from './components/SVGCanvas';
 import type { TokenEstimateResult } from './services/gemini';
 
@@ -25,6 +59,7 @@ import Header from './components/Header';
 import ActiveStage from './components/ActiveStage';
 import Gallery from './components/Gallery';
 import Modal from './components/Modal';
+import CompareView from './components/CompareView';
 import ManualEntry from './components/ManualEntry';
 import SketchSvgFilters from './components/SketchSvgFilters';
 import ApiKeyModal from './components/ApiKeyModal';
@@ -32,6 +67,11 @@ import TokenEstimate from './components/TokenEstimate';
 import TokenPurchase from './components/TokenPurchase';
 import AccountModal from './components/AccountModal';
 
+// Consecutive unusable model outputs tolerated before the loop gives up
+const MAX_EXTRACTION_RETRIES = 2;
+// Refinement goal for a traced image when the prompt box is empty
+const DEFAULT_TRACE_GOAL = 'A clean, simplified vector illustration faithful to the reference image.';
+
 const App: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [state, setState] = useState<GenerationState>({
@@ -41,11 +81,14 @@ const App: React.FC = () => {
     lastThoughts: [],
     plan: null,
     error: null,
+    stopReason: null,
   });
 
   const [versions, setVersions] = useState<SVGVersion[]>([]);
+  const [sessions, setSessions] = useState<SVGSession[]>([]);
   const [currentSVG, setCurrentSVG] = useState<string>('');
   const [viewingVersion, setViewingVersion] = useState<SVGVersion | null>(null);
+  const [comparingIds, setComparingIds] = useState<[string, string] | null>(null);
 
   // API Key State
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
@@ -60,6 +103,11 @@ const App: React.FC = () => {
   const [isDeletingAccount, setIsDeletingAccount] = useState<boolean>(false);
   const [isSigningIn, setIsSigningIn] = useState<boolean>(false);
 
+  // Model Provider State
+  const [providerId, setProviderId] = useState<ModelProviderId>(() => getActiveProviderId());
+  const usesNetworkProvider = getProvider(providerId).requiresNetwork;
+  const usesCloudCredits = isTokenMode && usesNetworkProvider;
+
   // Token Estimation State
   const [tokenEstimate, setTokenEstimate] = useState<TokenEstimateResult | null>(null);
   const [isEstimating, setIsEstimating] = useState<boolean>(false);
@@ -67,6 +115,17 @@ const App: React.FC = () => {
   const [autoRefineEnabled, setAutoRefineEnabled] = useState<boolean>(false);
   const [stopAfterCurrentResult, setStopAfterCurrentResult] = useState<boolean>(false);
   const [streamedSvgCode, setStreamedSvgCode] = useState<string>('');
+  const [stopConditions, setStopConditions] = useState<StopConditions>(DEFAULT_STOP_CONDITIONS);
+  const [candidateCount, setCandidateCount] = useState<number>(1);
+  const [optimizeOnSave, setOptimizeOnSaveState] = useState<boolean>(() => getOptimizeOnSave());
+  const [lintInRefine, setLintInRefineState] = useState<boolean>(() => getLintInRefine());
+  const [reviewCritique, setReviewCritiqueState] = useState<boolean>(() => getReviewCritique());
+  const [critiqueUnderReview, setCritiqueUnderReview] = useState<StructuredCritique | null>(null);
+  const [sanitizerPolicies, setSanitizerPoliciesState] = useState<Record<SanitizerUse, SanitizerPolicyName>>(() => getSanitizerPolicies());
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(() => [...BUILT_IN_STYLE_PRESETS, ...getCustomStylePresets()]);
+  const [stylePresetId, setStylePresetId] = useState<string>(() => getSelectedStylePresetId());
+  const [outputConstraints, setOutputConstraints] = useState<OutputConstraints>({});
+  const [referenceImage, setReferenceImage] = useState<string | null>(null);
 
   // Selection State
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -77,6 +136,13 @@ const App: React.FC = () => {
   const latestSVGRef = useRef<string>('');
   const promptRef = useRef<string>('');
   const currentVersionIdRef = useRef<string>('');
+  const currentParentIdRef = useRef<string | null>(null);
+  const historySessionIdRef = useRef<string>('');
+  const pendingCritiqueRef = useRef<StructuredCritique | null>(null);
+  const extractionRetriesRef = useRef(0);
+  const branchSeedRef = useRef<SVGVersion | null>(null);
+  // Stored version a branch re-evaluates; its render is saved as a child copy, never over the original
+  const branchCopyOfRef = useRef<SVGVersion | null>(null);
   const generationSessionIdRef = useRef<string>('');
   const iterationRef = useRef(0);
   const phaseRef = useRef<AppPhase>(AppPhase.IDLE);
@@ -85,6 +151,21 @@ const App: React.FC = () => {
   const stopAfterCurrentRef = useRef<boolean>(false);
   const streamedSvgBufferRef = useRef<string>('');
   const streamedSvgFlushPendingRef = useRef<boolean>(false);
+  const stopConditionsRef = useRef<StopConditions>(DEFAULT_STOP_CONDITIONS);
+  const runProgressRef = useRef(createRunProgress());
+  const candidateCountRef = useRef(1);
+  // Style of the current run, fixed when it starts
+  const styleRef = useRef<StyleGuide | undefined>(undefined);
+  // Output constraints of the current run, fixed when it starts
+  const constraintsRef = useRef<OutputConstraints | undefined>(undefined);
+  // Reference image or sketch of the current run, fixed when it starts
+  const referenceImageRef = useRef<string | undefined>(undefined);
+  const optimizeOnSaveRef = useRef<boolean>(optimizeOnSave);
+  const lintInRefineRef = useRef<boolean>(lintInRefine);
+  const reviewCritiqueRef = useRef<boolean>(reviewCritique);
+  // The user's edit of the critique, consumed by the refine that follows the review pause
+  const reviewedCritiqueRef = useRef<StructuredCritique | null>(null);
+  const sessionsRef = useRef<SVGSession[]>([]);
 
   const reconcilePendingPurchases = useCallback(async (uid: string) => {
     if (pendingRecoveryForUidRef.current === uid) return;
@@ -122,11 +203,18 @@ const App: React.FC = () => {
     stopAfterCurrentRef.current = stopAfterCurrentResult;
   }, [stopAfterCurrentResult]);
 
+  useEffect(() => {
+    stopConditionsRef.current = stopConditions;
+  }, [stopConditions]);
+
   useEffect(() => {
     const initialize = async () => {
       try {
         const saved = await db.getAllVersions();
         setVersions(saved);
+        const savedSessions = await db.getAllSessions();
+        sessionsRef.current = savedSessions;
+        setSessions(savedSessions);
       } catch (e) {
         console.error("Failed to load history", e);
       }
@@ -147,7 +235,7 @@ const App: React.FC = () => {
       setIsTokenMode(tokenMode);
       const currentUser = redirectUser || getCurrentUser();
 
-      if ((!apiKey && !tokenMode) || (tokenMode && !currentUser)) {
+      if (!isOfflineProvider() && ((!apiKey && !tokenMode) || (tokenMode && !currentUser))) {
         setIsApiKeyModalOpen(true);
       }
     };
@@ -177,7 +265,7 @@ const App: React.FC = () => {
   useEffect(() => {
     if (viewingVersion) {
         const updated = versions.find(v => v.id === viewingVersion.id);
-        if (updated && updated.critique !== viewingVersion.critique) {
+        if (updated && (updated.critique !== viewingVersion.critique || updated.reviewedCritique !== viewingVersion.reviewedCritique)) {
             setViewingVersion(updated);
         }
     }
@@ -227,17 +315,42 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const saveToHistory = async (id: string, svgCode: string, critique: string | undefined, iteration: number, thumbnail: string) => {
-      const safeSvgCode = sanitizeSvg(svgCode);
-      const newVersion: SVGVersion = {
+  const saveToHistory = async (
+      id: string,
+      svgCode: string,
+      critique: StructuredCritique | undefined,
+      iteration: number,
+      thumbnail: string,
+      candidate?: CandidateInfo
+  ) => {
+      const loopFields = {
           id: id,
           timestamp: Date.now(),
-          svgCode: safeSvgCode,
-          critique,
+          critique: critique ? formatCritiqueText(critique) : undefined,
+          critiqueDetails: critique,
           iteration,
           prompt: promptRef.current,
-          thumbnail
+          thumbnail,
+          sessionId: historySessionIdRef.current || undefined,
+          parentId: currentParentIdRef.current || undefined,
+          candidate
       };
+      // A re-evaluated branch seed only gains a thumbnail and critique, so its stored markup is reused as-is
+      const copyOf = branchCopyOfRef.current?.svgCode === svgCode ? branchCopyOfRef.current : null;
+      let newVersion: SVGVersion;
+      if (copyOf) {
+          newVersion = { ...copyOf, ...loopFields, reviewedCritique: undefined };
+      } else {
+          const safeSvgCode = sanitizeSvgFor('storage', svgCode);
+          // The loop keeps refining the original markup; only the stored copy is optimized
+          const optimized = optimizeOnSaveRef.current ? optimizeSvg(safeSvgCode) : null;
+          const isOptimized = !!optimized && optimized.code !== safeSvgCode;
+          newVersion = {
+              ...loopFields,
+              svgCode: isOptimized ? optimized.code : safeSvgCode,
+              originalSvgCode: isOptimized ? safeSvgCode : undefined,
+          };
+      }
 
       await db.saveVersion(newVersion);
 
@@ -253,8 +366,49 @@ const App: React.FC = () => {
       });
   };
 
+  const persistSession = (session: SVGSession) => {
+      sessionsRef.current = [session, ...sessionsRef.current.filter(s => s.id !== session.id)];
+      setSessions(sessionsRef.current);
+      db.saveSession(session).catch((e) => console.error('Failed to save session', e));
+  };
+
+  const updateSession = (id: string, patch: Partial<SVGSession>) => {
+      const existing = sessionsRef.current.find(s => s.id === id);
+      if (existing) persistSession({ ...existing, ...patch });
+  };
+
+  const ensureSession = (id: string, sessionPrompt: string) => {
+      if (sessionsRef.current.some(s => s.id === id)) return;
+      persistSession({
+          id,
+          prompt: sessionPrompt,
+          plan: null,
+          createdAt: Date.now(),
+          settings: {
+              providerId,
+              autoRefine: autoRefineEnabled,
+              stopConditions: stopConditionsRef.current,
+              style: styleRef.current,
+              constraints: constraintsRef.current,
+          },
+      });
+  };
+
+  // Keep each session's best version in step with new critiques and deletions
+  useEffect(() => {
+      sessionsRef.current.forEach((session) => {
+          const sessionVersions = versions.filter(v => v.sessionId === session.id);
+          if (sessionVersions.length === 0) return;
+          const bestVersionId = pickBestVersionId(sessionVersions);
+          if (bestVersionId !== session.bestVersionId) {
+              updateSession(session.id, { bestVersionId });
+          }
+      });
+  }, [versions, sessions]);
+
   const handleManualAdd = async (code: string) => {
-    const safeCode = sanitizeSvg(code);
+    const safeCode = sanitizeSvgFor('storage', code);
+    const sessionId = uuidv4();
     const newVersion: SVGVersion = {
         id: uuidv4(),
         timestamp: Date.now(),
@@ -262,12 +416,44 @@ const App: React.FC = () => {
         critique: "Manually added via input.",
         iteration: versions.length + 1,
         prompt: "Manual Entry",
-        thumbnail: undefined
+        thumbnail: undefined,
+        sessionId
     };
+    persistSession({ id: sessionId, prompt: newVersion.prompt, plan: null, createdAt: newVersion.timestamp });
     await db.saveVersion(newVersion);
     setVersions(prev => [newVersion, ...prev]);
   };
 
+  // Bitmap import: trace locally into a first version, then branch the usual evaluate/refine loop from it
+  const handleTraceImage = async (file: File) => {
+    if (isLoopingRef.current) return;
+    try {
+      const [trace, reference] = await Promise.all([traceRasterFile(file), normalizeReferenceImage(file)]);
+      const goal = prompt.trim() || DEFAULT_TRACE_GOAL;
+      const sessionId = uuidv4();
+      const traced: SVGVersion = {
+          id: uuidv4(),
+          timestamp: Date.now(),
+          svgCode: sanitizeSvgFor('storage', trace.svgCode),
+          critique: `Traced from ${file.name} with ${trace.colorCount} colors.`,
+          iteration: 1,
+          prompt: goal,
+          thumbnail: undefined,
+          sessionId
+      };
+      persistSession({ id: sessionId, prompt: goal, plan: null, createdAt: traced.timestamp });
+      await db.saveVersion(traced);
+      setVersions(prev => [traced, ...prev]);
+      // The bitmap doubles as the reference, so the critic judges the cleanup against the original
+      setReferenceImage(reference);
+      // Having no critique, the branch renders and evaluates a child copy; this version stays the raw trace
+      requestBranchFrom(traced);
+    } catch (e: any) {
+      console.error('Tracing failed', e);
+      window.alert(e?.message || 'That image could not be traced.');
+    }
+  };
+
   const toggleSelect = (id: string) => {
       setSelectedIds(prev => {
           const next = new Set(prev);
@@ -277,12 +463,30 @@ const App: React.FC = () => {
       });
   };
 
+  const comparingVersions = useMemo<[SVGVersion, SVGVersion] | null>(() => {
+      if (!comparingIds) return null;
+      const first = versions.find(v => v.id === comparingIds[0]);
+      const second = versions.find(v => v.id === comparingIds[1]);
+      return first && second ? [first, second] : null;
+  }, [comparingIds, versions]);
+
   const deleteVersions = async (ids: string[]) => {
       for (const id of ids) {
           await db.deleteVersion(id);
       }
+      const remaining = versions.filter(v => !ids.includes(v.id));
       setVersions(prev => prev.filter(v => !ids.includes(v.id)));
       setSelectedIds(new Set()); // Clear selection
+
+      // Drop sessions that no longer hold any iterations
+      const emptied = sessionsRef.current.filter(s => !remaining.some(v => v.sessionId === s.id));
+      for (const session of emptied) {
+          await db.deleteSession(session.id);
+      }
+      if (emptied.length > 0) {
+          sessionsRef.current = sessionsRef.current.filter(s => !emptied.includes(s));
+          setSessions(sessionsRef.current);
+      }
       if (viewingVersion && ids.includes(viewingVersion.id)) {
           setViewingVersion(null);
       }
@@ -301,28 +505,154 @@ const App: React.FC = () => {
         });
       };
 
+      const trackUsage = (result: GeminiResult) => {
+        runProgressRef.current.tokensSpent += result.usage?.totalTokens || 0;
+        runProgressRef.current.creditsSpent += result.usage?.credits || 0;
+      };
+
+      const noteRepairs = (repairs: SvgRepair[]) => {
+        extractionRetriesRef.current = 0;
+        const note = summarizeRepairs(repairs);
+        if (note) handleThought(note);
+      };
+
+      const withConstraintViolations = (critique: StructuredCritique, svgCode: string) =>
+        appendConstraintViolations(critique, checkOutputConstraints(svgCode, constraintsRef.current));
+
       try {
           // --- INITIALIZATION PHASE ---
           // Use refs to check state to avoid stale closure issues
           if (!latestSVGRef.current) {
               resetStreamedSvgPreview();
               updatePhase(AppPhase.PLANNING, { error: null, lastThoughts: [] });
+              const candidateTotal = candidateCountRef.current;
               const planResult = await gemini.planSVG(
                 promptRef.current,
                 handleThought,
-                generationSessionIdRef.current
+                generationSessionIdRef.current,
+                candidateTotal,
+                styleRef.current,
+                constraintsRef.current,
+                referenceImageRef.current
               );
+              trackUsage(planResult);
 
               if(!isLoopingRef.current) return;
               resetStreamedSvgPreview();
               updatePhase(AppPhase.GENERATING, { lastThoughts: [] });
+
+              if (candidateTotal > 1) {
+                  const draftResult = await gemini.generateCandidateSVGs(
+                    planResult.text,
+                    candidateTotal,
+                    handleThought,
+                    generationSessionIdRef.current,
+                    appendStreamedSvgChunk,
+                    () => resetStreamedSvgPreview(),
+                    styleRef.current,
+                    constraintsRef.current
+                  );
+                  trackUsage(draftResult);
+                  noteRepairs(draftResult.repairs);
+                  setState(prev => ({...prev, currentIteration: 1, plan: planResult.text }));
+                  updateSession(historySessionIdRef.current, { plan: planResult.text });
+                  iterationRef.current = 1;
+
+                  // Render every draft through the canvas so the judge sees what the user would
+                  if(!isLoopingRef.current) return;
+                  updatePhase(AppPhase.RENDERING, { lastThoughts: [] });
+                  const drafts = draftResult.candidates.map(code => sanitizeSvgFor('storage', code));
+                  const draftIds = drafts.map(() => uuidv4());
+                  const captured: { index: number; image: string }[] = [];
+                  for (let index = 0; index < drafts.length; index++) {
+                      latestSVGRef.current = drafts[index];
+                      setCurrentSVG(drafts[index]);
+                      await new Promise(r => setTimeout(r, 400));
+                      const image = await canvasRef.current?.captureImage() || '';
+                      if (image) captured.push({ index, image });
+                      await saveToHistory(draftIds[index], drafts[index], undefined, 1, image, { index, count: drafts.length, rank: null });
+                  }
+
+                  if (captured.length < 2) {
+                      // Not enough renders to compare; carry on from the first draft through the normal evaluate step
+                      const fallback = captured[0]?.index ?? 0;
+                      latestSVGRef.current = drafts[fallback];
+                      setCurrentSVG(drafts[fallback]);
+                      currentVersionIdRef.current = draftIds[fallback];
+                  } else {
+                      if(!isLoopingRef.current) return;
+                      updatePhase(AppPhase.RANKING, { lastThoughts: [] });
+                      const rankResult = await gemini.rankCandidates(
+                        captured.map(c => c.image),
+                        promptRef.current,
+                        1,
+                        handleThought,
+                        generationSessionIdRef.current,
+                        styleRef.current
+                      );
+                      trackUsage(rankResult);
+
+                      const order = rankResult.ranking.order.map(position => captured[position].index);
+                      const winner = order[0];
+                      const winnerCritique = withConstraintViolations(rankResult.critique, drafts[winner]);
+                      for (const { index, image } of captured) {
+                          const rank = order.indexOf(index) + 1;
+                          await saveToHistory(
+                              draftIds[index],
+                              drafts[index],
+                              rank === 1 ? winnerCritique : undefined,
+                              1,
+                              image,
+                              { index, count: drafts.length, rank }
+                          );
+                      }
+
+                      latestSVGRef.current = drafts[winner];
+                      setCurrentSVG(drafts[winner]);
+                      currentVersionIdRef.current = draftIds[winner];
+                      // The ranking already critiqued the winner, so the next pass goes straight to refine
+                      pendingCritiqueRef.current = winnerCritique;
+                      setState(prev => ({
+                        ...prev,
+                        lastCritique: [
+                          `Picked draft ${winner + 1} of ${drafts.length}.${rankResult.ranking.reason ? ` ${rankResult.ranking.reason}` : ''}`,
+                          formatCritiqueText(winnerCritique),
+                        ].join('\n'),
+                      }));
+
+                      const progress = runProgressRef.current;
+                      progress.scores.push(rankResult.critique.overall);
+                      progress.iteration = 1;
+                      const stopReason = checkStopConditions(stopConditionsRef.current, progress);
+                      if (stopReason) {
+                        stopLoop();
+                        updatePhase(AppPhase.STOPPED, { stopReason });
+                        return;
+                      }
+                  }
+
+                  if (!autoRefineEnabledRef.current || stopAfterCurrentRef.current) {
+                    stopAfterCurrentRef.current = false;
+                    setStopAfterCurrentResult(false);
+                    stopLoop();
+                    return;
+                  }
+
+                  setTimeout(runRefinementLoop, 1500);
+                  return;
+              }
+
               const svgResult = await gemini.generateInitialSVG(
                 planResult.text,
                 handleThought,
                 generationSessionIdRef.current,
-                appendStreamedSvgChunk
+                appendStreamedSvgChunk,
+                styleRef.current,
+                constraintsRef.current
               );
-              const safeInitialSvg = sanitizeSvg(svgResult.text);
+              trackUsage(svgResult);
+              noteRepairs(svgResult.repairs);
+              const safeInitialSvg = sanitizeSvgFor('storage', svgResult.text);
 
               latestSVGRef.current = safeInitialSvg;
               setCurrentSVG(safeInitialSvg);
@@ -331,6 +661,7 @@ const App: React.FC = () => {
 
               iterationRef.current = 1;
               setState(prev => ({...prev, currentIteration: 1, plan: planResult.text }));
+              updateSession(historySessionIdRef.current, { plan: planResult.text });
 
               if (!autoRefineEnabledRef.current || stopAfterCurrentRef.current) {
                 stopAfterCurrentRef.current = false;
@@ -345,48 +676,106 @@ const App: React.FC = () => {
 
           // --- REFINEMENT LOOP ---
 
-          // 1. RENDER
-          updatePhase(AppPhase.RENDERING, { error: null, lastThoughts: [] });
-          // Short delay to ensure DOM is ready before capture
-          await new Promise(r => setTimeout(r, 200));
-          const imageBase64 = await canvasRef.current?.captureImage();
+          let critique: StructuredCritique;
+          let needsReview = reviewCritiqueRef.current;
+          if (reviewedCritiqueRef.current) {
+              // Back from the review pause with the user's version of the critique
+              critique = reviewedCritiqueRef.current;
+              reviewedCritiqueRef.current = null;
+              needsReview = false;
+          } else if (pendingCritiqueRef.current) {
+              // Branch seeded from a past version: reuse its critique and go straight to refine
+              critique = pendingCritiqueRef.current;
+              pendingCritiqueRef.current = null;
+          } else {
+              // 1. RENDER
+              updatePhase(AppPhase.RENDERING, { error: null, lastThoughts: [] });
+              // Short delay to ensure DOM is ready before capture
+              await new Promise(r => setTimeout(r, 200));
+              const imageBase64 = await canvasRef.current?.captureImage();
+
+              if (!imageBase64) {
+                  console.warn("Capture failed, retrying...");
+                  setTimeout(runRefinementLoop, 1000);
+                  return;
+              }
 
-          if (!imageBase64) {
-              console.warn("Capture failed, retrying...");
-              setTimeout(runRefinementLoop, 1000);
-              return;
-          }
+              // A refine from the seed failed and is re-evaluating it; save that render as a child, not over the seed
+              if (currentVersionIdRef.current === branchCopyOfRef.current?.id) {
+                  currentParentIdRef.current = currentVersionIdRef.current;
+                  currentVersionIdRef.current = uuidv4();
+                  iterationRef.current += 1;
+                  setState(prev => ({...prev, currentIteration: iterationRef.current}));
+              }
 
-          // 1b. SAVE (FAST) - Add to gallery immediately without critique
-          await saveToHistory(
-              currentVersionIdRef.current,
-              latestSVGRef.current,
-              undefined,
-              iterationRef.current,
-              imageBase64
-          );
+              // 1b. SAVE (FAST) - Add to gallery immediately without critique
+              await saveToHistory(
+                  currentVersionIdRef.current,
+                  latestSVGRef.current,
+                  undefined,
+                  iterationRef.current,
+                  imageBase64
+              );
 
-          // 2. EVALUATE
-          if(!isLoopingRef.current) return;
-          updatePhase(AppPhase.EVALUATING, { lastThoughts: [] });
-          const critiqueResult = await gemini.evaluateSVG(
-            imageBase64,
-            promptRef.current,
-            iterationRef.current,
-            handleThought,
-            generationSessionIdRef.current
-          );
+              // 1c. FRAMES - Animated SVGs are judged from a contact sheet sampled across one cycle
+              // Frames keep the run's canvas aspect ratio, like the still capture
+              const frames = await canvasRef.current?.captureFrames(
+                  DEFAULT_FRAME_COUNT,
+                  captureFrameFor(constraintsRef.current, CONTACT_SHEET_CELL)
+              ).catch((err) => {
+                  console.warn("Frame capture failed, evaluating a single frame", err);
+                  return null;
+              });
+
+              // 2. EVALUATE
+              if(!isLoopingRef.current) return;
+              updatePhase(AppPhase.EVALUATING, { lastThoughts: [] });
+              const critiqueResult = await gemini.evaluateSVG(
+                frames?.contactSheet || imageBase64,
+                promptRef.current,
+                iterationRef.current,
+                handleThought,
+                generationSessionIdRef.current,
+                frames ? { timestampsMs: frames.timestampsMs, cycleMs: frames.cycleMs } : undefined,
+                styleRef.current,
+                referenceImageRef.current
+              );
 
-          setState(prev => ({...prev, lastCritique: critiqueResult.text}));
+              trackUsage(critiqueResult);
+              // Constraint checks run on the code, so their violations join the model's critique
+              const evaluated = withConstraintViolations(critiqueResult.critique, latestSVGRef.current);
+              setState(prev => ({...prev, lastCritique: formatCritiqueText(evaluated)}));
+
+              // 2b. SAVE (UPDATE) - Update gallery item with critique
+              await saveToHistory(
+                  currentVersionIdRef.current,
+                  latestSVGRef.current,
+                  evaluated,
+                  iterationRef.current,
+                  imageBase64
+              );
 
-          // 2b. SAVE (UPDATE) - Update gallery item with critique
-          await saveToHistory(
-              currentVersionIdRef.current,
-              latestSVGRef.current,
-              critiqueResult.text,
-              iterationRef.current,
-              imageBase64
-          );
+              // 2c. CONVERGENCE - Stop once the run has converged or hit a budget
+              const progress = runProgressRef.current;
+              progress.scores.push(evaluated.overall);
+              progress.iteration = iterationRef.current;
+              const stopReason = checkStopConditions(stopConditionsRef.current, progress);
+              if (stopReason) {
+                stopLoop();
+                updatePhase(AppPhase.STOPPED, { stopReason });
+                return;
+              }
+
+              critique = evaluated;
+          }
+
+          // 2d. REVIEW - Pause so the user can edit the critique; continueWithReviewedCritique resumes
+          if (needsReview) {
+              if(!isLoopingRef.current) return;
+              setCritiqueUnderReview(critique);
+              updatePhase(AppPhase.REVIEWING, { lastThoughts: [] });
+              return;
+          }
 
           // 3. REFINE
           if(!isLoopingRef.current) return;
@@ -394,18 +783,25 @@ const App: React.FC = () => {
           updatePhase(AppPhase.REFINING, { lastThoughts: [] });
           const refineResult = await gemini.refineSVG(
             latestSVGRef.current,
-            critiqueResult.text,
+            // The stored critique stays as the critic wrote it; lint findings only steer this refine
+            lintInRefineRef.current ? appendLintIssues(critique, lintSvg(latestSVGRef.current)) : critique,
             promptRef.current,
             handleThought,
             generationSessionIdRef.current,
-            appendStreamedSvgChunk
+            appendStreamedSvgChunk,
+            styleRef.current,
+            constraintsRef.current
           );
-          const safeRefinedSvg = sanitizeSvg(refineResult.text);
+          trackUsage(refineResult);
+          noteRepairs(refineResult.repairs);
+          const safeRefinedSvg = sanitizeSvgFor('storage', refineResult.text);
 
           latestSVGRef.current = safeRefinedSvg;
           setCurrentSVG(safeRefinedSvg);
 
           // Prepare for NEXT iteration
+          branchCopyOfRef.current = null;
+          currentParentIdRef.current = currentVersionIdRef.current;
           currentVersionIdRef.current = uuidv4();
           iterationRef.current += 1;
           setState(prev => ({...prev, currentIteration: prev.currentIteration + 1}));
@@ -423,6 +819,15 @@ const App: React.FC = () => {
       } catch (e: any) {
           console.error("Loop Error", e);
 
+          // Unusable model output: keep the last good SVG and go round again instead of saving garbage.
+          // A failed refine re-evaluates first, since the backend pairs every refine with an evaluate.
+          if (e instanceof SvgExtractionError && isLoopingRef.current && extractionRetriesRef.current < MAX_EXTRACTION_RETRIES) {
+              extractionRetriesRef.current += 1;
+              handleThought(`Discarded unusable output (${e.message}) Retrying...`);
+              setTimeout(runRefinementLoop, 2000);
+              return;
+          }
+
           // Check if it's an API key error
           if (e instanceof ApiKeyError) {
               stopLoop();
@@ -459,18 +864,59 @@ const App: React.FC = () => {
       }
   };
 
-  const requestStartLoop = async () => {
-    const trimmed = prompt.trim();
+  const continueWithReviewedCritique = async (reviewed: StructuredCritique) => {
+    if (phaseRef.current !== AppPhase.REVIEWING || !isLoopingRef.current) return;
+    setCritiqueUnderReview(null);
+    reviewedCritiqueRef.current = reviewed;
+    setState(prev => ({ ...prev, lastCritique: formatCritiqueText(reviewed) }));
+
+    // The critic's critique stays in critiqueDetails; the version refine continues from keeps the user's edit beside it
+    try {
+      const seed = branchCopyOfRef.current;
+      if (seed && currentVersionIdRef.current === seed.id) {
+        // Reviewing a past version's critique: record it on a child copy and refine from that, leaving the seed as it was
+        const copy: SVGVersion = {
+          ...seed,
+          id: uuidv4(),
+          timestamp: Date.now(),
+          iteration: seed.iteration + 1,
+          sessionId: historySessionIdRef.current || seed.sessionId,
+          parentId: seed.id,
+          candidate: undefined,
+          reviewedCritique: reviewed,
+        };
+        currentParentIdRef.current = seed.id;
+        currentVersionIdRef.current = copy.id;
+        iterationRef.current = copy.iteration;
+        setState(prev => ({ ...prev, currentIteration: copy.iteration }));
+        await db.saveVersion(copy);
+        setVersions(prev => [copy, ...prev]);
+      } else {
+        const id = currentVersionIdRef.current;
+        const stored = await db.getVersion(id);
+        if (stored) await db.saveVersion({ ...stored, reviewedCritique: reviewed });
+        setVersions(prev => prev.map(v => (v.id === id ? { ...v, reviewedCritique: reviewed } : v)));
+      }
+    } catch (e) {
+      console.error('Failed to save reviewed critique', e);
+    }
+
+    runRefinementLoop();
+  };
+
+  const requestStartLoop = async (promptOverride?: string) => {
+    const trimmed = (promptOverride ?? prompt).trim();
     if (!trimmed) return;
 
     // In API-key mode, key is required. In credit mode, sign-in is required.
+    // The offline provider needs neither.
     const apiKey = loadApiKey();
-    if (!isTokenMode && !apiKey) {
+    if (usesNetworkProvider && !isTokenMode && !apiKey) {
       setIsApiKeyModalOpen(true);
       return;
     }
 
-    if (isTokenMode && !isAuthenticated) {
+    if (usesCloudCredits && !isAuthenticated) {
       setIsApiKeyModalOpen(true);
       return;
     }
@@ -486,7 +932,7 @@ const App: React.FC = () => {
     resetStreamedSvgPreview();
 
     try {
-      const estimate = await gemini.estimateFullCycleCost(trimmed);
+      const estimate = await gemini.estimateFullCycleCost(trimmed, branchSeedRef.current ? 1 : candidateCount);
       setTokenEstimate(estimate);
     } catch (err) {
       console.error('Failed to estimate tokens:', err);
@@ -506,9 +952,102 @@ const App: React.FC = () => {
     }
   };
 
+  const requestBranchFrom = (version: SVGVersion) => {
+    if (isLoopingRef.current) return;
+    branchSeedRef.current = version;
+    setPrompt(version.prompt);
+    setViewingVersion(null);
+    requestStartLoop(version.prompt);
+  };
+
+  // Older history has no session; give the seed one so its branches group under it.
+  const adoptIntoSession = (version: SVGVersion): string => {
+    if (version.sessionId) return version.sessionId;
+    const tagged: SVGVersion = { ...version, sessionId: uuidv4() };
+    db.saveVersion(tagged).catch((e) => console.error('Failed to tag version with a session', e));
+    setVersions(prev => prev.map(v => v.id === tagged.id ? tagged : v));
+    persistSession({ id: tagged.sessionId!, prompt: version.prompt, plan: null, createdAt: version.timestamp });
+    return tagged.sessionId!;
+  };
+
+  // Hand edits and recolors from the modal land as a child of the edited version in the same session
+  const saveEditedVersion = async (parent: SVGVersion, svgCode: string, note = "Edited by hand in the code pane.") => {
+    const sessionId = adoptIntoSession(parent);
+    const child: SVGVersion = {
+        id: uuidv4(),
+        timestamp: Date.now(),
+        svgCode: sanitizeSvgFor('storage', svgCode),
+        critique: note,
+        iteration: parent.iteration + 1,
+        prompt: parent.prompt,
+        thumbnail: undefined,
+        sessionId,
+        parentId: parent.id
+    };
+    await db.saveVersion(child);
+    setVersions(prev => [child, ...prev]);
+    setViewingVersion(child);
+  };
+
+  // One model edit action on `svgCode` under the settings of the run that produced `parent`
+  const requestModelEdit = async (parent: SVGVersion, svgCode: string, instruction: string): Promise<string> => {
+    if (usesNetworkProvider && !isTokenMode && !loadApiKey()) {
+      setIsApiKeyModalOpen(true);
+      throw new Error('Add an API key to edit.');
+    }
+    if (usesCloudCredits && !isAuthenticated) {
+      setIsApiKeyModalOpen(true);
+      throw new Error('Sign in to edit.');
+    }
+    // Keep the look and limits of the run that produced the version
+    const settings = sessionsRef.current.find(s => s.id === parent.sessionId)?.settings;
+    try {
+      const result = await gemini.editSVG(
+        svgCode,
+        instruction,
+        parent.prompt,
+        undefined,
+        uuidv4(),
+        undefined,
+        settings?.style,
+        settings?.constraints
+      );
+      return result.text;
+    } catch (e: any) {
+      if (e?.code === 'functions/resource-exhausted' || /insufficient gif credits/i.test(e?.message || '')) {
+        setIsPurchaseModalOpen(true);
+      }
+      throw e;
+    }
+  };
+
+  // Conversational edit: one model call on the version, billed under its own session, saved as a child
+  const editVersionWithInstruction = async (parent: SVGVersion, instruction: string) => {
+    const edited = await requestModelEdit(parent, parent.svgCode, instruction);
+    await saveEditedVersion(parent, edited, `Edit: ${instruction}`);
+  };
+
+  // Only the selected subtrees (with the defs and ancestors they depend on) are sent for change;
+  // everything else is copied from the parent as-is
+  const refineVersionRegions = async (parent: SVGVersion, regions: number[], note: string) => {
+    const selection = normalizeSelection(parent.svgCode, regions);
+    if (selection.length === 0) throw new RegionRefineError('Select at least one element to refine.');
+    const edited = await requestModelEdit(
+      parent,
+      excerptRegions(parent.svgCode, selection),
+      buildRegionEditInstruction(note, selection.length)
+    );
+    const merged = mergeRegionEdits(parent.svgCode, selection, edited);
+    const syntaxError = checkWellFormed(merged);
+    if (syntaxError) throw new RegionRefineError(`The refined regions did not merge cleanly: ${syntaxError.message}`);
+    await saveEditedVersion(parent, merged, `Region refine: ${note}`);
+  };
+
   const confirmStart = () => {
     const trimmed = prompt.trim();
     if (!trimmed) return;
+    const seed = branchSeedRef.current;
+    branchSeedRef.current = null;
 
     setShowEstimate(false);
     setTokenEstimate(null);
@@ -525,23 +1064,117 @@ const App: React.FC = () => {
     setCurrentSVG('');
     resetStreamedSvgPreview();
     currentVersionIdRef.current = '';
+    currentParentIdRef.current = null;
+    pendingCritiqueRef.current = null;
+    reviewedCritiqueRef.current = null;
+    setCritiqueUnderReview(null);
+    extractionRetriesRef.current = 0;
     generationSessionIdRef.current = uuidv4();
+    historySessionIdRef.current = generationSessionIdRef.current;
     iterationRef.current = 0;
     phaseRef.current = AppPhase.IDLE;
+    runProgressRef.current = createRunProgress();
+    stopConditionsRef.current = stopConditions;
+    candidateCountRef.current = candidateCount;
+    styleRef.current = toStyleGuide(stylePresets.find(p => p.id === stylePresetId));
+    constraintsRef.current = hasConstraints(outputConstraints) ? outputConstraints : undefined;
+    referenceImageRef.current = referenceImage || undefined;
+
+    branchCopyOfRef.current = seed;
+    if (seed) {
+      // Continue a new branch from a past version instead of planning from scratch
+      latestSVGRef.current = seed.svgCode;
+      setCurrentSVG(seed.svgCode);
+      historySessionIdRef.current = adoptIntoSession(seed);
+      // Cloud credits bill evaluate+refine as a pair, so those runs re-evaluate the seed first.
+      if (seed.critiqueDetails && !usesCloudCredits) {
+        // Refine straight from the seed; its result becomes the seed's child
+        currentVersionIdRef.current = seed.id;
+        currentParentIdRef.current = seed.parentId || null;
+        iterationRef.current = seed.iteration;
+        pendingCritiqueRef.current = seed.critiqueDetails;
+        runProgressRef.current.scores.push(seed.critiqueDetails.overall);
+      } else {
+        // The render and critique are saved on a child copy so the seed keeps its note and history
+        currentVersionIdRef.current = uuidv4();
+        currentParentIdRef.current = seed.id;
+        iterationRef.current = seed.iteration + 1;
+      }
+    }
+    ensureSession(historySessionIdRef.current, trimmed);
 
     setState({
-        phase: AppPhase.PLANNING,
-        currentIteration: 0,
-        lastCritique: null,
+        phase: seed ? AppPhase.RENDERING : AppPhase.PLANNING,
+        currentIteration: seed ? iterationRef.current : 0,
+        lastCritique: seed?.critique || null,
         lastThoughts: [],
         plan: null,
-        error: null
+        error: null,
+        stopReason: null
     });
 
     runRefinementLoop();
   };
 
+  const handleCandidateCountChange = async (count: number) => {
+    setCandidateCount(count);
+    const trimmed = prompt.trim();
+    if (!trimmed) return;
+    setIsEstimating(true);
+    try {
+      setTokenEstimate(await gemini.estimateFullCycleCost(trimmed, count));
+    } catch (err) {
+      console.error('Failed to estimate tokens:', err);
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const handleOptimizeOnSaveChange = (enabled: boolean) => {
+    setOptimizeOnSaveState(enabled);
+    optimizeOnSaveRef.current = enabled;
+    setOptimizeOnSave(enabled);
+  };
+
+  const handleSelectStylePreset = (id: string) => {
+    setStylePresetId(id);
+    setSelectedStylePresetId(id);
+  };
+
+  const handleSaveStylePreset = (preset: StylePreset) => {
+    const next = [...stylePresets, preset];
+    setStylePresets(next);
+    setCustomStylePresets(next);
+    handleSelectStylePreset(preset.id);
+  };
+
+  const handleDeleteStylePreset = (id: string) => {
+    const next = stylePresets.filter(p => p.id !== id);
+    setStylePresets(next);
+    setCustomStylePresets(next);
+    if (id === stylePresetId) handleSelectStylePreset(DEFAULT_STYLE_PRESET_ID);
+  };
+
+  const handleLintInRefineChange = (enabled: boolean) => {
+    setLintInRefineState(enabled);
+    lintInRefineRef.current = enabled;
+    setLintInRefine(enabled);
+  };
+
+  const handleReviewCritiqueChange = (enabled: boolean) => {
+    setReviewCritiqueState(enabled);
+    reviewCritiqueRef.current = enabled;
+    setReviewCritique(enabled);
+  };
+
+  // Rendering components read the module cache, so updating state here is what re-renders them
+  const handleSanitizerPoliciesChange = (policies: Record<SanitizerUse, SanitizerPolicyName>) => {
+    setSanitizerPolicies(policies);
+    setSanitizerPoliciesState(policies);
+  };
+
   const cancelEstimate = () => {
+    branchSeedRef.current = null;
     setShowEstimate(false);
     setTokenEstimate(null);
     setIsEstimating(false);
@@ -562,6 +1195,11 @@ const App: React.FC = () => {
     }
   };
 
+  const handleProviderChange = (id: ModelProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
+
   const handleOpenApiKeyModal = () => {
     setIsApiKeyModalOpen(true);
   };
@@ -623,6 +1261,8 @@ const App: React.FC = () => {
       pendingRecoveryForUidRef.current = null;
       setTokenBalance(0);
       setVersions([]);
+      sessionsRef.current = [];
+      setSessions([]);
       setViewingVersion(null);
       setIsAuthenticated(false);
     } finally {
@@ -637,7 +1277,8 @@ const App: React.FC = () => {
 
   const isThinking = state.phase !== AppPhase.IDLE &&
                      state.phase !== AppPhase.STOPPED &&
-                     state.phase !== AppPhase.RENDERING;
+                     state.phase !== AppPhase.RENDERING &&
+                     state.phase !== AppPhase.REVIEWING;
 
   return (
     <div className="min-h-screen p-4 md:p-10 overflow-x-hidden relative">
@@ -669,7 +1310,7 @@ const App: React.FC = () => {
             phase={state.phase}
             prompt={prompt}
             setPrompt={setPrompt}
-            onStart={requestStartLoop}
+            onStart={() => requestStartLoop()}
             onStop={stopLoop}
             autoRefineEnabled={autoRefineEnabled}
             onAutoRefineChange={handleAutoRefineToggle}
@@ -682,6 +1323,19 @@ const App: React.FC = () => {
             plan={state.plan}
             iteration={state.currentIteration}
             streamedSvgCode={streamedSvgCode}
+            stopReason={state.stopReason}
+            stylePresets={stylePresets}
+            stylePresetId={stylePresetId}
+            onSelectStylePreset={handleSelectStylePreset}
+            onSaveStylePreset={handleSaveStylePreset}
+            onDeleteStylePreset={handleDeleteStylePreset}
+            outputConstraints={outputConstraints}
+            onOutputConstraintsChange={setOutputConstraints}
+            referenceImage={referenceImage}
+            onReferenceImageChange={setReferenceImage}
+            onTraceImage={handleTraceImage}
+            critiqueUnderReview={critiqueUnderReview}
+            onContinueWithCritique={continueWithReviewedCritique}
         />
 
         {state.error && isLoopingRef.current && (
@@ -697,11 +1351,13 @@ const App: React.FC = () => {
 
         <Gallery
             versions={versions}
+            sessions={sessions}
             viewingId={viewingVersion?.id || null}
             onSelect={setViewingVersion}
             selectedIds={selectedIds}
             onToggleSelect={toggleSelect}
             onDelete={deleteVersions}
+            onCompare={setComparingIds}
         />
 
         <footer className="mt-16 text-center">
@@ -733,7 +1389,21 @@ const App: React.FC = () => {
 
       <Modal
         version={viewingVersion}
+        sessionVersions={viewingVersion?.sessionId
+          ? versions.filter(v => v.sessionId === viewingVersion.sessionId)
+          : []}
         onClose={() => setViewingVersion(null)}
+        onSelectVersion={setViewingVersion}
+        onContinueFrom={requestBranchFrom}
+        onSaveEdit={saveEditedVersion}
+        onEditWithInstruction={editVersionWithInstruction}
+        onRefineRegions={refineVersionRegions}
+        canContinue={state.phase === AppPhase.IDLE || state.phase === AppPhase.STOPPED}
+      />
+
+      <CompareView
+        versions={comparingVersions}
+        onClose={() => setComparingIds(null)}
       />
 
       <ApiKeyModal
@@ -745,6 +1415,8 @@ const App: React.FC = () => {
         isAuthenticated={isAuthenticated}
         isSigningIn={isSigningIn}
         onModeChange={handleModeChange}
+        providerId={providerId}
+        onProviderChange={handleProviderChange}
         onOpenPurchase={() => setIsPurchaseModalOpen(true)}
         onSignIn={handleSignInForCredits}
         onSignOut={handleSignOut}
@@ -755,10 +1427,22 @@ const App: React.FC = () => {
         <TokenEstimate
           estimate={tokenEstimate}
           balance={tokenBalance}
-          isTokenMode={isTokenMode}
+          isTokenMode={usesCloudCredits}
           isLoading={isEstimating}
           autoRefineEnabled={autoRefineEnabled}
           onAutoRefineChange={setAutoRefineEnabled}
+          stopConditions={stopConditions}
+          onStopConditionsChange={setStopConditions}
+          candidateCount={branchSeedRef.current ? undefined : candidateCount}
+          onCandidateCountChange={branchSeedRef.current ? undefined : handleCandidateCountChange}
+          optimizeOnSave={optimizeOnSave}
+          onOptimizeOnSaveChange={handleOptimizeOnSaveChange}
+          lintInRefine={lintInRefine}
+          onLintInRefineChange={handleLintInRefineChange}
+          reviewCritique={reviewCritique}
+          onReviewCritiqueChange={handleReviewCritiqueChange}
+          sanitizerPolicies={sanitizerPolicies}
+          onSanitizerPoliciesChange={handleSanitizerPoliciesChange}
           onConfirm={confirmStart}
           onCancel={cancelEstimate}
           onBuyTokens={() => {
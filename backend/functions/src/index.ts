@@ -3,6 +3,7 @@ import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
 import { GoogleGenAI } from "@google/genai";
 import { google } from "googleapis";
 import { createHash } from "node:crypto";
+import { processSvgOutput } from "./svgSafety";
 
 admin.initializeApp();
 const db = admin.firestore();
@@ -15,8 +16,8 @@ const getGeminiClient = () => {
 };
 
 // Product ID mapping
-type BillingAction = "plan" | "generate" | "evaluate" | "refine";
-const BILLING_ACTIONS: BillingAction[] = ["plan", "generate", "evaluate", "refine"];
+type BillingAction = "plan" | "generate" | "evaluate" | "refine" | "edit";
+const BILLING_ACTIONS: BillingAction[] = ["plan", "generate", "evaluate", "refine", "edit"];
 
 const numberFromEnv = (value: string | undefined, fallback: number): number => {
   const parsed = Number(value);
@@ -38,6 +39,7 @@ const OUTPUT_ESTIMATES: Record<BillingAction, number> = {
   generate: numberFromEnv(process.env.ESTIMATED_GENERATE_OUTPUT_TOKENS, 12_000),
   evaluate: numberFromEnv(process.env.ESTIMATED_EVALUATE_OUTPUT_TOKENS, 500),
   refine: numberFromEnv(process.env.ESTIMATED_REFINE_OUTPUT_TOKENS, 12_000),
+  edit: numberFromEnv(process.env.ESTIMATED_EDIT_OUTPUT_TOKENS, 12_000),
 };
 
 const FOLLOW_UP_INPUT_MULTIPLIERS: Record<BillingAction, number> = {
@@ -45,6 +47,7 @@ const FOLLOW_UP_INPUT_MULTIPLIERS: Record<BillingAction, number> = {
   generate: 0,
   evaluate: numberFromEnv(process.env.EVALUATE_FOLLOW_UP_INPUT_MULTIPLIER, 1.1),
   refine: 0,
+  edit: 0,
 };
 
 const FOLLOW_UP_OUTPUT_ESTIMATES: Record<BillingAction, number> = {
@@ -52,8 +55,12 @@ const FOLLOW_UP_OUTPUT_ESTIMATES: Record<BillingAction, number> = {
   generate: 0,
   evaluate: OUTPUT_ESTIMATES.refine,
   refine: 0,
+  edit: 0,
 };
 
+// Upper bound on candidates drafted from one plan (and ranked in one evaluate call).
+const MAX_CANDIDATES = 4;
+
 const INPUT_TOKEN_COST_PER_MILLION_USD = numberFromEnv(process.env.INPUT_TOKEN_COST_PER_MILLION_USD, 2);
 const OUTPUT_TOKEN_COST_PER_MILLION_USD = numberFromEnv(process.env.OUTPUT_TOKEN_COST_PER_MILLION_USD, 12);
 const CREDIT_GROSS_PRICE_USD = numberFromEnv(process.env.CREDIT_GROSS_PRICE_USD, 0.5);
@@ -179,8 +186,9 @@ const toDisplayCredits = (value: number): number => {
   return Math.max(1, Math.ceil(Math.max(0, value)));
 };
 
+// Actions that reserve up front: plan and evaluate for their pair, edit for itself alone
 const isChargeAction = (action: BillingAction): boolean => {
-  return action === "plan" || action === "evaluate";
+  return action === "plan" || action === "evaluate" || action === "edit";
 };
 
 const assertInputTokenCap = (inputTokens: number): void => {
@@ -235,9 +243,145 @@ const creditsForGifOutput = (pairCostUsd: number): number => {
   return computeGifBilling(pairCostUsd).billedCredits;
 };
 
+const readCandidateCount = (value: unknown): number => {
+  const parsed = Math.floor(Number(value));
+  return Number.isFinite(parsed) ? Math.min(MAX_CANDIDATES, Math.max(1, parsed)) : 1;
+};
+
+const MAX_MOTION_FRAMES = 16;
+
+type MotionSampling = {
+  timestampsMs: number[];
+  cycleMs: number;
+};
+
+// Frame timing for an evaluate image that is a contact sheet of animation frames.
+const readMotionSampling = (value: unknown): MotionSampling | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const raw = value as { timestampsMs?: unknown; cycleMs?: unknown };
+  const timestamps = raw.timestampsMs;
+  const cycleMs = Number(raw.cycleMs);
+  if (
+    !Array.isArray(timestamps) ||
+    timestamps.length < 1 ||
+    timestamps.length > MAX_MOTION_FRAMES ||
+    !timestamps.every((ms) => typeof ms === "number" && Number.isFinite(ms) && ms >= 0) ||
+    !Number.isFinite(cycleMs) ||
+    cycleMs <= 0
+  ) {
+    throw new HttpsError("invalid-argument", `motion must list 1-${MAX_MOTION_FRAMES} frame timestamps and a cycle length`);
+  }
+  return { timestampsMs: timestamps as number[], cycleMs };
+};
+
+// Reference image or sketch sent with plan and evaluate. Like imageBase64 it is only bounded by the
+// input token cap, which counts it as part of the prompt.
+const readReferenceImage = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new HttpsError("invalid-argument", "referenceImage must be a PNG data URL");
+  }
+  const data = value.replace(/^data:image\/png;base64,/i, "").trim();
+  if (!data || !/^[A-Za-z0-9+/]+=*$/.test(data)) {
+    throw new HttpsError("invalid-argument", "referenceImage must be a PNG data URL");
+  }
+  return data;
+};
+
+const MAX_STYLE_PALETTE = 16;
+
+type StyleGuide = {
+  name: string;
+  description: string;
+  palette?: string[];
+  strokeWidth?: number;
+  cornerRadius?: number;
+};
+
+const readStyleNumber = (value: unknown, max: number, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > max) {
+    throw new HttpsError("invalid-argument", `style.${field} must be a number from 0 to ${max}`);
+  }
+  return value;
+};
+
+// Visual style preset applied to every prompt of a run (mirrors StyleGuide in the client's services/prompts.ts).
+const readStyleGuide = (value: unknown): StyleGuide | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const raw = value as { name?: unknown; description?: unknown; palette?: unknown; strokeWidth?: unknown; cornerRadius?: unknown };
+  const name = typeof raw.name === "string" ? sanitizePromptInput(raw.name, 60) : "";
+  const description = typeof raw.description === "string" ? sanitizePromptInput(raw.description, 500) : "";
+  if (!name || !description) {
+    throw new HttpsError("invalid-argument", "style needs a name and a description");
+  }
+  if (
+    raw.palette !== undefined &&
+    (!Array.isArray(raw.palette) ||
+      raw.palette.length > MAX_STYLE_PALETTE ||
+      !raw.palette.every((color) => typeof color === "string" && /^#[0-9a-f]{3,8}$/i.test(color)))
+  ) {
+    throw new HttpsError("invalid-argument", `style.palette must hold up to ${MAX_STYLE_PALETTE} hex colors`);
+  }
+  const palette = raw.palette as string[] | undefined;
+  const strokeWidth = readStyleNumber(raw.strokeWidth, 100, "strokeWidth");
+  const cornerRadius = readStyleNumber(raw.cornerRadius, 500, "cornerRadius");
+  return {
+    name,
+    description,
+    ...(palette?.length ? { palette } : {}),
+    ...(strokeWidth !== undefined ? { strokeWidth } : {}),
+    ...(cornerRadius !== undefined ? { cornerRadius } : {}),
+  };
+};
+
+type OutputConstraints = {
+  canvas?: { width: number; height: number };
+  motion?: "static" | "animated";
+  maxElements?: number;
+  maxBytes?: number;
+  monochrome?: boolean;
+};
+
+const readPositiveInteger = (value: unknown, max: number, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new HttpsError("invalid-argument", `constraints.${field} must be an integer from 1 to ${max}`);
+  }
+  return value;
+};
+
+// Per-run output limits (mirrors OutputConstraints in the client's services/prompts.ts).
+const readOutputConstraints = (value: unknown): OutputConstraints | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const raw = value as { canvas?: { width?: unknown; height?: unknown }; motion?: unknown; maxElements?: unknown; maxBytes?: unknown; monochrome?: unknown };
+  if (raw.motion !== undefined && raw.motion !== "static" && raw.motion !== "animated") {
+    throw new HttpsError("invalid-argument", "constraints.motion must be static or animated");
+  }
+  const canvas = raw.canvas
+    ? {
+      width: readPositiveInteger(raw.canvas.width, 10_000, "canvas.width"),
+      height: readPositiveInteger(raw.canvas.height, 10_000, "canvas.height"),
+    }
+    : undefined;
+  if (canvas && (!canvas.width || !canvas.height)) {
+    throw new HttpsError("invalid-argument", "constraints.canvas needs a width and a height");
+  }
+  const maxElements = readPositiveInteger(raw.maxElements, 100_000, "maxElements");
+  const maxBytes = readPositiveInteger(raw.maxBytes, 10_000_000, "maxBytes");
+  return {
+    ...(canvas ? { canvas: { width: canvas.width!, height: canvas.height! } } : {}),
+    ...(raw.motion ? { motion: raw.motion as OutputConstraints["motion"] } : {}),
+    ...(maxElements !== undefined ? { maxElements } : {}),
+    ...(maxBytes !== undefined ? { maxBytes } : {}),
+    ...(raw.monochrome === true ? { monochrome: true } : {}),
+  };
+};
+
 const estimatePairForAction = (
   action: BillingAction,
-  inputTokens: number
+  inputTokens: number,
+  candidateCount = 1
 ): {
   estimatedOutputTokens: number;
   pairInputTokens: number;
@@ -245,10 +389,13 @@ const estimatePairForAction = (
   pairTotalTokens: number;
   pairUsd: number;
 } => {
-  const estimatedOutputTokens = OUTPUT_ESTIMATES[action] || 2_000;
-  const followUpInputMultiplier = FOLLOW_UP_INPUT_MULTIPLIERS[action] || 0;
-  const followUpOutputTokens = FOLLOW_UP_OUTPUT_ESTIMATES[action] || 0;
-  const pairInputTokens = Math.ceil(inputTokens * (1 + followUpInputMultiplier));
+  // A plan pays ahead for N drafts; the generate call itself runs the prompt N times.
+  const actionRuns = action === "generate" ? candidateCount : 1;
+  const followUpRuns = action === "plan" ? candidateCount : 1;
+  const estimatedOutputTokens = (OUTPUT_ESTIMATES[action] || 2_000) * actionRuns;
+  const followUpInputMultiplier = (FOLLOW_UP_INPUT_MULTIPLIERS[action] || 0) * followUpRuns;
+  const followUpOutputTokens = (FOLLOW_UP_OUTPUT_ESTIMATES[action] || 0) * followUpRuns;
+  const pairInputTokens = Math.ceil(inputTokens * (actionRuns + followUpInputMultiplier));
   const pairOutputTokens = Math.ceil(estimatedOutputTokens + followUpOutputTokens);
   const pairTotalTokens = pairInputTokens + pairOutputTokens;
   const pairUsd = actionUsageCostUsd({
@@ -309,6 +456,15 @@ type BillingSettlementResult = {
   pairDisplayCredits: number | null;
 };
 
+// Outcome of the server-side SVG extraction/sanitization pass on generate/refine output
+type SvgOutputValidation = {
+  valid: boolean;
+  issues: string[];
+  removed: string[];
+  // Candidates dropped because they held no usable SVG
+  discardedCandidates: number;
+};
+
 type BillingSettlementOptions = {
   rollbackOnly?: boolean;
   provisionalChargedCredits?: number;
@@ -316,9 +472,9 @@ type BillingSettlementOptions = {
 };
 
 type PendingPairFieldSet = {
-  pendingCostUsdField: "pendingPlanCostUsd" | "pendingEvaluateCostUsd";
-  pendingTokensField: "pendingPlanTokens" | "pendingEvaluateTokens";
-  pendingReservedCreditsField: "pendingPlanReservedCredits" | "pendingEvaluateReservedCredits";
+  pendingCostUsdField: "pendingPlanCostUsd" | "pendingEvaluateCostUsd" | "pendingEditCostUsd";
+  pendingTokensField: "pendingPlanTokens" | "pendingEvaluateTokens" | "pendingEditTokens";
+  pendingReservedCreditsField: "pendingPlanReservedCredits" | "pendingEvaluateReservedCredits" | "pendingEditReservedCredits";
 };
 
 type PendingPairState = {
@@ -331,6 +487,9 @@ type ValidatedGenerationContext = {
   typedAction: BillingAction;
   sessionId: string;
   contents: PromptContents;
+  // One prompt per drafted candidate; a single entry for every other action
+  candidateContents: PromptContents[];
+  candidateCount: number;
   ai: GoogleGenAI;
   estimatedInputTokens: number;
   pairEstimate: ReturnType<typeof estimatePairForAction>;
@@ -370,6 +529,13 @@ const reservationFieldsForAction = (action: BillingAction): PendingPairFieldSet
       pendingReservedCreditsField: "pendingPlanReservedCredits",
     };
   }
+  if (action === "edit") {
+    return {
+      pendingCostUsdField: "pendingEditCostUsd",
+      pendingTokensField: "pendingEditTokens",
+      pendingReservedCreditsField: "pendingEditReservedCredits",
+    };
+  }
   return {
     pendingCostUsdField: "pendingEvaluateCostUsd",
     pendingTokensField: "pendingEvaluateTokens",
@@ -516,6 +682,9 @@ const reserveCreditsForAction = async (
       sessionUpdate.pendingEvaluateCostUsd = 0;
       sessionUpdate.pendingEvaluateTokens = 0;
     }
+    if (action === "edit") {
+      sessionUpdate.pendingEditReservedCredits = provisionalCharge;
+    }
     if (action === "generate") {
       sessionUpdate.pendingPlanReservedCredits = roundCredits(currentPlanReservedCredits + provisionalCharge);
     }
@@ -609,6 +778,69 @@ const settleGifOrEvaluate = ({
   };
 };
 
+// Settle an action billed on its own (edit): charge what its cost exceeds the up-front reservation.
+const settleStandaloneAction = ({
+  fields,
+  userRef,
+  sessionRef,
+  sessionData,
+  usage,
+  currentBalance,
+  tx,
+}: {
+  fields: PendingPairFieldSet;
+  userRef: FirebaseFirestore.DocumentReference;
+  sessionRef: FirebaseFirestore.DocumentReference;
+  sessionData: FirebaseFirestore.DocumentData;
+  usage: UsageMetrics;
+  currentBalance: number;
+  tx: FirebaseFirestore.Transaction;
+}): BillingSettlementResult => {
+  const reservedCredits = roundCredits(Number(sessionData[fields.pendingReservedCreditsField]) || 0);
+  const billing = computeGifBilling(usage.totalUsd);
+  const additionalCredits = ceilCredits(Math.max(0, billing.billedCredits - reservedCredits));
+  const newBalance = roundCredits(currentBalance - additionalCredits);
+
+  tx.set(
+    userRef,
+    {
+      balance: newBalance,
+      gifBalance: newBalance,
+      totalConsumed: admin.firestore.FieldValue.increment(additionalCredits),
+      creditDebt: roundCredits(Math.max(0, -newBalance)),
+      hasNegativeBalance: newBalance < 0,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  tx.set(
+    sessionRef,
+    {
+      [fields.pendingCostUsdField]: 0,
+      [fields.pendingTokensField]: 0,
+      [fields.pendingReservedCreditsField]: 0,
+      lastGifCreditsCharged: billing.billedCredits,
+      lastGifRawCredits: billing.rawCredits,
+      lastDisplayGifCredits: billing.displayCredits,
+      lastCreditRoundingMode: `ceil_fractional_${CREDIT_DECIMALS}dp_show_whole`,
+      lastGifCostUsd: usage.totalUsd,
+      lastGifTokens: usage.totalTokens,
+      creditsConsumed: admin.firestore.FieldValue.increment(additionalCredits),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  return {
+    remainingBalance: newBalance,
+    additionalChargedCredits: additionalCredits,
+    pairCreditsCharged: billing.billedCredits,
+    pairRawCredits: billing.rawCredits,
+    pairDisplayCredits: billing.displayCredits,
+  };
+};
+
 const settleActionBilling = async (
   uid: string,
   sessionId: string,
@@ -667,7 +899,7 @@ const settleActionBilling = async (
         ...(sessionDoc.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
       };
 
-      if (action === "plan" || action === "evaluate") {
+      if (action === "plan" || action === "evaluate" || action === "edit") {
         sessionUpdate[rollbackFields.pendingCostUsdField] = 0;
         sessionUpdate[rollbackFields.pendingTokensField] = 0;
       }
@@ -724,6 +956,18 @@ const settleActionBilling = async (
       };
     }
 
+    if (action === "edit") {
+      return settleStandaloneAction({
+        fields: reservationFieldsForAction(action),
+        userRef,
+        sessionRef,
+        sessionData,
+        usage,
+        currentBalance,
+        tx,
+      });
+    }
+
     const fields = pendingPairFieldsForAction(action);
     if (!fields) {
       throw new HttpsError("failed-precondition", "Unsupported billing action for settlement");
@@ -1017,7 +1261,8 @@ export const estimateTokenCost = onCall(
       throw new HttpsError("unauthenticated", "Must be signed in");
     }
 
-    const { action, prompt, svgCode, critique, plan, iteration } = request.data;
+    const { action, prompt, svgCode, critique, instruction, plan, iteration } = request.data;
+    const candidateCount = readCandidateCount(request.data?.candidateCount);
 
     if (typeof action !== "string" || !BILLING_ACTIONS.includes(action as BillingAction)) {
       throw new HttpsError("invalid-argument", "Invalid action");
@@ -1025,7 +1270,7 @@ export const estimateTokenCost = onCall(
     const typedAction = action as BillingAction;
 
     const ai = getGeminiClient();
-    const contents = buildPromptForAction(typedAction, { prompt, svgCode, critique, plan, iteration });
+    const contents = buildPromptForAction(typedAction, { prompt, svgCode, critique, instruction, plan, iteration });
 
     const countResult = await ai.models.countTokens({
       model: MODEL,
@@ -1035,7 +1280,7 @@ export const estimateTokenCost = onCall(
     const inputTokens = countResult.totalTokens || 0;
     assertInputTokenCap(inputTokens);
 
-    const pairEstimate = estimatePairForAction(typedAction, inputTokens);
+    const pairEstimate = estimatePairForAction(typedAction, inputTokens, candidateCount);
     const estimatedOutput = pairEstimate.estimatedOutputTokens;
     const estimatedActionUsd = actionUsageCostUsd({
       inputTokens,
@@ -1112,14 +1357,58 @@ const validateAndBuildContents = async (
 
   const typedAction = actionRaw as BillingAction;
   const sessionId = sessionIdRaw;
-  const contents = buildPromptForAction(typedAction, {
+  const candidateCount = typedAction === "plan" || typedAction === "generate"
+    ? readCandidateCount(rawData.candidateCount)
+    : 1;
+
+  let candidateImages: string[] | undefined;
+  if (rawData.candidateImages !== undefined) {
+    if (
+      !Array.isArray(rawData.candidateImages) ||
+      rawData.candidateImages.length < 2 ||
+      rawData.candidateImages.length > MAX_CANDIDATES ||
+      !rawData.candidateImages.every((image) => typeof image === "string")
+    ) {
+      throw new HttpsError("invalid-argument", `candidateImages must hold 2-${MAX_CANDIDATES} images`);
+    }
+    candidateImages = rawData.candidateImages as string[];
+  }
+
+  // The SVG being refined comes from the client; sanitize it like model output before it is prompted
+  let svgCode: string | undefined;
+  if (typeof rawData.svgCode === "string" && rawData.svgCode.trim()) {
+    const checked = processSvgOutput(rawData.svgCode);
+    if (!checked.valid && (typedAction === "refine" || typedAction === "edit")) {
+      throw new HttpsError("invalid-argument", `svgCode is not a usable SVG: ${checked.issues.join(" ")}`);
+    }
+    svgCode = checked.valid ? checked.svgCode : undefined;
+  }
+  const instruction = typeof rawData.instruction === "string" ? rawData.instruction.trim() : "";
+  if (typedAction === "edit" && (!svgCode || !instruction)) {
+    throw new HttpsError("invalid-argument", "edit needs svgCode and an instruction");
+  }
+
+  const promptParams = {
     prompt: typeof rawData.prompt === "string" ? rawData.prompt : undefined,
-    svgCode: typeof rawData.svgCode === "string" ? rawData.svgCode : undefined,
+    svgCode,
     critique: typeof rawData.critique === "string" ? rawData.critique : undefined,
+    instruction: instruction || undefined,
     plan: typeof rawData.plan === "string" ? rawData.plan : undefined,
     iteration: typeof rawData.iteration === "number" ? rawData.iteration : undefined,
     imageBase64: typeof rawData.imageBase64 === "string" ? rawData.imageBase64 : undefined,
-  });
+    candidateImages,
+    motion: typedAction === "evaluate" ? readMotionSampling(rawData.motion) : undefined,
+    style: readStyleGuide(rawData.style),
+    constraints: readOutputConstraints(rawData.constraints),
+    referenceImage: typedAction === "plan" || typedAction === "evaluate"
+      ? readReferenceImage(rawData.referenceImage)
+      : undefined,
+  };
+  const candidateContents = typedAction === "generate"
+    ? Array.from({ length: candidateCount }, (_, index) =>
+      buildPromptForAction(typedAction, { ...promptParams, candidate: { index, count: candidateCount } }))
+    : [buildPromptForAction(typedAction, promptParams)];
+  const contents = candidateContents[0];
 
   const ai = getGeminiClient();
   const countResult = await ai.models.countTokens({
@@ -1128,12 +1417,14 @@ const validateAndBuildContents = async (
   });
   const estimatedInputTokens = countResult.totalTokens || 0;
   assertInputTokenCap(estimatedInputTokens);
-  const pairEstimate = estimatePairForAction(typedAction, estimatedInputTokens);
+  const pairEstimate = estimatePairForAction(typedAction, estimatedInputTokens, candidateCount);
 
   return {
     typedAction,
     sessionId,
     contents,
+    candidateContents,
+    candidateCount,
     ai,
     estimatedInputTokens,
     pairEstimate,
@@ -1165,11 +1456,40 @@ const computeProvisionalReserve = async (
   );
 };
 
+// Actions whose model output is SVG markup rather than text or JSON
+const SVG_OUTPUT_ACTIONS: BillingAction[] = ["generate", "refine", "edit"];
+
+/**
+ * Extract, sanitize and validate SVG output before it is sent to the client. Unusable candidates
+ * are dropped; when none survive the text is empty and the validation is flagged invalid. The
+ * model was still called, so billing is unaffected.
+ */
+const checkSvgOutputs = (
+  typedAction: BillingAction,
+  texts: string[]
+): { texts: string[]; svgValidation?: SvgOutputValidation } => {
+  if (!SVG_OUTPUT_ACTIONS.includes(typedAction)) return { texts };
+
+  const results = texts.map(processSvgOutput);
+  const usable = results.filter((result) => result.valid);
+  const reported = usable[0] || results[0];
+  return {
+    texts: usable.length > 0 ? usable.map((result) => result.svgCode) : [""],
+    svgValidation: {
+      valid: usable.length > 0,
+      issues: reported.issues,
+      removed: Array.from(new Set(results.flatMap((result) => result.removed))),
+      discardedCandidates: results.length - usable.length,
+    },
+  };
+};
+
 const finalizeBillingAndPersist = async (
   uid: string,
   sessionId: string,
   typedAction: BillingAction,
-  usageMetrics: UsageMetrics
+  usageMetrics: UsageMetrics,
+  svgValidation?: SvgOutputValidation
 ): Promise<BillingSettlementResult> => {
   const settlement = await settleActionBilling(uid, sessionId, typedAction, usageMetrics);
   const userRef = db.collection("users").doc(uid);
@@ -1190,6 +1510,11 @@ const finalizeBillingAndPersist = async (
     sessionRef.set(
       {
         lastCompletedAction: typedAction,
+        ...(svgValidation ? {
+          lastOutputValid: svgValidation.valid,
+          lastOutputIssues: svgValidation.issues,
+          ...(svgValidation.valid ? {} : { invalidOutputCount: admin.firestore.FieldValue.increment(1) }),
+        } : {}),
         totalTokenUsage: admin.firestore.FieldValue.increment(usageMetrics.totalTokens),
         totalInputTokenUsage: admin.firestore.FieldValue.increment(usageMetrics.inputTokens),
         totalOutputTokenUsage: admin.firestore.FieldValue.increment(usageMetrics.outputTokens),
@@ -1253,31 +1578,54 @@ export const generateWithTokens = onCall(
     }
     const uid = request.auth.uid;
     const data = (request.data || {}) as Record<string, unknown>;
-    const { typedAction, sessionId, contents, ai, pairEstimate } = await validateAndBuildContents(data);
+    const {
+      typedAction,
+      sessionId,
+      candidateContents,
+      candidateCount,
+      ai,
+      pairEstimate,
+    } = await validateAndBuildContents(data);
     const reservation = await computeProvisionalReserve(uid, sessionId, typedAction, pairEstimate);
 
     try {
-      // Call Gemini API
-      const result = await ai.models.generateContent({
-        model: MODEL,
-        contents,
-        config: {
-          thinkingConfig: { includeThoughts: true },
-        },
-      });
+      const texts: string[] = [];
+      let combinedThoughts = "";
+      let inputTokens = 0;
+      let outputTokens = 0;
+      let thoughtTokens = 0;
+      let totalUsed = 0;
+
+      // Call Gemini API once per candidate (a single call for every other action)
+      for (const contents of candidateContents) {
+        const result = await ai.models.generateContent({
+          model: MODEL,
+          contents,
+          config: {
+            thinkingConfig: { includeThoughts: true },
+          },
+        });
+
+        texts.push(result.text || "");
+        combinedThoughts += result.candidates?.[0]?.content?.parts
+          ?.filter((p: any) => p.thought && p.text)
+          .map((p: any) => p.text)
+          .join("") || "";
+
+        // Track actual token usage for analytics/cost monitoring.
+        const usage = result.usageMetadata;
+        const callInputTokens = usage?.promptTokenCount || 0;
+        const callOutputTokens = usage?.candidatesTokenCount || 0;
+        const callThoughtTokens = usage?.thoughtsTokenCount || 0;
+        inputTokens += callInputTokens;
+        outputTokens += callOutputTokens;
+        thoughtTokens += callThoughtTokens;
+        totalUsed += usage?.totalTokenCount || (callInputTokens + callOutputTokens + callThoughtTokens);
+      }
 
-      const text = result.text || "";
-      const thoughts = result.candidates?.[0]?.content?.parts
-        ?.filter((p: any) => p.thought && p.text)
-        .map((p: any) => p.text)
-        .join("") || null;
-
-      // Track actual token usage for analytics/cost monitoring.
-      const usage = result.usageMetadata;
-      const inputTokens = usage?.promptTokenCount || 0;
-      const outputTokens = usage?.candidatesTokenCount || 0;
-      const thoughtTokens = usage?.thoughtsTokenCount || 0;
-      const totalUsed = usage?.totalTokenCount || (inputTokens + outputTokens + thoughtTokens);
+      const { texts: outputTexts, svgValidation } = checkSvgOutputs(typedAction, texts);
+      const text = outputTexts[0];
+      const thoughts = combinedThoughts || null;
       const usageMetrics: UsageMetrics = {
         inputTokens,
         outputTokens,
@@ -1285,11 +1633,13 @@ export const generateWithTokens = onCall(
         totalTokens: totalUsed,
         totalUsd: actionUsageCostUsd({ inputTokens, outputTokens, thoughtTokens }),
       };
-      const settlement = await finalizeBillingAndPersist(uid, sessionId, typedAction, usageMetrics);
+      const settlement = await finalizeBillingAndPersist(uid, sessionId, typedAction, usageMetrics, svgValidation);
 
       return {
         text,
         thoughts,
+        ...(candidateCount > 1 ? { candidates: outputTexts } : {}),
+        ...(svgValidation ? { svgValidation } : {}),
         tokensUsed: totalUsed,
         remainingBalance: settlement.remainingBalance,
         chargedCreditsThisAction: roundCredits(
@@ -1353,7 +1703,8 @@ export const streamGenerateWithTokens = onRequest(
       const {
         typedAction,
         sessionId,
-        contents,
+        candidateContents,
+        candidateCount,
         ai,
         pairEstimate,
         estimatedInputTokens,
@@ -1388,53 +1739,74 @@ export const streamGenerateWithTokens = onRequest(
       }, 15_000);
 
       try {
-        const stream = await ai.models.generateContentStream({
-          model: MODEL,
-          contents,
-          config: {
-            thinkingConfig: { includeThoughts: true },
-          },
-        });
-
-        let text = "";
+        const texts: string[] = [];
         let thoughts = "";
-        let usageMetadata: any = null;
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let thoughtTokens = 0;
+        let totalUsed = 0;
+        let hasUsageMetadata = true;
 
         writeSseEvent(res, "status", { stage: "generating" });
 
-        for await (const chunk of stream) {
-          const parts = chunk.candidates?.[0]?.content?.parts;
-          if (!parts) continue;
-
-          for (const part of parts) {
-            if (part.thought && part.text) {
-              thoughts += part.text;
-              writeSseEvent(res, "thought", { chunk: part.text });
-            } else if (part.text) {
-              text += part.text;
-              writeSseEvent(res, "output", { chunk: part.text });
-            }
+        // Candidates stream one after another; the client resets its preview on each "candidate" event.
+        for (let index = 0; index < candidateContents.length; index++) {
+          if (candidateCount > 1) {
+            writeSseEvent(res, "candidate", { index, count: candidateCount });
           }
 
-          if (chunk.usageMetadata) {
-            usageMetadata = chunk.usageMetadata;
+          const stream = await ai.models.generateContentStream({
+            model: MODEL,
+            contents: candidateContents[index],
+            config: {
+              thinkingConfig: { includeThoughts: true },
+            },
+          });
+
+          let text = "";
+          let usageMetadata: any = null;
+
+          for await (const chunk of stream) {
+            const parts = chunk.candidates?.[0]?.content?.parts;
+            if (!parts) continue;
+
+            for (const part of parts) {
+              if (part.thought && part.text) {
+                thoughts += part.text;
+                writeSseEvent(res, "thought", { chunk: part.text });
+              } else if (part.text) {
+                text += part.text;
+                writeSseEvent(res, "output", { chunk: part.text });
+              }
+            }
+
+            if (chunk.usageMetadata) {
+              usageMetadata = chunk.usageMetadata;
+            }
           }
+
+          texts.push(text);
+
+          const usageInputTokens = usageMetadata?.promptTokenCount || 0;
+          const usageOutputTokens = usageMetadata?.candidatesTokenCount || 0;
+          const usageThoughtTokens = usageMetadata?.thoughtsTokenCount || 0;
+          const usageTotalTokens = usageMetadata?.totalTokenCount || 0;
+          const callHasUsage = usageInputTokens > 0 || usageOutputTokens > 0 || usageThoughtTokens > 0 || usageTotalTokens > 0;
+          hasUsageMetadata = hasUsageMetadata && callHasUsage;
+
+          const callInputTokens = callHasUsage ? usageInputTokens : estimatedInputTokens;
+          const callOutputTokens = callHasUsage
+            ? usageOutputTokens
+            : (OUTPUT_ESTIMATES[typedAction] || 0);
+          const callThoughtTokens = callHasUsage ? usageThoughtTokens : 0;
+          inputTokens += callInputTokens;
+          outputTokens += callOutputTokens;
+          thoughtTokens += callThoughtTokens;
+          totalUsed += callHasUsage
+            ? (usageTotalTokens || (callInputTokens + callOutputTokens + callThoughtTokens))
+            : (callInputTokens + callOutputTokens + callThoughtTokens);
         }
 
-        const usageInputTokens = usageMetadata?.promptTokenCount || 0;
-        const usageOutputTokens = usageMetadata?.candidatesTokenCount || 0;
-        const usageThoughtTokens = usageMetadata?.thoughtsTokenCount || 0;
-        const usageTotalTokens = usageMetadata?.totalTokenCount || 0;
-        const hasUsageMetadata = usageInputTokens > 0 || usageOutputTokens > 0 || usageThoughtTokens > 0 || usageTotalTokens > 0;
-
-        const inputTokens = hasUsageMetadata ? usageInputTokens : estimatedInputTokens;
-        const outputTokens = hasUsageMetadata
-          ? usageOutputTokens
-          : (OUTPUT_ESTIMATES[typedAction] || 0);
-        const thoughtTokens = hasUsageMetadata ? usageThoughtTokens : 0;
-        const totalUsed = hasUsageMetadata
-          ? (usageTotalTokens || (inputTokens + outputTokens + thoughtTokens))
-          : (inputTokens + outputTokens + thoughtTokens);
         const usageMetrics: UsageMetrics = {
           inputTokens,
           outputTokens,
@@ -1443,11 +1815,14 @@ export const streamGenerateWithTokens = onRequest(
           totalUsd: actionUsageCostUsd({ inputTokens, outputTokens, thoughtTokens }),
         };
 
-        const settlement = await finalizeBillingAndPersist(uid, sessionId, typedAction, usageMetrics);
+        const { texts: outputTexts, svgValidation } = checkSvgOutputs(typedAction, texts);
+        const settlement = await finalizeBillingAndPersist(uid, sessionId, typedAction, usageMetrics, svgValidation);
 
         writeSseEvent(res, "complete", {
-          text,
+          text: outputTexts[0],
           thoughts: thoughts || null,
+          ...(candidateCount > 1 ? { candidates: outputTexts } : {}),
+          ...(svgValidation ? { svgValidation } : {}),
           tokensUsed: totalUsed,
           remainingBalance: settlement.remainingBalance,
           chargedCreditsThisAction: roundCredits(
@@ -1525,6 +1900,55 @@ type PromptPart = {
 
 type PromptContents = string | { parts: PromptPart[] };
 
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(2)}s`;
+
+// Structured critique contract parsed by the client (services/critique.ts).
+const EVALUATE_RESPONSE_FORMAT = `
+                Score each criterion from 0 (broken) to 10 (excellent). Use null for animation when the image has no motion.
+                Respond with ONLY a JSON object, no markdown, in exactly this shape:
+                {"scores": {"promptAlignment": 0, "aesthetics": 0, "technicalExecution": 0, "animation": null},
+                 "summary": "one sentence verdict",
+                 "issues": [{"criterion": "aesthetics", "severity": "high", "text": "concise, actionable fix"}]}
+                List 3-4 issues. criterion is one of promptAlignment, aesthetics, technicalExecution, animation; severity is high, medium or low.`;
+
+// Keep in sync with styleRules in services/prompts.ts.
+const DEFAULT_STYLE_RULE = "Use vibrant colors and clean paths.";
+
+const styleRules = (style?: StyleGuide): string[] => {
+  if (!style) return [DEFAULT_STYLE_RULE];
+  const rules = [`Follow the "${style.name}" style: ${style.description}`];
+  if (style.palette?.length) rules.push(`Use only these colors: ${style.palette.join(", ")}.`);
+  if (style.strokeWidth !== undefined) rules.push(`Draw outlines with a stroke width of ${style.strokeWidth}.`);
+  if (style.cornerRadius !== undefined) rules.push(`Round shape corners with a radius of ${style.cornerRadius}.`);
+  return rules;
+};
+
+// Keep in sync with constraintRules in services/prompts.ts.
+const constraintRules = (constraints?: OutputConstraints): string[] => {
+  if (!constraints) return [];
+  const rules: string[] = [];
+  const { canvas, motion, maxElements, maxBytes, monochrome } = constraints;
+  if (canvas) {
+    rules.push(`Use exactly viewBox="0 0 ${canvas.width} ${canvas.height}" (aspect ratio ${canvas.width}:${canvas.height}) and keep every shape inside it.`);
+  }
+  if (motion === "static") rules.push("The image must be static: no CSS animations or transitions and no SMIL animation elements.");
+  if (motion === "animated") rules.push("The image must be animated with at least one CSS keyframe animation.");
+  if (maxElements !== undefined) rules.push(`Use at most ${maxElements} SVG elements in total.`);
+  if (maxBytes !== undefined) rules.push(`Keep the SVG code under ${Math.floor(maxBytes / 1024)} KB.`);
+  if (monochrome) rules.push("Monochrome: use a single hue with its tints and shades, plus black, white and grays.");
+  return rules;
+};
+
+const constraintList = (constraints?: OutputConstraints): string =>
+  constraintRules(constraints).map((rule) => `\n      - ${rule}`).join("");
+
+// Keep in sync with the reference rules in services/prompts.ts.
+const REFERENCE_PLAN_RULE = "The user attached a reference image, shown above. Base the composition, proportions, poses and key shapes on it; treat it as a guide to layout, not as something to copy pixel for pixel.";
+const REFERENCE_CRITERION = "Fidelity to the reference image (the second image): the composition, proportions and key shapes should match it. Report deviations as promptAlignment issues.";
+
+const styleList = (style?: StyleGuide): string =>
+  styleRules(style).map((rule) => `\n      - ${rule}`).join("");
+
 const sanitizePromptInput = (value: string | undefined, maxLength = 12_000): string => {
   if (!value) return "";
 
@@ -1549,42 +1973,102 @@ function buildPromptForAction(
     prompt?: string;
     svgCode?: string;
     critique?: string;
+    instruction?: string;
     plan?: string;
     iteration?: number;
     imageBase64?: string;
+    candidateImages?: string[];
+    candidate?: { index: number; count: number };
+    motion?: MotionSampling;
+    style?: StyleGuide;
+    constraints?: OutputConstraints;
+    referenceImage?: string;
   }
 ): PromptContents {
+  const style = params.style;
+  const limits = constraintRules(params.constraints);
   switch (action) {
-    case "plan":
-      return `You are an expert SVG artist and planner.
+    case "plan": {
+      // Optional steps are numbered as they are joined, so the list has no gaps
+      const steps = [
+        "Analyze the intent and potential artistic directions.",
+        "Create a detailed technical plan for an SVG that embodies this concept.",
+        "Focus on composition, color palette, and shapes.",
+        "Keep the SVG complexity manageable but visually striking.",
+        "Consider whether CSS keyframe animations would enhance the concept.",
+        ...(style ? [`The plan must fit the required visual style: ${styleRules(style).join(" ")}`] : []),
+        ...(limits.length > 0 ? [`The plan must respect these output constraints: ${limits.join(" ")}`] : []),
+        ...(params.referenceImage ? [REFERENCE_PLAN_RULE] : []),
+      ];
+      const text = `You are an expert SVG artist and planner.
       The user has provided an ambiguous prompt: "${params.prompt}".
 
-      1. Analyze the intent and potential artistic directions.
-      2. Create a detailed technical plan for an SVG that embodies this concept.
-      3. Focus on composition, color palette, and shapes.
-      4. Keep the SVG complexity manageable but visually striking.
-      5. Consider whether CSS keyframe animations would enhance the concept.
+      ${steps.map((step, index) => `${index + 1}. ${step}`).join("\n      ")}
 
       Output the plan as a concise paragraph.`;
+      return params.referenceImage
+        ? { parts: [{ inlineData: { mimeType: "image/png", data: params.referenceImage } }, { text }] }
+        : text;
+    }
 
     case "generate":
       return `Create a single SVG file based on this plan: "${params.plan}".
 
       Requirements:
       - Use standard SVG syntax.
-      - Ensure it is scalable (viewBox).
-      - Use vibrant colors and clean paths.
+      - Ensure it is scalable (viewBox).${styleList(style)}${constraintList(params.constraints)}
       - Do not use external CSS files or JavaScript. Inline styles are fine.
       - If the plan calls for animation or motion, use CSS keyframe animations inside a <defs><style> block.
       - For animations, set appropriate transform-origin values and use smooth easing functions (ease-in-out).
-      - For animations, only animate SVG-safe properties (transform, opacity, fill, stroke).
+      - For animations, only animate SVG-safe properties (transform, opacity, fill, stroke).${
+        params.candidate && params.candidate.count > 1
+          ? `\n      - This is candidate ${params.candidate.index + 1} of ${params.candidate.count}. Take a distinctly different composition from the other candidates.`
+          : ""}
       - Return ONLY the SVG code.`;
 
     case "evaluate": {
+      if (params.candidateImages) {
+        const count = params.candidateImages.length;
+        return {
+          parts: [
+            ...params.candidateImages.flatMap((image, index): PromptPart[] => [
+              { text: `Candidate ${index + 1}:` },
+              {
+                inlineData: {
+                  mimeType: "image/png",
+                  data: image.replace(/^data:image\/[^;]+;base64,/i, "").trim(),
+                },
+              },
+            ]),
+            {
+              text: `You are a strict Senior Design Critic judging ${count} candidate renderings, labelled Candidate 1 to Candidate ${count} in the order shown.
+                The original goal was: "${params.prompt}".
+
+                Rank every candidate from best to worst on prompt alignment, aesthetics and technical execution.${style ? `
+                Candidates that drift from the required style rank lower: ${styleRules(style).join(" ")}` : ""}
+                Then critique ONLY the winning candidate so it can be refined further.
+                Add a "ranking" array of candidate numbers (best first) and a one sentence "rankingReason" to the JSON object.
+${EVALUATE_RESPONSE_FORMAT}`,
+            },
+          ],
+        };
+      }
       if (!params.imageBase64) {
         throw new HttpsError("invalid-argument", "imageBase64 required for evaluate");
       }
       const base64Data = params.imageBase64.replace(/^data:image\/[^;]+;base64,/i, "").trim();
+      const motion = params.motion;
+      // Optional criteria are numbered as they are joined, as in the plan prompt
+      const criteria = [
+        "Alignment with the prompt.",
+        "Visual aesthetics (balance, color, contrast).",
+        "Technical execution (if visible artifacts exist).",
+        motion
+          ? "Animation quality across the frames: smooth progression between neighbouring frames, elements staying on canvas, no parts popping in or out, a seamless loop from the last frame back to the first, and whether the motion enhances or distracts from the design. Score animation; do not leave it null."
+          : "Animation quality (if present).",
+        ...(style ? [`Adherence to the required style (report deviations as aesthetics issues): ${styleRules(style).join(" ")}`] : []),
+        ...(params.referenceImage ? [REFERENCE_CRITERION] : []),
+      ];
       return {
         parts: [
           {
@@ -1593,19 +2077,21 @@ function buildPromptForAction(
               data: base64Data,
             },
           },
+          ...(params.referenceImage
+            ? [{ inlineData: { mimeType: "image/png", data: params.referenceImage } }]
+            : []),
           {
             text: `You are a strict Senior Design Critic.
                 Analyze this rendered SVG (Iteration #${params.iteration}).
-                The original goal was: "${params.prompt}".
+                The original goal was: "${params.prompt}".${motion ? `
+                This image is a contact sheet of ${motion.timestampsMs.length} frames sampled from one ${formatSeconds(motion.cycleMs)} animation cycle, read left to right, top to bottom, at ${motion.timestampsMs.map(formatSeconds).join(", ")}.
+                Each labelled cell is the same SVG frozen at that moment; judge the artwork from the frames and the motion from how they change.` : ""}
 
                 Critique the image based on:
-                1. Alignment with the prompt.
-                2. Visual aesthetics (balance, color, contrast).
-                3. Technical execution (if visible artifacts exist).
-                4. Animation quality (if present).
+                ${criteria.map((criterion, index) => `${index + 1}. ${criterion}`).join("\n                ")}
 
                 Be harsh but constructive. Point out exactly what looks wrong.
-                Limit your critique to 3-4 concise, actionable bullet points.`,
+${EVALUATE_RESPONSE_FORMAT}`,
           },
         ],
       };
@@ -1630,9 +2116,36 @@ function buildPromptForAction(
 
       Task:
       Rewrite the SVG code to fix the issues mentioned in the critique and improve the overall quality.
+      - Work through every checklist item, most severe first, and raise the lowest scores.
       - Keep the code clean and efficient.
       - Ensure valid XML.
-      - If the current SVG uses CSS keyframe animations, preserve and improve them.
+      - If the current SVG uses CSS keyframe animations, preserve and improve them.${style ? styleList(style) : ""}${constraintList(params.constraints)}
+      - Do not use external CSS files or JavaScript.
+      - Return ONLY the new SVG code.`;
+    }
+
+    case "edit": {
+      const sanitizedPrompt = sanitizePromptInput(params.prompt, 2_000);
+      const sanitizedSvgCode = sanitizePromptInput(params.svgCode, 30_000);
+      const sanitizedInstruction = sanitizePromptInput(params.instruction, 2_000);
+
+      return `You are an expert SVG Coder editing an existing illustration.
+
+      Original Goal: "${sanitizedPrompt}"
+
+      Current SVG Code:
+      \`\`\`xml
+      ${sanitizedSvgCode}
+      \`\`\`
+
+      Edit requested by the user:
+      "${sanitizedInstruction}"
+
+      Task:
+      Apply exactly this edit to the SVG code.
+      - Change only what the edit asks for; keep every other shape, color, position and animation as it is.
+      - Keep the same viewBox unless the edit asks to resize or reframe.
+      - Ensure valid XML.${params.style ? styleList(params.style) : ""}${constraintList(params.constraints)}
       - Do not use external CSS files or JavaScript.
       - Return ONLY the new SVG code.`;
     }
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { processSvgOutput } from "./svgSafety";
+
+test("a stray close tag is dropped and the rest of the document kept", () => {
+  const result = processSvgOutput(
+    "<svg viewBox=\"0 0 10 10\"><g><rect width=\"5\" height=\"5\"/></g></g><circle cx=\"5\" cy=\"5\" r=\"2\"/><path d=\"M0 0L10 10\"/></svg>"
+  );
+  assert.equal(result.valid, true);
+  assert.equal(
+    result.svgCode,
+    "<svg xmlns=\"http://www.w3.org/2000/svg\" viewBox=\"0 0 10 10\"><g><rect width=\"5\" height=\"5\"/></g><circle cx=\"5\" cy=\"5\" r=\"2\"/><path d=\"M0 0L10 10\"/></svg>"
+  );
+  assert.deepEqual(result.issues, ["Dropped stray </g>."]);
+});
+
+test("a close tag skipping unclosed children closes them too", () => {
+  const result = processSvgOutput("<svg><g><text>Hi</g><rect width=\"1\" height=\"1\"/></svg>");
+  assert.equal(result.valid, true);
+  assert.equal(
+    result.svgCode,
+    "<svg xmlns=\"http://www.w3.org/2000/svg\"><g><text>Hi</text></g><rect width=\"1\" height=\"1\"/></svg>"
+  );
+});
+
+test("a forbidden element's subtree is skipped up to its own close tag", () => {
+  const result = processSvgOutput("<svg><foreignObject><div><p>x</foreignObject><circle r=\"1\"/></svg>");
+  assert.equal(result.svgCode, "<svg xmlns=\"http://www.w3.org/2000/svg\"><circle r=\"1\"/></svg>");
+  assert.deepEqual(result.removed, ["<foreignObject>"]);
+});
@@ -0,0 +1,324 @@
+// DOM-less SVG extraction, sanitization and validation for model output and client-supplied
+// markup. Cloud Functions have no DOMParser, so markup is tokenized here and rebuilt tag by tag:
+// disallowed elements are dropped with their subtree, scriptable attributes and external
+// references are stripped, <style> CSS is filtered, and truncated documents are closed.
+
+export type SvgValidationResult = {
+  svgCode: string;
+  valid: boolean;
+  // Why the result is unusable, or what had to be repaired
+  issues: string[];
+  // What sanitization removed, e.g. "<script>" or "onclick"
+  removed: string[];
+};
+
+export const MAX_SVG_BYTES = 512_000;
+
+// Elements whose subtree is dropped entirely
+const FORBIDDEN_ELEMENTS = new Set([
+  "script", "foreignobject", "iframe", "object", "embed", "audio", "video", "canvas",
+  "html", "body", "head", "link", "meta", "base", "form", "input", "button", "textarea", "handler",
+]);
+
+// Elements that draw something; an SVG without any of them is treated as unusable
+const GRAPHIC_ELEMENTS = new Set([
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon", "text", "use", "image",
+]);
+
+const ALLOWED_ATTRIBUTE_PREFIXES = new Set(["xlink", "xml", "xmlns"]);
+const HREF_ATTRIBUTES = new Set(["href", "xlink:href"]);
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+
+type Attribute = { name: string; value: string };
+
+type Token =
+  | { type: "open"; name: string; attributes: Attribute[]; selfClosing: boolean }
+  | { type: "close"; name: string }
+  | { type: "text"; text: string }
+  | { type: "cdata"; text: string };
+
+const truncate = (text: string, max = 60): string => (text.length > max ? `${text.slice(0, max)}...` : text);
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[\da-fA-F]+);)/g, "&amp;")
+    .replace(/</g, "&lt;");
+
+const escapeAttribute = (value: string): string => escapeText(value).replace(/"/g, "&quot;");
+
+const SCRIPT_URL = /^(?:javascript|vbscript):/i;
+// SMIL attributes whose values are applied to the animated attribute
+const ANIMATION_VALUE_ATTRIBUTES = new Set(["values", "from", "to", "by"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", colon: ":", semi: ";", tab: "\t", newline: "\n",
+};
+
+/** Decode character references the way a browser would before interpreting an attribute value. */
+const decodeEntities = (value: string): string =>
+  value.replace(/&(?:#(\d+)|#x([\da-f]+)|([a-z]+));?/gi, (match, dec: string, hex: string, name: string) => {
+    const code = dec ? Number(dec) : hex ? parseInt(hex, 16) : null;
+    if (code !== null) return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    return NAMED_ENTITIES[name.toLowerCase()] ?? match;
+  });
+
+// Checks every ";"-separated item, since SMIL values lists apply each one in turn;
+// browsers also ignore whitespace and control characters inside a URL scheme.
+const hasScriptUrl = (value: string): boolean =>
+  decodeEntities(value)
+    .split(";")
+    .some((item) => SCRIPT_URL.test(item.replace(/[\s\u0000-\u001f]+/g, "")));
+
+const isAllowedUrl = (url: string): boolean => {
+  const value = url.trim().toLowerCase();
+  return value.startsWith("#") || value.startsWith("data:image/");
+};
+
+/** Strip @import, external url(), image-set(), CSS escapes and scriptable declarations. */
+export const sanitizeCss = (css: string, removed: string[]): string => {
+  let clean = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  if (/\\[0-9a-fA-F]/.test(clean)) {
+    removed.push("CSS escape sequences");
+    clean = clean.replace(/\\[0-9a-fA-F]{1,6}\s?/g, "");
+  }
+  clean = clean.replace(/@import[^;]*;?/gi, (match) => {
+    removed.push(truncate(match.trim()));
+    return "";
+  });
+  clean = clean.replace(/url\(\s*(['"]?)([\s\S]*?)\1\s*\)/gi, (match, _quote: string, url: string) => {
+    if (isAllowedUrl(url)) return match;
+    removed.push(`url(${truncate(url)})`);
+    return "none";
+  });
+  clean = clean.replace(/(?:-webkit-)?image-set\([^;{}]*\)/gi, (match) => {
+    removed.push(truncate(match));
+    return "none";
+  });
+  clean = clean.replace(/[\w-]+\s*:[^;{}]*(?:expression\s*\(|javascript:|-moz-binding|behavior\s*:)[^;{}]*;?/gi, (match) => {
+    removed.push(truncate(match.trim()));
+    return "";
+  });
+  return clean;
+};
+
+const unwrapMarkdown = (text: string): string => {
+  for (const match of text.matchAll(/```[^\n]*\n?([\s\S]*?)(?:```|$)/g)) {
+    if (/<svg[\s>/]/i.test(match[1])) return match[1];
+  }
+  return text;
+};
+
+const parseAttributes = (source: string): Attribute[] => {
+  const attributes: Attribute[] = [];
+  const pattern = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const value = match[2] ?? match[3] ?? match[4];
+    if (value !== undefined) attributes.push({ name: match[1], value });
+  }
+  return attributes;
+};
+
+const RAW_TEXT_ELEMENTS = new Set(["style", "script"]);
+
+type Tokenized = {
+  tokens: Token[];
+  // Whether the input ended before the </svg> that closes the root
+  truncated: boolean;
+  // Close tags that matched no open element, dropped
+  stray: string[];
+};
+
+/**
+ * Tokenize from the first <svg>. Close tags are matched against the open elements: one that
+ * skips over unclosed children closes them too, and one that matches nothing is dropped.
+ */
+const tokenize = (source: string): Tokenized => {
+  const tokens: Token[] = [];
+  const stray: string[] = [];
+  // Names of the open elements, outermost first
+  const open: string[] = [];
+  let pos = source.search(/<svg[\s>/]/i);
+
+  while (pos < source.length) {
+    if (source.startsWith("<!--", pos)) {
+      const end = source.indexOf("-->", pos + 4);
+      if (end < 0) return { tokens, truncated: true, stray };
+      pos = end + 3;
+    } else if (source.startsWith("<![CDATA[", pos)) {
+      const end = source.indexOf("]]>", pos + 9);
+      if (end < 0) return { tokens, truncated: true, stray };
+      tokens.push({ type: "cdata", text: source.slice(pos + 9, end) });
+      pos = end + 3;
+    } else if (source.startsWith("<!", pos) || source.startsWith("<?", pos)) {
+      const end = source.indexOf(">", pos);
+      if (end < 0) return { tokens, truncated: true, stray };
+      pos = end + 1;
+    } else if (source[pos] === "<" && /[/A-Za-z]/.test(source[pos + 1] || "")) {
+      // Quoted attribute values may contain '>'
+      const tag = source.slice(pos).match(/^<(\/?)\s*([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/);
+      if (!tag) {
+        if (source.indexOf(">", pos) < 0) return { tokens, truncated: true, stray };
+        tokens.push({ type: "text", text: "<" });
+        pos++;
+        continue;
+      }
+      pos += tag[0].length;
+      const name = tag[2];
+      if (tag[1]) {
+        const index = open.map((n) => n.toLowerCase()).lastIndexOf(name.toLowerCase());
+        if (index < 0) {
+          stray.push(name);
+          continue;
+        }
+        while (open.length > index) tokens.push({ type: "close", name: open.pop()! });
+        if (open.length === 0) return { tokens, truncated: false, stray };
+        continue;
+      }
+      const selfClosing = tag[4] === "/";
+      tokens.push({ type: "open", name, attributes: parseAttributes(tag[3]), selfClosing });
+      if (selfClosing) {
+        if (open.length === 0) return { tokens, truncated: false, stray };
+        continue;
+      }
+      open.push(name);
+      if (RAW_TEXT_ELEMENTS.has(name.toLowerCase())) {
+        const close = source.slice(pos).search(new RegExp(`</\\s*${name}\\s*>`, "i"));
+        if (close < 0) {
+          tokens.push({ type: "text", text: source.slice(pos) });
+          return { tokens, truncated: true, stray };
+        }
+        tokens.push({ type: "cdata", text: source.slice(pos, pos + close) });
+        pos += close;
+      }
+    } else {
+      const next = source.indexOf("<", pos + 1);
+      const end = next < 0 ? source.length : next;
+      tokens.push({ type: "text", text: source.slice(pos, end) });
+      pos = end;
+    }
+  }
+  return { tokens, truncated: true, stray };
+};
+
+const sanitizeAttributes = (element: string, attributes: Attribute[], removed: string[]): Attribute[] => {
+  const seen = new Set<string>();
+  // <animate>/<set> driving href swap the link at runtime, so their values must pass the href rules too
+  const animatesHref = attributes.some(
+    ({ name, value }) => name.toLowerCase() === "attributename" && HREF_ATTRIBUTES.has(decodeEntities(value).trim().toLowerCase())
+  );
+  return attributes.filter(({ name, value }) => {
+    const lower = name.toLowerCase();
+    const colon = lower.indexOf(":");
+    const drop = (reason: string) => {
+      removed.push(`${reason} on <${element}>`);
+      return false;
+    };
+    if (seen.has(lower)) return false;
+    seen.add(lower);
+    if (lower.startsWith("on")) return drop(name);
+    if (colon > 0 && !ALLOWED_ATTRIBUTE_PREFIXES.has(lower.slice(0, colon))) return drop(name);
+    if (HREF_ATTRIBUTES.has(lower) && !isAllowedUrl(value)) return drop(`${name}="${truncate(value, 40)}"`);
+    if (
+      animatesHref &&
+      ANIMATION_VALUE_ATTRIBUTES.has(lower) &&
+      !decodeEntities(value).split(";").every((item) => !item.trim() || isAllowedUrl(item))
+    ) {
+      return drop(`${name}="${truncate(value, 40)}"`);
+    }
+    if (hasScriptUrl(value)) return drop(name);
+    return true;
+  }).map((attribute) => {
+    if (attribute.name.toLowerCase() === "style") {
+      return { ...attribute, value: sanitizeCss(attribute.value, removed) };
+    }
+    if (attribute.value.includes("url(")) {
+      return { ...attribute, value: sanitizeCss(attribute.value, removed) };
+    }
+    return attribute;
+  });
+};
+
+/**
+ * Extract the SVG from model text (or validate client-supplied markup), sanitize it and report
+ * whether the result is usable. Never throws; an unusable result has valid=false and issues set.
+ */
+export const processSvgOutput = (text: string): SvgValidationResult => {
+  const issues: string[] = [];
+  const removed: string[] = [];
+  const invalid = (issue: string): SvgValidationResult => ({ svgCode: "", valid: false, issues: [...issues, issue], removed });
+
+  if (!text || !text.trim()) return invalid("The output is empty.");
+  if (Buffer.byteLength(text, "utf8") > MAX_SVG_BYTES) {
+    return invalid(`The output exceeds ${Math.round(MAX_SVG_BYTES / 1000)} KB.`);
+  }
+
+  const source = unwrapMarkdown(text);
+  if (!/<svg[\s>/]/i.test(source)) return invalid("The output does not contain an <svg> element.");
+
+  const { tokens, truncated, stray } = tokenize(source);
+  if (truncated) issues.push("The output was truncated; unfinished tags were closed.");
+  for (const name of stray) issues.push(`Dropped stray </${name}>.`);
+
+  const out: string[] = [];
+  const stack: string[] = [];
+  // Depth inside a dropped element; its whole subtree is skipped
+  let skipDepth = 0;
+  let graphicElements = 0;
+  let inStyle = false;
+
+  for (const token of tokens) {
+    if (token.type === "open") {
+      const lower = token.name.toLowerCase();
+      if (skipDepth > 0) {
+        if (!token.selfClosing) skipDepth++;
+        continue;
+      }
+      if (FORBIDDEN_ELEMENTS.has(lower)) {
+        removed.push(`<${token.name}>`);
+        if (!token.selfClosing) skipDepth = 1;
+        continue;
+      }
+      if (stack.length === 0 && lower !== "svg") return invalid("The root element is not <svg>.");
+      if (GRAPHIC_ELEMENTS.has(lower)) graphicElements++;
+
+      const attributes = sanitizeAttributes(token.name, token.attributes, removed);
+      if (stack.length === 0) {
+        if (!attributes.some((a) => a.name === "xmlns")) attributes.unshift({ name: "xmlns", value: SVG_NS });
+        if (!attributes.some((a) => a.name === "xmlns:xlink") && /xlink:/.test(source)) {
+          attributes.push({ name: "xmlns:xlink", value: XLINK_NS });
+        }
+      }
+      const rendered = attributes.map(({ name, value }) => ` ${name}="${escapeAttribute(value)}"`).join("");
+      out.push(`<${token.name}${rendered}${token.selfClosing ? "/>" : ">"}`);
+      if (!token.selfClosing) {
+        stack.push(token.name);
+        inStyle = lower === "style";
+      }
+    } else if (token.type === "close") {
+      if (skipDepth > 0) {
+        skipDepth--;
+        continue;
+      }
+      const index = stack.lastIndexOf(token.name);
+      if (index < 0) continue;
+      while (stack.length > index) out.push(`</${stack.pop()}>`);
+      inStyle = false;
+    } else if (skipDepth === 0 && stack.length > 0) {
+      if (inStyle) {
+        const css = sanitizeCss(token.text, removed);
+        out.push(/[<&]/.test(css) ? `<![CDATA[${css.replace(/]]>/g, "")}]]>` : css);
+      } else if (token.type === "cdata") {
+        out.push(`<![CDATA[${token.text.replace(/]]>/g, "")}]]>`);
+      } else {
+        out.push(escapeText(token.text));
+      }
+    }
+  }
+  while (stack.length > 0) out.push(`</${stack.pop()}>`);
+
+  if (out.length === 0) return invalid("The <svg> element could not be read.");
+  if (graphicElements === 0) return invalid("The <svg> element contains nothing to draw.");
+  return { svgCode: out.join(""), valid: true, issues, removed };
+};
@@ -1,7 +1,14 @@
 import React, { useEffect, useRef } from 'react';
-import { AppPhase } from '../types';
+import { AppPhase, StructuredCritique } from '../types';
 import SVGCanvas, { SVGCanvasHandle } from './SVGCanvas';
-import { PenTool, Eraser } from 'lucide-react';
+import StylePresetPicker from './StylePresetPicker';
+import OutputConstraintsPanel from './OutputConstraintsPanel';
+import ReferenceInput from './ReferenceInput';
+import CritiqueReviewPanel from './CritiqueReviewPanel';
+import type { StylePreset } from '../services/stylePresets';
+import type { OutputConstraints } from '../services/prompts';
+import { captureFrameFor } from '../services/outputConstraints';
+import { PenTool, Eraser, ImageUp } from 'lucide-react';
 
 interface ActiveStageProps {
   phase: AppPhase;
@@ -20,6 +27,20 @@ interface ActiveStageProps {
   plan: string | null;
   iteration: number;
   streamedSvgCode: string;
+  stopReason: string | null;
+  stylePresets: StylePreset[];
+  stylePresetId: string;
+  onSelectStylePreset: (id: string) => void;
+  onSaveStylePreset: (preset: StylePreset) => void;
+  onDeleteStylePreset: (id: string) => void;
+  outputConstraints: OutputConstraints;
+  onOutputConstraintsChange: (constraints: OutputConstraints) => void;
+  referenceImage: string | null;
+  onReferenceImageChange: (image: string | null) => void;
+  onTraceImage: (file: File) => void;
+  // Set while the loop is paused in REVIEWING
+  critiqueUnderReview: StructuredCritique | null;
+  onContinueWithCritique: (reviewed: StructuredCritique) => void;
 }
 
 const ActiveStage: React.FC<ActiveStageProps> = ({
@@ -38,17 +59,31 @@ const ActiveStage: React.FC<ActiveStageProps> = ({
   isThinking,
   plan,
   iteration,
-  streamedSvgCode
+  streamedSvgCode,
+  stopReason,
+  stylePresets,
+  stylePresetId,
+  onSelectStylePreset,
+  onSaveStylePreset,
+  onDeleteStylePreset,
+  outputConstraints,
+  onOutputConstraintsChange,
+  referenceImage,
+  onReferenceImageChange,
+  onTraceImage,
+  critiqueUnderReview,
+  onContinueWithCritique
 }) => {
   const isIdle = phase === AppPhase.IDLE || phase === AppPhase.STOPPED;
   const terminalRef = useRef<HTMLDivElement>(null);
+  const traceInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-scroll terminal
   useEffect(() => {
     if (terminalRef.current) {
         terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
     }
-    }, [critique, plan, phase, iteration, streamedSvgCode]);
+    }, [critique, plan, phase, iteration, streamedSvgCode, stopReason]);
 
     const statusText =
         phase === AppPhase.GENERATING
@@ -59,6 +94,10 @@ const ActiveStage: React.FC<ActiveStageProps> = ({
             ? 'Adding details...'
             : phase === AppPhase.EVALUATING
             ? 'Reviewing the sketch...'
+            : phase === AppPhase.REVIEWING
+            ? 'Waiting for your notes on the critique...'
+            : phase === AppPhase.RANKING
+            ? 'Picking the strongest draft...'
             : phase === AppPhase.PLANNING
             ? 'Planning composition...'
             : null;
@@ -109,25 +148,66 @@ const ActiveStage: React.FC<ActiveStageProps> = ({
                             Iteration #{iteration}
                          </div>
                          <div className="flex-1 border border-dashed border-muted rounded-lg overflow-hidden relative">
-                             <SVGCanvas ref={canvasRef} svgCode={svgCode} />
+                             <SVGCanvas ref={canvasRef} svgCode={svgCode} captureSize={captureFrameFor(outputConstraints, 800)} />
                          </div>
                     </div>
                 )}
             </div>
             
+            {isIdle && (
+                <ReferenceInput referenceImage={referenceImage} onChange={onReferenceImageChange} />
+            )}
+
+            {isIdle && (
+                <StylePresetPicker
+                    presets={stylePresets}
+                    selectedId={stylePresetId}
+                    onSelect={onSelectStylePreset}
+                    onSave={onSaveStylePreset}
+                    onDelete={onDeleteStylePreset}
+                />
+            )}
+
+            {isIdle && (
+                <OutputConstraintsPanel constraints={outputConstraints} onChange={onOutputConstraintsChange} />
+            )}
+
             {/* Controls */}
             <div className="flex justify-center mt-2">
                 {isIdle ? (
-                    <button
-                        onClick={onStart}
-                        disabled={!prompt.trim()}
-                        className="group relative px-8 py-3 font-sketch text-2xl sketchy-border cursor-pointer transition-all duration-300 bg-primary text-primary-foreground hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed hover:-rotate-1"
-                    >
-                        <span className="flex items-center gap-2">
-                            <PenTool size={20} className="group-hover:rotate-12 transition-transform" />
-                            Start Sketching
-                        </span>
-                    </button>
+                    <div className="flex flex-wrap items-center justify-center gap-3">
+                        <button
+                            onClick={onStart}
+                            disabled={!prompt.trim()}
+                            className="group relative px-8 py-3 font-sketch text-2xl sketchy-border cursor-pointer transition-all duration-300 bg-primary text-primary-foreground hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed hover:-rotate-1"
+                        >
+                            <span className="flex items-center gap-2">
+                                <PenTool size={20} className="group-hover:rotate-12 transition-transform" />
+                                Start Sketching
+                            </span>
+                        </button>
+                        <input
+                            ref={traceInputRef}
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) onTraceImage(file);
+                            }}
+                            className="hidden"
+                        />
+                        <button
+                            onClick={() => traceInputRef.current?.click()}
+                            title="Trace a PNG or JPEG into a first SVG, then refine it against the description above (optional)"
+                            className="px-4 py-3 font-hand text-lg sketchy-border-thin bg-card hover:bg-muted/30 transition-colors"
+                        >
+                            <span className="flex items-center gap-2">
+                                <ImageUp size={18} />
+                                Trace an image
+                            </span>
+                        </button>
+                    </div>
                 ) : (
                     <div className="flex flex-col items-center gap-2">
                         <div className="flex flex-wrap items-center justify-center gap-3">
@@ -185,7 +265,12 @@ const ActiveStage: React.FC<ActiveStageProps> = ({
                         </div>
                     )}
 
-                    {critique && (
+                    {phase === AppPhase.REVIEWING && critiqueUnderReview ? (
+                        <div className="animate-fade-in pt-4 border-t border-dashed border-muted-foreground/20">
+                            <span className="text-accent font-bold block mb-1 underline decoration-wavy decoration-muted-foreground/30">Review the critique:</span>
+                            <CritiqueReviewPanel critique={critiqueUnderReview} onContinue={onContinueWithCritique} />
+                        </div>
+                    ) : critique && (
                         <div className="animate-fade-in pt-4 border-t border-dashed border-muted-foreground/20">
                             <span className="text-accent font-bold block mb-1 underline decoration-wavy decoration-muted-foreground/30">Critique:</span>
                             <div className="text-foreground/80 whitespace-pre-wrap">
@@ -194,6 +279,13 @@ const ActiveStage: React.FC<ActiveStageProps> = ({
                         </div>
                     )}
 
+                    {isIdle && stopReason && (
+                        <div className="animate-fade-in pt-4 border-t border-dashed border-muted-foreground/20">
+                            <span className="text-accent font-bold block mb-1 underline decoration-wavy decoration-muted-foreground/30">Stopped:</span>
+                            <p className="text-foreground/80">{stopReason}</p>
+                        </div>
+                    )}
+
                     {statusText && (
                         <div className="text-muted-foreground italic animate-fade-in">
                             <div>{statusText}</div>
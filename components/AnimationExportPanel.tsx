@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Film, Loader2, AlertTriangle } from 'lucide-react';
+import {
+  ANIMATION_EXPORT_FORMATS,
+  AnimationExportFormat,
+  AnimationExportProgress,
+  EXPORT_FPS,
+  EXPORT_SIZES,
+  exportAnimation,
+  isAnimationFormatSupported,
+} from '../services/animationExport';
+import { downloadBlob } from '../services/download';
+
+interface AnimationExportPanelProps {
+  svgCode: string;
+  fileBaseName: string;
+}
+
+const optionButtonClass = (active: boolean) =>
+  `px-2 h-8 sketchy-border-thin transition-colors disabled:opacity-40 ${active ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'}`;
+
+const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ svgCode, fileBaseName }) => {
+  const [format, setFormat] = useState<AnimationExportFormat>('gif');
+  const [size, setSize] = useState(480);
+  const [fps, setFps] = useState(15);
+  const [transparent, setTransparent] = useState(false);
+  const [progress, setProgress] = useState<AnimationExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+  // WebM recording has no reliable alpha channel across browsers
+  const canBeTransparent = format !== 'webm';
+
+  const runExport = async () => {
+    setError(null);
+    setSummary(null);
+    setProgress({ framesDone: 0, framesTotal: 0 });
+    try {
+      const result = await exportAnimation(
+        svgCode,
+        { format, size, fps, background: transparent && canBeTransparent ? 'transparent' : '#ffffff' },
+        setProgress
+      );
+      downloadBlob(result.blob, `${fileBaseName}.${result.extension}`);
+      setSummary(
+        `${result.frameCount} frames · ${(result.durationMs / 1000).toFixed(2)}s ${result.loops ? 'loop' : 'played once'} · ${(result.blob.size / 1024).toFixed(0)} KB`
+      );
+    } catch (err) {
+      console.error('Animation export failed', err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.framesTotal > 0 ? Math.round((progress.framesDone / progress.framesTotal) * 100) : 0;
+
+  return (
+    <div className="space-y-2 font-hand text-sm text-foreground">
+      <div className="flex items-center justify-between gap-2">
+        <span>Format</span>
+        <div className="flex gap-1">
+          {ANIMATION_EXPORT_FORMATS.map((entry) => (
+            <button
+              key={entry.id}
+              onClick={() => setFormat(entry.id)}
+              disabled={isExporting || !isAnimationFormatSupported(entry.id)}
+              title={isAnimationFormatSupported(entry.id) ? undefined : 'Not supported in this browser'}
+              className={optionButtonClass(format === entry.id)}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span>Size</span>
+        <div className="flex gap-1">
+          {EXPORT_SIZES.map((value) => (
+            <button key={value} onClick={() => setSize(value)} disabled={isExporting} className={optionButtonClass(size === value)}>
+              {value}px
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span>Frame rate</span>
+        <div className="flex gap-1">
+          {EXPORT_FPS.map((value) => (
+            <button key={value} onClick={() => setFps(value)} disabled={isExporting} className={optionButtonClass(fps === value)}>
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+      {canBeTransparent && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+            disabled={isExporting}
+            className="accent-accent"
+          />
+          Transparent background
+        </label>
+      )}
+
+      <button
+        onClick={runExport}
+        disabled={isExporting}
+        className="w-full py-2 sketchy-border-thin font-sketch text-lg hover:bg-accent hover:text-white hover:border-accent disabled:opacity-60 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center justify-center gap-2"
+      >
+        {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Film size={18} />}
+        {isExporting
+          ? format === 'webm' ? `Recording... ${percent}%` : `Rendering frames... ${percent}%`
+          : 'Export animation'}
+      </button>
+
+      {isExporting && (
+        <div className="h-2 bg-muted/30 rounded-full overflow-hidden">
+          <div className="h-full bg-accent transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      {summary && <p className="text-muted-foreground">{summary}</p>}
+      {error && (
+        <p className="text-destructive flex items-start gap-2">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AnimationExportPanel;
@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { X, Key, Coins, LogIn, LogOut, AlertCircle, UserCircle2 } from 'lucide-react';
 import { setApiKey, ApiKeyError } from '../services/apiKeyStorage';
+import { getProvider, MODEL_PROVIDER_IDS } from '../services/providerRegistry';
+import type { ModelProviderId } from '../services/modelProvider';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -11,6 +13,8 @@ interface ApiKeyModalProps {
   isAuthenticated: boolean;
   isSigningIn: boolean;
   onModeChange: (mode: 'tokens' | 'apikey') => void;
+  providerId: ModelProviderId;
+  onProviderChange: (id: ModelProviderId) => void;
   onOpenPurchase: () => void;
   onSignIn: () => Promise<void>;
   onSignOut: () => Promise<void>;
@@ -26,6 +30,8 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   isAuthenticated,
   isSigningIn,
   onModeChange,
+  providerId,
+  onProviderChange,
   onOpenPurchase,
   onSignIn,
   onSignOut,
@@ -136,6 +142,28 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
           </div>
         </div>
 
+        <div className="mb-5">
+          <p className="font-hand text-sm text-muted-foreground mb-2">Model provider</p>
+          <div className="grid grid-cols-2 gap-2">
+            {MODEL_PROVIDER_IDS.map((id) => (
+              <button
+                key={id}
+                onClick={() => onProviderChange(id)}
+                className={`py-2 sketchy-border-thin font-hand text-sm transition-all ${
+                  providerId === id ? 'bg-accent text-white' : 'hover:bg-muted/30'
+                }`}
+              >
+                {getProvider(id).label}
+              </button>
+            ))}
+          </div>
+          {!getProvider(providerId).requiresNetwork && (
+            <p className="font-hand text-xs text-muted-foreground mt-2">
+              The offline demo runs a deterministic local stand-in. No key, sign-in or network is used and no credits are spent.
+            </p>
+          )}
+        </div>
+
         {isTokenMode ? (
           <div className="space-y-3">
             {!isAuthenticated ? (
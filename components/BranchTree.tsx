@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { SVGVersion } from '../types';
+import { formatScore } from '../services/critique';
+
+interface BranchTreeProps {
+  versions: SVGVersion[];
+  activeId: string;
+  onSelect: (v: SVGVersion) => void;
+}
+
+interface TreeNode {
+  version: SVGVersion;
+  children: TreeNode[];
+}
+
+// Versions whose parent is missing (deleted or pre-branching history) become extra roots.
+const buildTree = (versions: SVGVersion[]): TreeNode[] => {
+  const nodes = new Map<string, TreeNode>();
+  versions.forEach((version) => nodes.set(version.id, { version, children: [] }));
+
+  const roots: TreeNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.version.parentId ? nodes.get(node.version.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  const sortNodes = (list: TreeNode[]) => {
+    list.sort((a, b) => a.version.timestamp - b.version.timestamp);
+    list.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+};
+
+const BranchTree: React.FC<BranchTreeProps> = ({ versions, activeId, onSelect }) => {
+  const roots = useMemo(() => buildTree(versions), [versions]);
+
+  const renderNode = (node: TreeNode): React.ReactNode => {
+    const { version } = node;
+    const isActive = version.id === activeId;
+    const overall = version.critiqueDetails?.overall ?? null;
+
+    return (
+      <li key={version.id}>
+        <button
+          onClick={() => onSelect(version)}
+          className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded font-hand text-sm text-left transition-colors ${
+            isActive ? 'bg-accent text-white' : 'hover:bg-muted/30 text-foreground'
+          }`}
+        >
+          <span>Iteration #{version.iteration}</span>
+          <span className={isActive ? 'text-white/80' : 'text-muted-foreground'}>
+            {overall !== null ? formatScore(overall) : new Date(version.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </button>
+        {node.children.length > 0 && (
+          <ul className={`ml-3 pl-2 border-l ${node.children.length > 1 ? 'border-accent/60' : 'border-dashed border-border'} space-y-1 mt-1`}>
+            {node.children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return <ul className="space-y-1">{roots.map(renderNode)}</ul>;
+};
+
+export default BranchTree;
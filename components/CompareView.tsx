@@ -0,0 +1,182 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { SVGVersion } from '../types';
+import { X, Columns, Layers, Flame, FileDiff } from 'lucide-react';
+import { sanitizeSvgFor } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import { formatScore } from '../services/critique';
+import { computePixelDiff, diffSvgSource, getVersionImageSrc, PixelDiffResult } from '../services/visualDiff';
+
+interface CompareViewProps {
+  versions: [SVGVersion, SVGVersion] | null;
+  onClose: () => void;
+}
+
+type CompareMode = 'side' | 'onion' | 'heatmap' | 'source';
+
+const MODES: { id: CompareMode; label: string; icon: React.ReactNode }[] = [
+  { id: 'side', label: 'Side by side', icon: <Columns size={16} /> },
+  { id: 'onion', label: 'Onion skin', icon: <Layers size={16} /> },
+  { id: 'heatmap', label: 'Pixel diff', icon: <Flame size={16} /> },
+  { id: 'source', label: 'Source diff', icon: <FileDiff size={16} /> },
+];
+
+const versionLabel = (v: SVGVersion) => {
+  const overall = v.critiqueDetails?.overall ?? null;
+  return `Iteration #${v.iteration}${overall !== null ? ` · ${formatScore(overall)}` : ''}`;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ versions, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('side');
+  const [blend, setBlend] = useState(50);
+  const [pixelDiff, setPixelDiff] = useState<PixelDiffResult | null>(null);
+  const [pixelDiffError, setPixelDiffError] = useState<string | null>(null);
+  const scopeKey = useId();
+
+  // Always read left-to-right as older -> newer
+  const [before, after] = useMemo(() => {
+    if (!versions) return [null, null];
+    const [a, b] = versions;
+    return a.timestamp <= b.timestamp ? [a, b] : [b, a];
+  }, [versions]);
+
+  const sourceDiff = useMemo(
+    () => (before && after && mode === 'source' ? diffSvgSource(before.svgCode, after.svgCode) : []),
+    [before, after, mode]
+  );
+
+  useEffect(() => {
+    setPixelDiff(null);
+    setPixelDiffError(null);
+    if (!before || !after || mode !== 'heatmap') return;
+
+    let cancelled = false;
+    computePixelDiff(getVersionImageSrc(before), getVersionImageSrc(after))
+      .then((result) => { if (!cancelled) setPixelDiff(result); })
+      .catch((e: any) => { if (!cancelled) setPixelDiffError(e?.message || 'Could not compute the pixel diff.'); });
+    return () => { cancelled = true; };
+  }, [before, after, mode]);
+
+  if (!before || !after) return null;
+
+  const added = sourceDiff.filter((line) => line.type === 'added').length;
+  const removed = sourceDiff.filter((line) => line.type === 'removed').length;
+
+  const renderSvg = (v: SVGVersion) => (
+    <div
+      className="w-full h-full flex items-center justify-center p-4 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full"
+      dangerouslySetInnerHTML={{ __html: scopeSvg(sanitizeSvgFor('render', v.svgCode), toScopePrefix(scopeKey, v.id)) }}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-card sketchy-border w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl relative"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 z-20 p-2 bg-muted/20 hover:bg-muted/50 rounded-full transition-colors text-foreground">
+          <X size={24} />
+        </button>
+
+        <div className="p-6 border-b border-border border-dashed">
+          <h2 className="font-sketch text-4xl text-foreground">Compare</h2>
+          <p className="font-hand text-muted-foreground mt-1">
+            {versionLabel(before)} → {versionLabel(after)}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {MODES.map(({ id, label, icon }) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-3 py-1 sketchy-border-thin font-hand text-base flex items-center gap-2 transition-colors ${
+                  mode === id ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'
+                }`}
+              >
+                {icon} {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+          {mode === 'side' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {[before, after].map((v) => (
+                <div key={v.id}>
+                  <div className="font-sketch text-2xl text-foreground mb-2">{versionLabel(v)}</div>
+                  <div className="bg-white border border-border aspect-square">{renderSvg(v)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mode === 'onion' && (
+            <div className="max-w-xl mx-auto">
+              <div className="relative bg-white border border-border aspect-square">
+                <div className="absolute inset-0" style={{ opacity: 1 - blend / 100 }}>{renderSvg(before)}</div>
+                <div className="absolute inset-0" style={{ opacity: blend / 100 }}>{renderSvg(after)}</div>
+              </div>
+              <div className="flex items-center gap-3 mt-4 font-hand text-sm text-muted-foreground">
+                <span>#{before.iteration}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={blend}
+                  onChange={(e) => setBlend(Number(e.target.value))}
+                  className="flex-1 accent-accent"
+                />
+                <span>#{after.iteration}</span>
+              </div>
+            </div>
+          )}
+
+          {mode === 'heatmap' && (
+            <div className="max-w-xl mx-auto text-center">
+              {pixelDiffError ? (
+                <div className="font-hand text-destructive">{pixelDiffError}</div>
+              ) : pixelDiff ? (
+                <>
+                  <img src={pixelDiff.heatmap} alt="Pixel difference heatmap" className="w-full bg-white border border-border [image-rendering:pixelated]" />
+                  <p className="font-hand text-muted-foreground mt-3">
+                    {(pixelDiff.changedRatio * 100).toFixed(1)}% of pixels changed
+                    {(!before.thumbnail || !after.thumbnail) && ' (rendered from source; no captured thumbnail)'}
+                  </p>
+                </>
+              ) : (
+                <div className="font-hand text-muted-foreground animate-pulse">Comparing pixels...</div>
+              )}
+            </div>
+          )}
+
+          {mode === 'source' && (
+            <div>
+              <p className="font-hand text-muted-foreground mb-2">
+                <span className="text-green-700">+{added}</span> / <span className="text-destructive">-{removed}</span> lines
+              </p>
+              <pre className="text-xs font-mono bg-background border border-border rounded p-3 overflow-x-auto custom-scrollbar">
+                {sourceDiff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'added'
+                        ? 'bg-green-100 text-green-900'
+                        : line.type === 'removed'
+                          ? 'bg-red-100 text-red-900'
+                          : 'text-muted-foreground'
+                    }
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Plus, ThumbsDown, ThumbsUp, Trash2, Undo2 } from 'lucide-react';
+import { CritiqueIssue, CritiqueVote, StructuredCritique } from '../types';
+import { CRITERION_LABELS, formatScore } from '../services/critique';
+
+interface CritiqueReviewPanelProps {
+  // The critic's version; edits start from it and Reset goes back to it
+  critique: StructuredCritique;
+  onContinue: (reviewed: StructuredCritique) => void;
+}
+
+const CritiqueReviewPanel: React.FC<CritiqueReviewPanelProps> = ({ critique, onContinue }) => {
+  const [issues, setIssues] = useState<CritiqueIssue[]>(critique.issues);
+  const [newIssue, setNewIssue] = useState('');
+
+  useEffect(() => {
+    setIssues(critique.issues);
+    setNewIssue('');
+  }, [critique]);
+
+  const updateIssue = (index: number, patch: Partial<CritiqueIssue>) => {
+    setIssues(issues.map((issue, i) => (i === index ? { ...issue, ...patch } : issue)));
+  };
+
+  const toggleVote = (index: number, vote: CritiqueVote) => {
+    updateIssue(index, { vote: issues[index].vote === vote ? undefined : vote });
+  };
+
+  const addIssue = () => {
+    const text = newIssue.trim();
+    if (!text) return;
+    setIssues([...issues, { text, addedByUser: true }]);
+    setNewIssue('');
+  };
+
+  const handleContinue = () => {
+    onContinue({
+      ...critique,
+      issues: issues
+        .map((issue) => ({ ...issue, text: issue.text.trim() }))
+        .filter((issue) => issue.text),
+    });
+  };
+
+  return (
+    <div className="space-y-3 font-hand text-base">
+      <p className="text-sm text-muted-foreground">
+        The critic scored this {formatScore(critique.overall)}. Edit, remove or add points, or vote on them, then continue; the refine follows your version.
+      </p>
+
+      <ul className="space-y-2">
+        {issues.map((issue, index) => (
+          <li key={index} className="flex gap-1 items-start">
+            <textarea
+              value={issue.text}
+              onChange={(e) => updateIssue(index, { text: e.target.value })}
+              rows={2}
+              title={issue.criterion ? CRITERION_LABELS[issue.criterion] : undefined}
+              className={`flex-1 px-2 py-1 sketchy-border-thin bg-white/50 text-base leading-snug resize-none focus:outline-none ${issue.vote === 'down' ? 'line-through opacity-60' : ''}`}
+            />
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => toggleVote(index, 'up')}
+                title="Make sure the refine fixes this"
+                className={`p-1 sketchy-border-thin transition-colors ${issue.vote === 'up' ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'}`}
+              >
+                <ThumbsUp size={12} />
+              </button>
+              <button
+                onClick={() => toggleVote(index, 'down')}
+                title="Disagree: the refine should leave this alone"
+                className={`p-1 sketchy-border-thin transition-colors ${issue.vote === 'down' ? 'bg-destructive text-white border-destructive' : 'hover:bg-muted/30'}`}
+              >
+                <ThumbsDown size={12} />
+              </button>
+            </div>
+            <button
+              onClick={() => setIssues(issues.filter((_, i) => i !== index))}
+              title="Remove this point"
+              className="p-1 sketchy-border-thin hover:bg-muted/30 transition-colors"
+            >
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-1">
+        <input
+          value={newIssue}
+          onChange={(e) => setNewIssue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addIssue()}
+          placeholder="Add your own point..."
+          className="flex-1 px-2 py-1 sketchy-border-thin bg-white/50 text-base focus:outline-none"
+        />
+        <button
+          onClick={addIssue}
+          disabled={!newIssue.trim()}
+          title="Add point"
+          className="p-1.5 sketchy-border-thin hover:bg-muted/30 disabled:opacity-50 transition-colors"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIssues(critique.issues)}
+          className="px-2 py-1 sketchy-border-thin text-sm hover:bg-muted/30 transition-colors flex items-center gap-1"
+        >
+          <Undo2 size={14} /> Reset
+        </button>
+        <button
+          onClick={handleContinue}
+          className="ml-auto px-3 py-1.5 sketchy-border-thin hover:bg-accent hover:text-white hover:border-accent transition-all flex items-center gap-2"
+        >
+          Continue refining <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CritiqueReviewPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { StructuredCritique } from '../types';
+import { CRITERION_LABELS, CRITIQUE_CRITERIA, formatScore } from '../services/critique';
+
+interface CritiqueScorecardProps {
+  critique: StructuredCritique;
+  // Just the bullets, for a reviewed copy shown under the critic's scores
+  issuesOnly?: boolean;
+}
+
+const severityClass: Record<string, string> = {
+  high: 'bg-destructive/10 text-destructive',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-muted/40 text-muted-foreground',
+};
+
+const CritiqueScorecard: React.FC<CritiqueScorecardProps> = ({ critique, issuesOnly }) => {
+  return (
+    <div className="space-y-3">
+      {!issuesOnly && (
+        <div className="bg-white/50 p-4 rounded-lg border border-border space-y-2">
+          {critique.overall !== null && (
+            <div className="flex justify-between items-baseline border-b border-dashed border-border pb-2">
+              <span className="font-sketch text-xl text-foreground">Overall</span>
+              <span className="font-sketch text-2xl text-accent">{formatScore(critique.overall)}</span>
+            </div>
+          )}
+          {CRITIQUE_CRITERIA.map((criterion) => {
+            const score = critique.scores[criterion];
+            return (
+              <div key={criterion} className="font-hand text-base">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{CRITERION_LABELS[criterion]}</span>
+                  <span className="text-foreground">{formatScore(score)}</span>
+                </div>
+                <div className="h-1.5 bg-muted/30 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-accent/70 rounded-full transition-all"
+                    style={{ width: `${score === null ? 0 : score * 10}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          {critique.parsedFrom === 'prose' && (
+            <p className="font-hand text-xs text-muted-foreground pt-1">
+              The critic answered in prose; scores it did not state are shown as n/a.
+            </p>
+          )}
+        </div>
+      )}
+
+      {!issuesOnly && critique.summary && (
+        <p className="font-hand text-lg leading-relaxed text-foreground/80">{critique.summary}</p>
+      )}
+
+      {critique.issues.length > 0 && (
+        <ul className="space-y-2">
+          {critique.issues.map((issue, index) => (
+            <li key={`${index}-${issue.text.slice(0, 24)}`} className="font-hand text-base text-foreground/80 flex gap-2 items-start">
+              <span className="text-accent mt-0.5">•</span>
+              <span className={`flex-1 ${issue.vote === 'down' ? 'line-through opacity-60' : ''}`}>
+                {issue.text}
+                {(issue.severity || issue.criterion || issue.vote || issue.addedByUser) && (
+                  <span className="ml-2 inline-flex gap-1 align-middle">
+                    {issue.vote === 'up' && <ThumbsUp size={12} className="text-accent self-center" />}
+                    {issue.vote === 'down' && <ThumbsDown size={12} className="text-destructive self-center" />}
+                    {issue.addedByUser && (
+                      <span className="px-1.5 rounded text-xs bg-muted/40 text-muted-foreground">added</span>
+                    )}
+                    {issue.severity && (
+                      <span className={`px-1.5 rounded text-xs uppercase ${severityClass[issue.severity]}`}>{issue.severity}</span>
+                    )}
+                    {issue.criterion && (
+                      <span className="px-1.5 rounded text-xs bg-accent/10 text-accent">{CRITERION_LABELS[issue.criterion]}</span>
+                    )}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CritiqueScorecard;
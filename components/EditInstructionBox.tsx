@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Loader2, Wand2 } from 'lucide-react';
+
+interface EditInstructionBoxProps {
+  // Resolves once the edited child version is saved; rejects with a message to show
+  onSubmit: (instruction: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+const EditInstructionBox: React.FC<EditInstructionBoxProps> = ({ onSubmit, disabled }) => {
+  const [instruction, setInstruction] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = async () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || isApplying || disabled) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onSubmit(trimmed);
+      setInstruction('');
+    } catch (e: any) {
+      setError(e?.message || 'The edit failed. Try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) apply();
+  };
+
+  return (
+    <div className="space-y-2 font-hand">
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={2}
+        disabled={isApplying}
+        placeholder='e.g. "make the cat orange, remove the background"'
+        className="w-full px-3 py-2 sketchy-border-thin bg-white/50 text-base resize-none focus:outline-none"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={apply}
+          disabled={!instruction.trim() || isApplying || disabled}
+          title={disabled ? 'Stop the current run first' : 'Save the edited result as a new version'}
+          className="px-3 py-1.5 sketchy-border-thin text-base hover:bg-accent hover:text-white hover:border-accent disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center gap-2"
+        >
+          {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+          {isApplying ? 'Editing...' : 'Apply edit'}
+        </button>
+        {error && <span className="text-sm text-destructive">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default EditInstructionBox;
@@ -1,29 +1,51 @@
-import React from 'react';
-import { SVGVersion } from '../types';
-import { Download, Eye, Trash2, CheckSquare, Square } from 'lucide-react';
-import { sanitizeSvg } from '../services/svgSanitizer';
+import React, { useId, useMemo, useState } from 'react';
+import { SVGSession, SVGVersion } from '../types';
+import { Download, Eye, Trash2, CheckSquare, Square, ChevronDown, ChevronRight, LayoutGrid, Layers, SplitSquareHorizontal } from 'lucide-react';
+import { sanitizeSvgFor } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import { formatScore } from '../services/critique';
+import { groupVersionsBySession } from '../services/sessions';
+
+type GalleryMode = 'wall' | 'sessions';
 
 interface GalleryProps {
   versions: SVGVersion[];
+  sessions: SVGSession[];
   onSelect: (v: SVGVersion) => void;
   selectedIds: Set<string>;
   onToggleSelect: (id: string) => void;
   onDelete: (ids: string[]) => void;
+  onCompare: (ids: [string, string]) => void;
   viewingId: string | null;
 }
 
 const Gallery: React.FC<GalleryProps> = ({ 
     versions, 
+    sessions,
     onSelect, 
     selectedIds, 
     onToggleSelect, 
     onDelete,
+    onCompare,
     viewingId 
 }) => {
+  const [mode, setMode] = useState<GalleryMode>('wall');
+  const scopeKey = useId();
+  const [expandedSessionIds, setExpandedSessionIds] = useState<Set<string>>(new Set());
+  const sessionGroups = useMemo(() => groupVersionsBySession(sessions, versions), [sessions, versions]);
+
+  const toggleSession = (id: string) => {
+    setExpandedSessionIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
   
   const downloadSVG = (e: React.MouseEvent, v: SVGVersion) => {
     e.stopPropagation();
-    const blob = new Blob([v.svgCode], { type: 'image/svg+xml' });
+    const blob = new Blob([sanitizeSvgFor('export', v.svgCode)], { type: 'image/svg+xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -34,6 +56,81 @@ const Gallery: React.FC<GalleryProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const renderCard = (v: SVGVersion, i: number) => {
+    const isSelected = selectedIds.has(v.id);
+    const rotation = (i % 2 === 0 ? 1 : -1) * (0.5 + Math.random() * 1.5);
+    
+    return (
+        <div 
+            key={v.id}
+            onClick={() => onSelect(v)}
+            className="relative group cursor-pointer transition-transform duration-300 hover:z-10 hover:scale-105"
+            style={{ transform: `rotate(${rotation}deg)` }}
+        >
+            {/* Tape */}
+            <div className="tape-effect" />
+
+            <div 
+                className={`bg-card p-3 pb-8 shadow-md hover:shadow-xl transition-all relative border border-border
+                    ${isSelected ? 'ring-2 ring-accent' : ''}
+                `}
+                style={{ borderRadius: '2px' }}
+            >
+                {/* Selection Box */}
+                <div 
+                    onClick={(e) => { e.stopPropagation(); onToggleSelect(v.id); }}
+                    className="absolute top-2 right-2 z-20 text-muted-foreground hover:text-accent transition-colors bg-white/80 rounded p-1"
+                >
+                    {isSelected ? <CheckSquare size={20} className="text-accent" /> : <Square size={20} />}
+                </div>
+
+                {/* Image Area */}
+                <div className="aspect-square bg-white border border-muted/20 overflow-hidden relative group-hover:border-muted/40 transition-colors">
+                    {/* Grid background */}
+                    <div className="absolute inset-0 opacity-10 pointer-events-none" 
+                        style={{ backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', backgroundSize: '10px 10px' }} 
+                    />
+                    
+                    {v.thumbnail ? (
+                        <img src={v.thumbnail} className="w-full h-full object-contain p-4" alt={`v${v.iteration}`} />
+                    ) : (
+                        <div 
+                          dangerouslySetInnerHTML={{ __html: scopeSvg(sanitizeSvgFor('render', v.svgCode), toScopePrefix(scopeKey, 'card', v.id)) }} 
+                          className="w-full h-full flex items-center justify-center p-4 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full" 
+                        />
+                    )}
+
+                    {/* Overlay Actions */}
+                    <div className="absolute inset-0 bg-primary/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 backdrop-blur-[1px]">
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); onSelect(v); }}
+                            className="p-2 bg-white rounded-full text-foreground shadow-sm hover:scale-110 transition-transform"
+                            title="View"
+                        >
+                            <Eye size={18} />
+                        </button>
+                        <button 
+                            onClick={(e) => downloadSVG(e, v)}
+                            className="p-2 bg-white rounded-full text-foreground shadow-sm hover:scale-110 transition-transform"
+                            title="Download"
+                        >
+                            <Download size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Caption */}
+                <div className="mt-3 px-1">
+                    <div className="flex justify-between items-end">
+                        <span className="font-sketch text-xl text-foreground truncate">Iteration #{v.iteration}</span>
+                        <span className="font-hand text-xs text-muted-foreground">{new Date(v.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+  };
+
   const handleDeleteSelected = () => {
     if (window.confirm(`Scrap ${selectedIds.size} sketches?`)) {
         onDelete(Array.from(selectedIds));
@@ -47,15 +144,44 @@ const Gallery: React.FC<GalleryProps> = ({
         <div className="flex flex-col md:flex-row gap-6 mb-8 items-center justify-between">
             <h3 className="font-sketch text-3xl text-foreground">03. Gallery Wall</h3>
             
-            {selectedIds.size > 0 && (
-                <button 
-                    onClick={handleDeleteSelected}
-                    className="sketchy-border-thin px-4 py-2 text-destructive hover:bg-destructive/10 font-hand text-lg transition-all flex items-center gap-2"
-                >
-                    <Trash2 size={18} />
-                    Scrap Selected ({selectedIds.size})
-                </button>
-            )}
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="flex sketchy-border-thin overflow-hidden font-hand text-lg">
+                    <button
+                        onClick={() => setMode('wall')}
+                        className={`px-3 py-1 flex items-center gap-2 transition-colors ${mode === 'wall' ? 'bg-accent text-white' : 'hover:bg-muted/30'}`}
+                    >
+                        <LayoutGrid size={16} />
+                        Wall
+                    </button>
+                    <button
+                        onClick={() => setMode('sessions')}
+                        className={`px-3 py-1 flex items-center gap-2 transition-colors ${mode === 'sessions' ? 'bg-accent text-white' : 'hover:bg-muted/30'}`}
+                    >
+                        <Layers size={16} />
+                        Sessions
+                    </button>
+                </div>
+
+                {selectedIds.size === 2 && (
+                    <button 
+                        onClick={() => onCompare(Array.from(selectedIds) as [string, string])}
+                        className="sketchy-border-thin px-4 py-2 text-foreground hover:bg-accent hover:text-white hover:border-accent font-hand text-lg transition-all flex items-center gap-2"
+                    >
+                        <SplitSquareHorizontal size={18} />
+                        Compare
+                    </button>
+                )}
+
+                {selectedIds.size > 0 && (
+                    <button 
+                        onClick={handleDeleteSelected}
+                        className="sketchy-border-thin px-4 py-2 text-destructive hover:bg-destructive/10 font-hand text-lg transition-all flex items-center gap-2"
+                    >
+                        <Trash2 size={18} />
+                        Scrap Selected ({selectedIds.size})
+                    </button>
+                )}
+            </div>
         </div>
 
         {versions.length === 0 ? (
@@ -63,83 +189,54 @@ const Gallery: React.FC<GalleryProps> = ({
                 <div className="font-sketch text-3xl text-muted-foreground opacity-50">Empty Canvas</div>
                 <div className="font-hand text-muted-foreground mt-2">Start sketching to fill this wall!</div>
             </div>
-        ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-                {versions.map((v, i) => {
-                    const isSelected = selectedIds.has(v.id);
-                    const rotation = (i % 2 === 0 ? 1 : -1) * (0.5 + Math.random() * 1.5);
-                    
+        ) : mode === 'sessions' ? (
+            <div className="space-y-6">
+                {sessionGroups.map(({ session, versions: sessionVersions }) => {
+                    const isExpanded = expandedSessionIds.has(session.id);
+                    const best = sessionVersions.find(v => v.id === session.bestVersionId) || sessionVersions[sessionVersions.length - 1];
+                    const bestScore = best.critiqueDetails?.overall ?? null;
+
                     return (
-                        <div 
-                            key={v.id}
-                            onClick={() => onSelect(v)}
-                            className="relative group cursor-pointer transition-transform duration-300 hover:z-10 hover:scale-105"
-                            style={{ transform: `rotate(${rotation}deg)` }}
-                        >
-                            {/* Tape */}
-                            <div className="tape-effect" />
-
-                            <div 
-                                className={`bg-card p-3 pb-8 shadow-md hover:shadow-xl transition-all relative border border-border
-                                    ${isSelected ? 'ring-2 ring-accent' : ''}
-                                `}
-                                style={{ borderRadius: '2px' }}
+                        <div key={session.id} className="sketchy-border-thin bg-card">
+                            <button
+                                onClick={() => toggleSession(session.id)}
+                                className="w-full flex items-center gap-4 p-4 text-left hover:bg-muted/20 transition-colors"
                             >
-                                {/* Selection Box */}
-                                <div 
-                                    onClick={(e) => { e.stopPropagation(); onToggleSelect(v.id); }}
-                                    className="absolute top-2 right-2 z-20 text-muted-foreground hover:text-accent transition-colors bg-white/80 rounded p-1"
-                                >
-                                    {isSelected ? <CheckSquare size={20} className="text-accent" /> : <Square size={20} />}
-                                </div>
-
-                                {/* Image Area */}
-                                <div className="aspect-square bg-white border border-muted/20 overflow-hidden relative group-hover:border-muted/40 transition-colors">
-                                    {/* Grid background */}
-                                    <div className="absolute inset-0 opacity-10 pointer-events-none" 
-                                        style={{ backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', backgroundSize: '10px 10px' }} 
-                                    />
-                                    
-                                    {v.thumbnail ? (
-                                        <img src={v.thumbnail} className="w-full h-full object-contain p-4" alt={`v${v.iteration}`} />
+                                <div className="w-20 h-20 shrink-0 bg-white border border-muted/30 overflow-hidden flex items-center justify-center">
+                                    {best.thumbnail ? (
+                                        <img src={best.thumbnail} className="w-full h-full object-contain p-1" alt={`Best of ${session.prompt}`} />
                                     ) : (
-                                        <div 
-                                          dangerouslySetInnerHTML={{ __html: sanitizeSvg(v.svgCode) }} 
-                                          className="w-full h-full flex items-center justify-center p-4 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full" 
+                                        <div
+                                          dangerouslySetInnerHTML={{ __html: scopeSvg(sanitizeSvgFor('render', best.svgCode), toScopePrefix(scopeKey, 'best', best.id)) }}
+                                          className="w-full h-full flex items-center justify-center p-1 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full"
                                         />
                                     )}
-
-                                    {/* Overlay Actions */}
-                                    <div className="absolute inset-0 bg-primary/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 backdrop-blur-[1px]">
-                                        <button 
-                                            onClick={(e) => { e.stopPropagation(); onSelect(v); }}
-                                            className="p-2 bg-white rounded-full text-foreground shadow-sm hover:scale-110 transition-transform"
-                                            title="View"
-                                        >
-                                            <Eye size={18} />
-                                        </button>
-                                        <button 
-                                            onClick={(e) => downloadSVG(e, v)}
-                                            className="p-2 bg-white rounded-full text-foreground shadow-sm hover:scale-110 transition-transform"
-                                            title="Download"
-                                        >
-                                            <Download size={18} />
-                                        </button>
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-sketch text-2xl text-foreground truncate">{session.prompt}</div>
+                                    <div className="font-hand text-sm text-muted-foreground">
+                                        {sessionVersions.length} {sessionVersions.length === 1 ? 'iteration' : 'iterations'}
+                                        {' · '}
+                                        {new Date(session.createdAt).toLocaleDateString()}
+                                        {bestScore !== null && <> · best {formatScore(bestScore)}</>}
                                     </div>
                                 </div>
+                                {isExpanded ? <ChevronDown size={22} className="text-muted-foreground" /> : <ChevronRight size={22} className="text-muted-foreground" />}
+                            </button>
 
-                                {/* Caption */}
-                                <div className="mt-3 px-1">
-                                    <div className="flex justify-between items-end">
-                                        <span className="font-sketch text-xl text-foreground truncate">Iteration #{v.iteration}</span>
-                                        <span className="font-hand text-xs text-muted-foreground">{new Date(v.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
-                                    </div>
+                            {isExpanded && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 p-6 pt-2 border-t border-dashed border-border">
+                                    {sessionVersions.map(renderCard)}
                                 </div>
-                            </div>
+                            )}
                         </div>
                     );
                 })}
             </div>
+        ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                {versions.map(renderCard)}
+            </div>
         )}
     </div>
   );
@@ -0,0 +1,46 @@
+import React from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { LintReport, LintSeverity } from '../services/svgLint';
+
+interface LintReportPanelProps {
+  report: LintReport;
+}
+
+const severityClass: Record<LintSeverity, string> = {
+  error: 'bg-destructive/10 text-destructive',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-muted/40 text-muted-foreground',
+};
+
+// Tags listed in the node-count breakdown
+const TOP_TAGS = 5;
+
+const LintReportPanel: React.FC<LintReportPanelProps> = ({ report }) => {
+  return (
+    <div className="bg-white/50 p-4 rounded-lg border border-border space-y-3">
+      <p className="font-hand text-sm text-muted-foreground">
+        {report.elementCount} elements, {report.maxDepth} levels deep
+        {report.elementsByTag.length > 0 && (
+          <> · {report.elementsByTag.slice(0, TOP_TAGS).map(([tag, count]) => `${count} ${tag}`).join(', ')}</>
+        )}
+      </p>
+
+      {report.issues.length === 0 ? (
+        <p className="font-hand text-base text-foreground/80 flex items-center gap-2">
+          <CheckCircle2 size={16} className="text-accent" /> No problems found.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {report.issues.map((issue, index) => (
+            <li key={`${index}-${issue.rule}`} className="font-hand text-base text-foreground/80 flex gap-2 items-start">
+              <span className={`px-1.5 rounded text-xs uppercase mt-1 shrink-0 ${severityClass[issue.severity]}`}>{issue.severity}</span>
+              <span className="flex-1">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LintReportPanel;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Plus, X, Code } from 'lucide-react';
+import { Plus, X, Code, AlertTriangle, Wrench } from 'lucide-react';
+import { extractSvg, summarizeRepairs, SvgExtractionError } from '../services/svgExtractor';
 
 interface ManualEntryProps {
   onAdd: (code: string) => void;
@@ -8,49 +9,22 @@ interface ManualEntryProps {
 
 const ManualEntry: React.FC<ManualEntryProps> = ({ onAdd, onClear }) => {
   const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [repairNote, setRepairNote] = useState<string | null>(null);
 
   const cleanAndAdd = () => {
     if (!input.trim()) return;
 
-    let clean = input;
-    const markdownRegex = /```(?:xml|svg|html|jsx|tsx|javascript|typescript)?\s*([\s\S]*?)\s*```/i;
-    const match = clean.match(markdownRegex);
-    if (match && match[1]) clean = match[1].trim();
-    clean = clean.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"');
-
-    const svgStartRegex = /<svg[\s\S]*?>/i;
-    const startMatch = clean.match(svgStartRegex);
-    if (startMatch) {
-      const startIndex = startMatch.index!;
-      const startTag = startMatch[0];
-      if (startTag.trim().endsWith('/>')) {
-         clean = startTag;
-      } else {
-         const remainder = clean.substring(startIndex);
-         const svgEndRegex = /<\/\s*svg>/i;
-         const endMatch = remainder.match(svgEndRegex);
-         if (endMatch) {
-            clean = remainder.substring(0, endMatch.index! + endMatch[0].length);
-         } else {
-            clean = remainder;
-         }
-      }
+    try {
+      const { svgCode, repairs } = extractSvg(input);
+      onAdd(svgCode);
+      setInput('');
+      setError(null);
+      setRepairNote(summarizeRepairs(repairs));
+    } catch (err) {
+      setRepairNote(null);
+      setError(err instanceof SvgExtractionError ? err.message : 'Could not read that SVG.');
     }
-
-    clean = clean.replace(/export\s+default\s+function\s*[\w]*\s*\([\s\S]*?\)\s*\{/gi, '')
-                 .replace(/export\s+default\s+\([\s\S]*?\)\s*=>\s*\(?/gi, '')
-                 .replace(/const\s+[\w]+\s*=\s*\([\s\S]*?\)\s*=>\s*\(?/gi, '')
-                 .replace(/^[\s\S]*?=>\s*\(\s*/, '')
-                 .replace(/^[\s\S]*?return\s*\(\s*/, '')
-                 .replace(/\{\s*\.\.\.\s*props\s*\}/gi, '')
-                 .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
-                 .replace(/\sclassName=/g, ' class=')
-                 .replace(/\shtmlFor=/g, ' for=');
-
-    // ... (rest of cleaning logic could go here if needed, keeping it simple for display)
-
-    onAdd(clean.trim());
-    setInput('');
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -86,12 +60,23 @@ const ManualEntry: React.FC<ManualEntryProps> = ({ onAdd, onClear }) => {
             <Plus size={16} /> Add to Collection
           </button>
           <button
-            onClick={() => { setInput(''); onClear(); }}
+            onClick={() => { setInput(''); setError(null); setRepairNote(null); onClear(); }}
             className="px-6 py-2 text-muted-foreground font-hand hover:text-foreground transition-colors flex items-center gap-2"
           >
             <X size={16} /> Clear
           </button>
         </div>
+
+        {error && (
+          <p className="mt-3 text-destructive font-hand flex items-start gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-1" /> {error}
+          </p>
+        )}
+        {repairNote && !error && (
+          <p className="mt-3 text-muted-foreground font-hand flex items-start gap-2">
+            <Wrench size={16} className="shrink-0 mt-1" /> {repairNote}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,23 +1,112 @@
-import React from 'react';
+import React, { useEffect, useId, useMemo, useState } from 'react';
 import { SVGVersion } from '../types';
-import { X, Copy, Download, MessageSquare } from 'lucide-react';
-import { sanitizeSvg } from '../services/svgSanitizer';
+import { X, Copy, Download, MessageSquare, GitBranch, Pencil, Save, Undo2, Trophy, Film, Image as ImageIcon, Minimize2, ShieldCheck, ShieldAlert, Palette, Wand2, Target, UserCheck } from 'lucide-react';
+import { getSanitizerPolicies, sanitizeSvgFor, sanitizeSvgWithReport, SANITIZER_POLICIES, summarizeSanitizeReport } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import { checkWellFormed } from '../services/svgSyntax';
+import { byteLength } from '../services/svgOptimizer';
+import { lintSvg } from '../services/svgLint';
 import { isWeb } from '../services/platform';
+import CritiqueScorecard from './CritiqueScorecard';
+import BranchTree from './BranchTree';
+import SvgCodeEditor from './SvgCodeEditor';
+import LintReportPanel from './LintReportPanel';
+import PalettePanel from './PalettePanel';
+import EditInstructionBox from './EditInstructionBox';
+import RegionRefinePanel from './RegionRefinePanel';
+import AnimationExportPanel from './AnimationExportPanel';
+import RasterExportDialog from './RasterExportDialog';
+import { hasAnimationMarkup } from '../services/animationExport';
 
 interface ModalProps {
   version: SVGVersion | null;
+  sessionVersions: SVGVersion[];
   onClose: () => void;
+  onSelectVersion: (v: SVGVersion) => void;
+  onContinueFrom: (v: SVGVersion) => void;
+  onSaveEdit: (parent: SVGVersion, svgCode: string, note?: string) => void;
+  // Runs the model edit action on the version and saves the result as its child
+  onEditWithInstruction: (parent: SVGVersion, instruction: string) => Promise<void>;
+  // Rewrites only the selected source elements (indexes from svgRegions) and saves the merge as a child
+  onRefineRegions: (parent: SVGVersion, regions: number[], note: string) => Promise<void>;
+  canContinue: boolean;
 }
 
-const Modal: React.FC<ModalProps> = ({ version, onClose }) => {
+const formatBytes = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+const Modal: React.FC<ModalProps> = ({
+  version,
+  sessionVersions,
+  onClose,
+  onSelectVersion,
+  onContinueFrom,
+  onSaveEdit,
+  onEditWithInstruction,
+  onRefineRegions,
+  canContinue,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [previewCode, setPreviewCode] = useState('');
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  // Unsaved recolor from the palette tool, shown in place of the version
+  const [recolorPreview, setRecolorPreview] = useState<string | null>(null);
+  const scopePrefix = toScopePrefix(useId());
+
+  useEffect(() => {
+    setIsEditing(false);
+    setIsExportingImage(false);
+    setShowOriginal(false);
+    setRecolorPreview(null);
+    setDraft(version?.svgCode || '');
+    setPreviewCode(version?.svgCode || '');
+  }, [version?.id]);
+
+  const syntaxError = useMemo(() => (isEditing ? checkWellFormed(draft) : null), [isEditing, draft]);
+  const lintReport = useMemo(() => (version ? lintSvg(version.svgCode) : null), [version?.svgCode]);
+
+  const previewSource = isEditing
+    ? previewCode
+    : recolorPreview ?? (showOriginal && version?.originalSvgCode ? version.originalSvgCode : version?.svgCode || '');
+  const renderPolicy = getSanitizerPolicies().render;
+  const preview = useMemo(() => sanitizeSvgWithReport(previewSource, renderPolicy), [previewSource, renderPolicy]);
+
+  // Keep showing the last well-formed draft while the user is mid-edit
+  useEffect(() => {
+    if (isEditing && !syntaxError) setPreviewCode(draft);
+  }, [isEditing, draft, syntaxError]);
+
   if (!version) return null;
 
+  const isDirty = isEditing && draft !== version.svgCode;
+  const removedOnRender = summarizeSanitizeReport(preview.report);
+  const displayedCode = showOriginal && version.originalSvgCode ? version.originalSvgCode : version.svgCode;
+  const sizeSummary = version.originalSvgCode
+    ? (() => {
+        const before = byteLength(version.originalSvgCode);
+        const after = byteLength(version.svgCode);
+        return `${formatBytes(before)} → ${formatBytes(after)} (−${Math.round((1 - after / before) * 100)}%)`;
+      })()
+    : null;
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+    setDraft(version.svgCode);
+    setPreviewCode(version.svgCode);
+  };
+
+  const saveEdit = () => {
+    if (syntaxError || !isDirty) return;
+    onSaveEdit(version, draft);
+  };
+
   const copyCode = () => {
-    navigator.clipboard.writeText(version.svgCode);
+    navigator.clipboard.writeText(displayedCode);
   };
   
   const downloadSVG = () => {
-    const blob = new Blob([version.svgCode], { type: 'image/svg+xml' });
+    const blob = new Blob([sanitizeSvgFor('export', displayedCode)], { type: 'image/svg+xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -50,7 +139,7 @@ const Modal: React.FC<ModalProps> = ({ version, onClose }) => {
                  
                  <div 
                     className="w-full h-full relative z-10 flex items-center justify-center p-4 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:drop-shadow-lg" 
-                    dangerouslySetInnerHTML={{ __html: sanitizeSvg(version.svgCode) }} 
+                    dangerouslySetInnerHTML={{ __html: scopeSvg(preview.svg, scopePrefix) }} 
                  />
             </div>
 
@@ -59,10 +148,32 @@ const Modal: React.FC<ModalProps> = ({ version, onClose }) => {
                 <div className="p-6 border-b border-border border-dashed">
                     <h2 className="font-sketch text-4xl text-foreground">Iteration #{version.iteration}</h2>
                     <p className="font-hand text-muted-foreground mt-1">{new Date(version.timestamp).toLocaleString()}</p>
+                    {version.candidate && (
+                        <p className="font-hand text-sm text-muted-foreground mt-1 flex items-center gap-1">
+                            {version.candidate.rank === 1 && <Trophy size={14} className="text-accent" />}
+                            Draft {version.candidate.index + 1} of {version.candidate.count}
+                            {version.candidate.rank !== null && ` · ranked #${version.candidate.rank}`}
+                        </p>
+                    )}
+                    <button
+                        onClick={() => onContinueFrom(version)}
+                        disabled={!canContinue}
+                        title={canContinue ? 'Start a new branch of the loop from this version' : 'Stop the current run first'}
+                        className="mt-3 px-3 py-1.5 sketchy-border-thin font-hand text-base hover:bg-accent hover:text-white hover:border-accent disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center gap-2"
+                    >
+                        <GitBranch size={16} /> Continue refining from here
+                    </button>
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
-                    {version.critique && (
+                    {version.critiqueDetails ? (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-accent mb-2 flex items-center gap-2">
+                                <MessageSquare size={20} /> Scorecard
+                            </h3>
+                            <CritiqueScorecard critique={version.critiqueDetails} />
+                        </div>
+                    ) : version.critique && (
                         <div>
                             <h3 className="font-sketch text-2xl text-accent mb-2 flex items-center gap-2">
                                 <MessageSquare size={20} /> Critique
@@ -74,32 +185,173 @@ const Modal: React.FC<ModalProps> = ({ version, onClose }) => {
                         </div>
                     )}
 
+                    {version.reviewedCritique && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <UserCheck size={20} /> Your review
+                            </h3>
+                            <CritiqueScorecard critique={version.reviewedCritique} issuesOnly />
+                        </div>
+                    )}
+
+                    {lintReport && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <ShieldCheck size={20} /> Lint
+                            </h3>
+                            <LintReportPanel report={lintReport} />
+                            {removedOnRender.length > 0 && (
+                                <p className="mt-2 font-hand text-sm text-muted-foreground flex items-start gap-2">
+                                    <ShieldAlert size={16} className="shrink-0 mt-0.5" />
+                                    <span>
+                                        Removed by the {SANITIZER_POLICIES.find(p => p.id === renderPolicy)?.label} sanitizer for display: {removedOnRender.join(', ')}
+                                    </span>
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {!isEditing && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <Wand2 size={20} /> Edit
+                            </h3>
+                            <EditInstructionBox
+                                onSubmit={(instruction) => onEditWithInstruction(version, instruction)}
+                                disabled={!canContinue}
+                            />
+                        </div>
+                    )}
+
+                    {!isEditing && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <Target size={20} /> Refine a region
+                            </h3>
+                            <RegionRefinePanel
+                                svgCode={version.svgCode}
+                                onSubmit={(regions, note) => onRefineRegions(version, regions, note)}
+                                disabled={!canContinue}
+                            />
+                        </div>
+                    )}
+
+                    {!isEditing && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <Palette size={20} /> Palette
+                            </h3>
+                            <PalettePanel
+                                svgCode={version.svgCode}
+                                onPreview={setRecolorPreview}
+                                onSave={(svgCode, note) => onSaveEdit(version, svgCode, note)}
+                            />
+                        </div>
+                    )}
+
+                    {sessionVersions.length > 1 && (
+                        <div>
+                            <h3 className="font-sketch text-2xl text-foreground mb-2 flex items-center gap-2">
+                                <GitBranch size={20} /> Branches
+                            </h3>
+                            <div className="bg-white/50 p-3 rounded-lg border border-border max-h-[220px] overflow-y-auto custom-scrollbar">
+                                <BranchTree versions={sessionVersions} activeId={version.id} onSelect={onSelectVersion} />
+                            </div>
+                        </div>
+                    )}
+
                     <div>
-                        <h3 className="font-sketch text-2xl text-foreground mb-2">Code Snippet</h3>
-                        <div className="bg-background border border-border rounded p-3 relative group">
-                            <button onClick={copyCode} className="absolute top-2 right-2 p-1 bg-muted/50 rounded hover:bg-muted text-foreground transition-colors" title="Copy">
-                                <Copy size={14} />
-                            </button>
-                            <pre className="text-xs font-mono text-muted-foreground overflow-x-auto p-1 h-[150px] custom-scrollbar">
-                                {version.svgCode}
-                            </pre>
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="font-sketch text-2xl text-foreground">Code Snippet</h3>
+                            {isEditing ? (
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={cancelEditing}
+                                        className="px-2 py-1 sketchy-border-thin font-hand text-sm hover:bg-muted/30 transition-colors flex items-center gap-1"
+                                    >
+                                        <Undo2 size={14} /> Discard
+                                    </button>
+                                    <button
+                                        onClick={saveEdit}
+                                        disabled={!!syntaxError || !isDirty}
+                                        title={syntaxError ? 'Fix the XML errors first' : 'Save the edited code as a child of this version'}
+                                        className="px-2 py-1 sketchy-border-thin font-hand text-sm hover:bg-accent hover:text-white hover:border-accent disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center gap-1"
+                                    >
+                                        <Save size={14} /> Save as new version
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => setIsEditing(true)}
+                                    className="px-2 py-1 sketchy-border-thin font-hand text-sm hover:bg-muted/30 transition-colors flex items-center gap-1"
+                                >
+                                    <Pencil size={14} /> Edit
+                                </button>
+                            )}
                         </div>
+                        {sizeSummary && !isEditing && (
+                            <div className="mb-2 flex items-center justify-between gap-2 font-hand text-sm text-muted-foreground">
+                                <span className="flex items-center gap-1">
+                                    <Minimize2 size={14} /> Optimized {sizeSummary}
+                                </span>
+                                <button
+                                    onClick={() => setShowOriginal(!showOriginal)}
+                                    className="underline hover:text-accent transition-colors"
+                                >
+                                    {showOriginal ? 'Show optimized' : 'Show original'}
+                                </button>
+                            </div>
+                        )}
+                        {isEditing ? (
+                            <SvgCodeEditor value={draft} onChange={setDraft} error={syntaxError} />
+                        ) : (
+                            <div className="bg-background border border-border rounded p-3 relative group">
+                                <button onClick={copyCode} className="absolute top-2 right-2 p-1 bg-muted/50 rounded hover:bg-muted text-foreground transition-colors" title="Copy">
+                                    <Copy size={14} />
+                                </button>
+                                <pre className="text-xs font-mono text-muted-foreground overflow-x-auto p-1 h-[150px] custom-scrollbar">
+                                    {displayedCode}
+                                </pre>
+                            </div>
+                        )}
                     </div>
                 </div>
 
                 {isWeb() && (
-                    <div className="p-6 border-t border-border bg-background/50">
-                        <button
-                            onClick={downloadSVG}
-                            className="w-full py-3 sketchy-border-thin font-sketch text-xl hover:bg-accent hover:text-white hover:border-accent transition-all flex items-center justify-center gap-2"
-                        >
-                            <Download size={20} /> Save to Disk
-                        </button>
+                    <div className="p-6 border-t border-border bg-background/50 space-y-4">
+                        {hasAnimationMarkup(version.svgCode) && (
+                            <details>
+                                <summary className="font-sketch text-xl cursor-pointer flex items-center gap-2 list-none">
+                                    <Film size={20} /> Export animation
+                                </summary>
+                                <div className="mt-3">
+                                    <AnimationExportPanel svgCode={version.svgCode} fileBaseName={`iteration-${version.iteration}`} />
+                                </div>
+                            </details>
+                        )}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={downloadSVG}
+                                className="flex-1 py-3 sketchy-border-thin font-sketch text-xl hover:bg-accent hover:text-white hover:border-accent transition-all flex items-center justify-center gap-2"
+                            >
+                                <Download size={20} /> Save to Disk
+                            </button>
+                            <button
+                                onClick={() => setIsExportingImage(true)}
+                                title="Export PNG/WebP at any size, or icon packs"
+                                className="px-4 py-3 sketchy-border-thin font-sketch text-xl hover:bg-accent hover:text-white hover:border-accent transition-all flex items-center justify-center gap-2"
+                            >
+                                <ImageIcon size={20} /> Image
+                            </button>
+                        </div>
                     </div>
                 )}
             </div>
         </div>
       </div>
+      {isExportingImage && (
+        <RasterExportDialog version={version} onClose={() => setIsExportingImage(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import type { OutputConstraints } from '../services/prompts';
+import { ASPECT_PRESETS, hasConstraints } from '../services/outputConstraints';
+
+interface OutputConstraintsPanelProps {
+  constraints: OutputConstraints;
+  onChange: (constraints: OutputConstraints) => void;
+}
+
+const MOTION_OPTIONS: { id: OutputConstraints['motion']; label: string }[] = [
+  { id: undefined, label: 'Any' },
+  { id: 'static', label: 'Static' },
+  { id: 'animated', label: 'Animated' },
+];
+
+const optionButtonClass = (active: boolean) =>
+  `px-2 h-8 sketchy-border-thin transition-colors ${active ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'}`;
+
+const readLimit = (value: string): number | undefined => {
+  const parsed = Math.floor(Number(value));
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const OutputConstraintsPanel: React.FC<OutputConstraintsPanelProps> = ({ constraints, onChange }) => {
+  const update = (patch: Partial<OutputConstraints>) => onChange({ ...constraints, ...patch });
+  const { canvas } = constraints;
+
+  const setCanvasEdge = (edge: 'width' | 'height', value: string) => {
+    const size = readLimit(value);
+    if (!canvas || !size) return;
+    update({ canvas: { ...canvas, [edge]: size } });
+  };
+
+  return (
+    <details className="sketchy-border-thin bg-card p-3 font-hand text-sm text-foreground">
+      <summary className="cursor-pointer flex items-center gap-2 list-none">
+        <Ruler size={16} className="text-accent" /> Output constraints
+        {hasConstraints(constraints) && <span className="text-muted-foreground">(active)</span>}
+      </summary>
+
+      <div className="mt-3 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span>Canvas</span>
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => update({ canvas: undefined })} className={optionButtonClass(!canvas)}>Any</button>
+            {ASPECT_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => update({ canvas: { width: preset.width, height: preset.height } })}
+                className={optionButtonClass(canvas?.width === preset.width && canvas?.height === preset.height)}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {canvas && (
+          <div className="flex items-center justify-end gap-1">
+            viewBox 0 0
+            <input
+              type="number"
+              min={1}
+              value={canvas.width}
+              onChange={(e) => setCanvasEdge('width', e.target.value)}
+              className="w-20 px-1 h-8 sketchy-border-thin bg-transparent"
+            />
+            <input
+              type="number"
+              min={1}
+              value={canvas.height}
+              onChange={(e) => setCanvasEdge('height', e.target.value)}
+              className="w-20 px-1 h-8 sketchy-border-thin bg-transparent"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span>Motion</span>
+          <div className="flex gap-1">
+            {MOTION_OPTIONS.map((option) => (
+              <button key={option.label} onClick={() => update({ motion: option.id })} className={optionButtonClass(constraints.motion === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-1">
+            Max elements
+            <input
+              type="number"
+              min={1}
+              value={constraints.maxElements ?? ''}
+              onChange={(e) => update({ maxElements: readLimit(e.target.value) })}
+              placeholder="none"
+              className="w-20 px-1 h-8 sketchy-border-thin bg-transparent"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Max size (KB)
+            <input
+              type="number"
+              min={1}
+              value={constraints.maxBytes !== undefined ? Math.round(constraints.maxBytes / 1024) : ''}
+              onChange={(e) => {
+                const kb = readLimit(e.target.value);
+                update({ maxBytes: kb !== undefined ? kb * 1024 : undefined });
+              }}
+              placeholder="none"
+              className="w-20 px-1 h-8 sketchy-border-thin bg-transparent"
+            />
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!constraints.monochrome}
+            onChange={(e) => update({ monochrome: e.target.checked || undefined })}
+            className="accent-accent"
+          />
+          Monochrome (one hue plus neutrals)
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default OutputConstraintsPanel;
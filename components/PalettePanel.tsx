@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Moon, Save, Sun, Trash2, Undo2 } from 'lucide-react';
+import {
+  BrandPalette,
+  extractPalette,
+  getBrandPalettes,
+  mapToBrandPalette,
+  PaletteVariant,
+  recolorSvg,
+  setBrandPalettes,
+  variantPalette,
+} from '../services/svgPalette';
+
+interface PalettePanelProps {
+  svgCode: string;
+  // Recolored markup while there are unsaved changes, null otherwise
+  onPreview: (svgCode: string | null) => void;
+  onSave: (svgCode: string, note: string) => void;
+}
+
+const PalettePanel: React.FC<PalettePanelProps> = ({ svgCode, onPreview, onSave }) => {
+  const palette = useMemo(() => extractPalette(svgCode), [svgCode]);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  // How the current targets were produced, for the saved version's note
+  const [source, setSource] = useState<string | null>(null);
+  const [brandPalettes, setBrandPalettesState] = useState<BrandPalette[]>(getBrandPalettes);
+  const [selectedBrandId, setSelectedBrandId] = useState('');
+  const [brandName, setBrandName] = useState('');
+
+  const changed = palette.filter((entry) => targets[entry.hex] && targets[entry.hex] !== entry.hex);
+  const recolored = useMemo(() => recolorSvg(svgCode, palette, targets), [svgCode, palette, targets]);
+
+  useEffect(() => {
+    setTargets({});
+    setSource(null);
+    setSelectedBrandId('');
+  }, [svgCode]);
+
+  useEffect(() => {
+    onPreview(changed.length > 0 ? recolored : null);
+  }, [recolored, changed.length]);
+
+  // Clear the preview when the panel goes away
+  useEffect(() => () => onPreview(null), []);
+
+  const setTarget = (hex: string, value: string) => {
+    setTargets((prev) => ({ ...prev, [hex]: value }));
+    setSource(null);
+    setSelectedBrandId('');
+  };
+
+  const applyBrand = (id: string) => {
+    setSelectedBrandId(id);
+    const brand = brandPalettes.find((p) => p.id === id);
+    if (!brand) return;
+    setTargets(mapToBrandPalette(palette, brand.colors));
+    setSource(`Recolored to the "${brand.name}" brand palette.`);
+  };
+
+  const applyVariant = (variant: PaletteVariant) => {
+    setTargets(variantPalette(palette, variant));
+    setSource(`Recolored as a ${variant} variant.`);
+    setSelectedBrandId('');
+  };
+
+  const reset = () => {
+    setTargets({});
+    setSource(null);
+    setSelectedBrandId('');
+  };
+
+  const updateBrandPalettes = (next: BrandPalette[]) => {
+    setBrandPalettesState(next);
+    setBrandPalettes(next);
+  };
+
+  const saveBrandPalette = () => {
+    const name = brandName.trim();
+    if (!name) return;
+    const colors = Array.from(new Set(palette.map((entry) => targets[entry.hex] || entry.hex)));
+    updateBrandPalettes([...brandPalettes, { id: uuidv4(), name, colors }]);
+    setBrandName('');
+  };
+
+  const deleteBrandPalette = () => {
+    updateBrandPalettes(brandPalettes.filter((p) => p.id !== selectedBrandId));
+    setSelectedBrandId('');
+  };
+
+  const save = () => {
+    if (changed.length === 0) return;
+    const note = source || `Recolored: ${changed.map((entry) => `${entry.hex} → ${targets[entry.hex]}`).join(', ')}.`;
+    onSave(recolored, note);
+  };
+
+  if (palette.length === 0) {
+    return <p className="font-hand text-sm text-muted-foreground">No colors found in this version.</p>;
+  }
+
+  return (
+    <div className="bg-white/50 p-4 rounded-lg border border-border space-y-3 font-hand text-sm text-foreground">
+      <div className="flex flex-wrap gap-2">
+        {palette.map((entry) => {
+          const target = targets[entry.hex] || entry.hex;
+          return (
+            <label
+              key={entry.hex}
+              title={`${entry.hex} · used ${entry.count}× · ${entry.members.length} shade${entry.members.length === 1 ? '' : 's'}`}
+              className="relative w-9 h-9 sketchy-border-thin cursor-pointer overflow-hidden"
+              style={{ backgroundColor: target }}
+            >
+              <input
+                type="color"
+                value={target}
+                onChange={(e) => setTarget(entry.hex, e.target.value)}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              />
+              {target !== entry.hex && (
+                <span className="absolute bottom-0 right-0 w-3 h-3 border border-white" style={{ backgroundColor: entry.hex }} />
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedBrandId}
+          onChange={(e) => applyBrand(e.target.value)}
+          disabled={brandPalettes.length === 0}
+          className="flex-1 min-w-0 px-2 h-8 sketchy-border-thin bg-transparent disabled:opacity-50"
+        >
+          <option value="">{brandPalettes.length === 0 ? 'No brand palettes saved' : 'Map to brand palette...'}</option>
+          {brandPalettes.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {selectedBrandId && (
+          <button onClick={deleteBrandPalette} title="Delete this brand palette" className="p-1.5 sketchy-border-thin hover:bg-muted/30 transition-colors">
+            <Trash2 size={14} />
+          </button>
+        )}
+        <button onClick={() => applyVariant('light')} title="Light variant" className="px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors flex items-center gap-1">
+          <Sun size={14} /> Light
+        </button>
+        <button onClick={() => applyVariant('dark')} title="Dark variant" className="px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors flex items-center gap-1">
+          <Moon size={14} /> Dark
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={brandName}
+          onChange={(e) => setBrandName(e.target.value)}
+          placeholder="Brand palette name"
+          className="flex-1 min-w-0 px-2 h-8 sketchy-border-thin bg-transparent"
+        />
+        <button
+          onClick={saveBrandPalette}
+          disabled={!brandName.trim()}
+          title="Save the current colors as a brand palette"
+          className="px-2 h-8 sketchy-border-thin hover:bg-muted/30 disabled:opacity-50 transition-colors"
+        >
+          Save palette
+        </button>
+      </div>
+
+      {changed.length > 0 && (
+        <div className="flex gap-2">
+          <button onClick={reset} className="px-2 py-1 sketchy-border-thin hover:bg-muted/30 transition-colors flex items-center gap-1">
+            <Undo2 size={14} /> Reset
+          </button>
+          <button
+            onClick={save}
+            title="Save the recolored SVG as a child of this version"
+            className="flex-1 px-2 py-1 sketchy-border-thin hover:bg-accent hover:text-white hover:border-accent transition-all flex items-center justify-center gap-1"
+          >
+            <Save size={14} /> Save recolored version
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PalettePanel;
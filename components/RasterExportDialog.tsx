@@ -0,0 +1,224 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { SVGVersion } from '../types';
+import { X, Image as ImageIcon, Package, Loader2, AlertTriangle, Link, Unlink } from 'lucide-react';
+import { sanitizeSvgFor } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import {
+  buildIconPresetZip,
+  getSvgAspectRatio,
+  ICON_PRESETS,
+  IconPresetId,
+  MAX_RASTER_EDGE,
+  RasterFormat,
+  renderRaster,
+} from '../services/rasterExport';
+import { downloadBlob } from '../services/download';
+
+interface RasterExportDialogProps {
+  version: SVGVersion | null;
+  onClose: () => void;
+}
+
+const SIZE_SHORTCUTS = [256, 512, 1024, 2048];
+const FORMATS: { id: RasterFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const optionButtonClass = (active: boolean) =>
+  `px-3 py-1 sketchy-border-thin font-hand text-base transition-colors ${active ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'}`;
+
+const RasterExportDialog: React.FC<RasterExportDialogProps> = ({ version, onClose }) => {
+  const aspect = useMemo(() => (version ? getSvgAspectRatio(version.svgCode) : 1), [version?.svgCode]);
+  const [format, setFormat] = useState<RasterFormat>('png');
+  const [width, setWidth] = useState(1024);
+  const [height, setHeight] = useState(1024);
+  const [lockAspect, setLockAspect] = useState(true);
+  const [transparent, setTransparent] = useState(true);
+  const [color, setColor] = useState('#ffffff');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scopePrefix = toScopePrefix(useId());
+
+  useEffect(() => {
+    setError(null);
+    setWidth(1024);
+    setHeight(Math.round(1024 / aspect));
+  }, [version?.id, aspect]);
+
+  if (!version) return null;
+
+  const background = transparent ? 'transparent' : color;
+  const baseName = `iteration-${version.iteration}`;
+
+  const clampEdge = (value: number) => Math.min(MAX_RASTER_EDGE, Math.max(1, Math.round(value) || 1));
+
+  const changeWidth = (value: number) => {
+    const next = clampEdge(value);
+    setWidth(next);
+    if (lockAspect) setHeight(clampEdge(next / aspect));
+  };
+
+  const changeHeight = (value: number) => {
+    const next = clampEdge(value);
+    setHeight(next);
+    if (lockAspect) setWidth(clampEdge(next * aspect));
+  };
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setError(null);
+    setBusy(label);
+    try {
+      await task();
+    } catch (err) {
+      console.error('Raster export failed', err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportImage = () => run('Rendering...', async () => {
+    const blob = await renderRaster(version.svgCode, { width, height, format, background });
+    downloadBlob(blob, `${baseName}-${width}x${height}.${format}`);
+  });
+
+  const exportPreset = (preset: IconPresetId) => run('Packing icons...', async () => {
+    const blob = await buildIconPresetZip(version.svgCode, preset, background, (done, total) => {
+      setBusy(`Packing icons... ${done}/${total}`);
+    });
+    downloadBlob(blob, `${baseName}-${preset}-icons.zip`);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in"
+      // Rendered inside the version modal; keep the click from closing that too
+      onClick={e => { e.stopPropagation(); onClose(); }}
+    >
+      <div
+        className="bg-card sketchy-border w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl relative"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 z-20 p-2 bg-muted/20 hover:bg-muted/50 rounded-full transition-colors text-foreground">
+          <X size={24} />
+        </button>
+
+        <div className="p-6 border-b border-border border-dashed">
+          <h2 className="font-sketch text-4xl text-foreground">Export Image</h2>
+          <p className="font-hand text-muted-foreground mt-1">Iteration #{version.iteration}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div
+            className="aspect-square border border-border flex items-center justify-center p-4 [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full"
+            style={transparent
+              ? { backgroundImage: 'repeating-conic-gradient(#e5e5e5 0% 25%, #ffffff 0% 50%)', backgroundSize: '20px 20px' }
+              : { backgroundColor: color }}
+            dangerouslySetInnerHTML={{ __html: scopeSvg(sanitizeSvgFor('render', version.svgCode), scopePrefix) }}
+          />
+
+          <div className="space-y-5 font-hand text-foreground">
+            <div className="space-y-2">
+              <h3 className="font-sketch text-2xl">Format</h3>
+              <div className="flex gap-2">
+                {FORMATS.map(({ id, label }) => (
+                  <button key={id} onClick={() => setFormat(id)} className={optionButtonClass(format === id)}>{label}</button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-sketch text-2xl">Size</h3>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_RASTER_EDGE}
+                  value={width}
+                  onChange={(e) => changeWidth(Number(e.target.value))}
+                  className="w-24 px-2 py-1 bg-background sketchy-border-thin"
+                  aria-label="Width in pixels"
+                />
+                <button
+                  onClick={() => setLockAspect(!lockAspect)}
+                  title={lockAspect ? 'Aspect ratio locked' : 'Aspect ratio unlocked'}
+                  className="p-1.5 hover:bg-muted/30 rounded transition-colors"
+                >
+                  {lockAspect ? <Link size={16} /> : <Unlink size={16} />}
+                </button>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_RASTER_EDGE}
+                  value={height}
+                  onChange={(e) => changeHeight(Number(e.target.value))}
+                  className="w-24 px-2 py-1 bg-background sketchy-border-thin"
+                  aria-label="Height in pixels"
+                />
+                <span className="text-muted-foreground">px</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {SIZE_SHORTCUTS.map((size) => (
+                  <button key={size} onClick={() => changeWidth(size)} className="px-2 py-0.5 text-sm sketchy-border-thin hover:bg-muted/30 transition-colors">
+                    {size}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-sketch text-2xl">Background</h3>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+                Transparent
+              </label>
+              {!transparent && (
+                <label className="flex items-center gap-2">
+                  <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-10 h-8 cursor-pointer" />
+                  <span className="font-mono text-sm">{color}</span>
+                </label>
+              )}
+            </div>
+
+            <button
+              onClick={exportImage}
+              disabled={busy !== null}
+              className="w-full py-2 sketchy-border-thin font-sketch text-xl hover:bg-accent hover:text-white hover:border-accent disabled:opacity-60 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center justify-center gap-2"
+            >
+              <ImageIcon size={20} /> Export {format.toUpperCase()}
+            </button>
+
+            <div className="space-y-2 pt-4 border-t border-border border-dashed">
+              <h3 className="font-sketch text-2xl flex items-center gap-2"><Package size={20} /> Icon packs</h3>
+              <p className="text-sm text-muted-foreground">Each pack downloads as one zip. Launcher and maskable icons fill transparent backgrounds with white.</p>
+              {ICON_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => exportPreset(preset.id)}
+                  disabled={busy !== null}
+                  className="w-full text-left p-2 sketchy-border-thin hover:bg-muted/30 disabled:opacity-60 transition-colors"
+                >
+                  <div className="text-base">{preset.label}</div>
+                  <div className="text-xs text-muted-foreground">{preset.description}</div>
+                </button>
+              ))}
+            </div>
+
+            {busy && (
+              <p className="text-muted-foreground flex items-center gap-2">
+                <Loader2 size={16} className="animate-spin" /> {busy}
+              </p>
+            )}
+            {error && (
+              <p className="text-destructive flex items-start gap-2">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RasterExportDialog;
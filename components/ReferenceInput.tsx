@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, ImagePlus, PenTool, Upload, X } from 'lucide-react';
+import { normalizeReferenceImage } from '../services/referenceImage';
+
+interface ReferenceInputProps {
+  referenceImage: string | null;
+  onChange: (image: string | null) => void;
+}
+
+const SKETCH_WIDTH = 480;
+const SKETCH_HEIGHT = 360;
+
+const ReferenceInput: React.FC<ReferenceInputProps> = ({ referenceImage, onChange }) => {
+  const [isSketching, setIsSketching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sketchRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const clearSketch = () => {
+    const ctx = sketchRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, SKETCH_WIDTH, SKETCH_HEIGHT);
+  };
+
+  useEffect(() => {
+    if (isSketching) clearSketch();
+  }, [isSketching]);
+
+  const applyImage = async (source: Blob | string) => {
+    setError(null);
+    try {
+      onChange(await normalizeReferenceImage(source));
+      setIsSketching(false);
+    } catch (e: any) {
+      setError(e?.message || 'That image could not be used.');
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) applyImage(file);
+  };
+
+  // Canvas coordinates of a pointer event; the canvas may be drawn smaller than its pixel size
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * SKETCH_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * SKETCH_HEIGHT,
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = toCanvasPoint(e);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const from = lastPointRef.current;
+    const ctx = sketchRef.current?.getContext('2d');
+    if (!from || !ctx) return;
+    const to = toCanvasPoint(e);
+    ctx.strokeStyle = '#1f2937';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPointRef.current = to;
+  };
+
+  const endStroke = () => {
+    lastPointRef.current = null;
+  };
+
+  return (
+    <div className="sketchy-border-thin bg-card p-3 font-hand text-sm text-foreground space-y-2">
+      <div className="flex items-center gap-2">
+        <ImagePlus size={16} className="text-accent shrink-0" />
+        <span className="flex-1">Reference image</span>
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Upload a reference image"
+          className="flex items-center gap-1 px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors"
+        >
+          <Upload size={14} /> Upload
+        </button>
+        <button
+          onClick={() => setIsSketching(!isSketching)}
+          title={isSketching ? 'Cancel sketch' : 'Draw a rough sketch'}
+          className="flex items-center gap-1 px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors"
+        >
+          {isSketching ? <X size={14} /> : <PenTool size={14} />} {isSketching ? 'Cancel' : 'Sketch'}
+        </button>
+      </div>
+
+      {isSketching && (
+        <div className="space-y-2">
+          <canvas
+            ref={sketchRef}
+            width={SKETCH_WIDTH}
+            height={SKETCH_HEIGHT}
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={endStroke}
+            onPointerLeave={endStroke}
+            className="w-full max-w-[480px] aspect-[4/3] border border-dashed border-muted bg-white cursor-crosshair touch-none"
+          />
+          <div className="flex gap-2">
+            <button onClick={clearSketch} className="flex items-center gap-1 px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors">
+              <Eraser size={14} /> Clear
+            </button>
+            <button
+              onClick={() => sketchRef.current && applyImage(sketchRef.current.toDataURL('image/png'))}
+              className="ml-auto px-3 h-8 sketchy-border-thin hover:bg-accent hover:text-white hover:border-accent transition-all"
+            >
+              Use sketch
+            </button>
+          </div>
+        </div>
+      )}
+
+      {referenceImage && !isSketching && (
+        <div className="flex items-start gap-2">
+          <img src={referenceImage} alt="Reference" className="max-h-32 border border-border bg-white" />
+          <div className="flex-1 text-muted-foreground">
+            Sent with the plan and every review, so drafts are judged against it.
+          </div>
+          <button onClick={() => onChange(null)} title="Remove reference" className="p-1.5 sketchy-border-thin hover:bg-muted/30 transition-colors">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-destructive">{error}</div>}
+    </div>
+  );
+};
+
+export default ReferenceInput;
@@ -0,0 +1,216 @@
+import React, { useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Lasso, Loader2, Target, X } from 'lucide-react';
+import { getSanitizerPolicies, sanitizeSvg } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import { describeSelection, normalizeSelection, REGION_ATTRIBUTE, tagRegions } from '../services/svgRegions';
+
+interface RegionRefinePanelProps {
+  svgCode: string;
+  // Resolves once the merged child version is saved; rejects with a message to show
+  onSubmit: (regions: number[], note: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Pointer travel (px) before a press counts as a lasso instead of a click
+const LASSO_THRESHOLD = 4;
+// Leaves room for the region rules in the 2000-character edit instruction
+const MAX_NOTE_LENGTH = 1500;
+
+const isInsidePolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const RegionRefinePanel: React.FC<RegionRefinePanelProps> = ({ svgCode, onSubmit, disabled }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [note, setNote] = useState('');
+  const [lasso, setLasso] = useState<Point[] | null>(null);
+  const [highlights, setHighlights] = useState<Box[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const pressRef = useRef<Point | null>(null);
+  const scopePrefix = toScopePrefix(useId());
+  const renderPolicy = getSanitizerPolicies().render;
+
+  const taggedSvg = useMemo(
+    () => scopeSvg(sanitizeSvg(tagRegions(svgCode), renderPolicy), scopePrefix),
+    [svgCode, renderPolicy, scopePrefix]
+  );
+  const selection = useMemo(() => normalizeSelection(svgCode, selected), [svgCode, selected]);
+  const labels = useMemo(() => describeSelection(svgCode, selection), [svgCode, selection]);
+
+  // Indexes refer to this exact source, so a different version starts a fresh selection
+  useLayoutEffect(() => {
+    setSelected([]);
+    setError(null);
+  }, [svgCode]);
+
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const origin = stage.getBoundingClientRect();
+    setHighlights(
+      selection.flatMap((index) => {
+        const node = stage.querySelector(`[${REGION_ATTRIBUTE}="${index}"]`);
+        if (!node) return [];
+        const rect = node.getBoundingClientRect();
+        return [{ left: rect.left - origin.left, top: rect.top - origin.top, width: rect.width, height: rect.height }];
+      })
+    );
+  }, [selection, taggedSvg]);
+
+  const toStagePoint = (e: React.PointerEvent): Point => {
+    const origin = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - origin.left, y: e.clientY - origin.top };
+  };
+
+  const regionsInLasso = (polygon: Point[]): number[] => {
+    const stage = stageRef.current;
+    if (!stage) return [];
+    const origin = stage.getBoundingClientRect();
+    // An element is lassoed when its whole bounding box is inside the loop
+    return Array.from(stage.querySelectorAll(`[${REGION_ATTRIBUTE}]`)).flatMap((node: Element) => {
+      const rect = node.getBoundingClientRect();
+      const corners = [
+        { x: rect.left, y: rect.top },
+        { x: rect.right, y: rect.top },
+        { x: rect.left, y: rect.bottom },
+        { x: rect.right, y: rect.bottom },
+      ].map((corner) => ({ x: corner.x - origin.left, y: corner.y - origin.top }));
+      return corners.every((corner) => isInsidePolygon(corner, polygon))
+        ? [Number(node.getAttribute(REGION_ATTRIBUTE))]
+        : [];
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pressRef.current = toStagePoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = pressRef.current;
+    if (!start) return;
+    const point = toStagePoint(e);
+    if (lasso) {
+      setLasso([...lasso, point]);
+    } else if (Math.hypot(point.x - start.x, point.y - start.y) > LASSO_THRESHOLD) {
+      setLasso([start, point]);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pressRef.current) return;
+    pressRef.current = null;
+    let picked: number[];
+    if (lasso) {
+      picked = lasso.length >= 3 ? regionsInLasso(lasso) : [];
+      setLasso(null);
+    } else {
+      // Pointer capture retargets the event, so hit-test where the click landed
+      const hit = document.elementFromPoint(e.clientX, e.clientY);
+      const region = hit && stageRef.current?.contains(hit) ? hit.closest(`[${REGION_ATTRIBUTE}]`) : null;
+      picked = region ? [Number(region.getAttribute(REGION_ATTRIBUTE))] : [];
+    }
+    // Shift adds to the selection; a plain click or lasso replaces it
+    setSelected(e.shiftKey ? [...selected, ...picked] : picked);
+  };
+
+  const apply = async () => {
+    const trimmed = note.trim();
+    if (!trimmed || selection.length === 0 || isApplying || disabled) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onSubmit(selection, trimmed);
+      setNote('');
+      setSelected([]);
+    } catch (e: any) {
+      setError(e?.message || 'The refine failed. Try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 font-hand">
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <Lasso size={14} className="shrink-0" /> Click an element or drag a loop around several; hold Shift to add more.
+      </p>
+      <div
+        ref={stageRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="relative bg-white sketchy-border-thin p-2 h-56 flex items-center justify-center cursor-crosshair touch-none select-none"
+      >
+        <div
+          className="w-full h-full flex items-center justify-center [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full"
+          dangerouslySetInnerHTML={{ __html: taggedSvg }}
+        />
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          {highlights.map((box, i) => (
+            <rect key={i} x={box.left} y={box.top} width={box.width} height={box.height} fill="none" stroke="currentColor" strokeDasharray="4 3" className="text-accent" />
+          ))}
+          {lasso && (
+            <polygon points={lasso.map((p) => `${p.x},${p.y}`).join(' ')} fill="currentColor" fillOpacity={0.08} stroke="currentColor" strokeDasharray="3 3" className="text-accent" />
+          )}
+        </svg>
+      </div>
+
+      {labels.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-foreground/80">
+          <Target size={14} className="text-accent shrink-0" />
+          <span className="flex-1 truncate" title={labels.join(', ')}>{labels.join(', ')}</span>
+          <button onClick={() => setSelected([])} title="Clear selection" className="p-1 sketchy-border-thin hover:bg-muted/30 transition-colors">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        maxLength={MAX_NOTE_LENGTH}
+        disabled={isApplying}
+        placeholder='e.g. "give the tail a curl and a darker tip"'
+        className="w-full px-3 py-2 sketchy-border-thin bg-white/50 text-base resize-none focus:outline-none"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={apply}
+          disabled={!note.trim() || selection.length === 0 || isApplying || disabled}
+          title={disabled ? 'Stop the current run first' : 'Change only the selected elements and save the result as a new version'}
+          className="px-3 py-1.5 sketchy-border-thin text-base hover:bg-accent hover:text-white hover:border-accent disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all flex items-center gap-2"
+        >
+          {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Target size={16} />}
+          {isApplying ? 'Refining...' : 'Refine selection'}
+        </button>
+        {error && <span className="text-sm text-destructive">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default RegionRefinePanel;
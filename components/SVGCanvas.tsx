@@ -1,17 +1,28 @@
-import React, { useRef, forwardRef, useImperativeHandle, useMemo } from 'react';
-import { sanitizeSvg } from '../services/svgSanitizer';
+import React, { useRef, forwardRef, useId, useImperativeHandle, useMemo } from 'react';
+import { getSanitizerPolicies, sanitizeSvg } from '../services/svgSanitizer';
+import { scopeSvg, toScopePrefix } from '../services/svgScope';
+import { captureAnimationFrames, DEFAULT_FRAME_COUNT, FrameCapture, RasterFrame, rasterizeSvgElement } from '../services/animationFrames';
 
 interface SVGCanvasProps {
   svgCode: string;
+  // Pixel size of captureImage(); defaults to an 800px square
+  captureSize?: { width: number; height: number };
 }
 
 export interface SVGCanvasHandle {
   captureImage: () => Promise<string>;
+  // Null when the rendered SVG has no CSS or SMIL animations; size is per frame (400px square by default)
+  captureFrames: (frameCount?: number, size?: RasterFrame) => Promise<FrameCapture | null>;
 }
 
-const SVGCanvas = forwardRef<SVGCanvasHandle, SVGCanvasProps>(({ svgCode }, ref) => {
+const SVGCanvas = forwardRef<SVGCanvasHandle, SVGCanvasProps>(({ svgCode, captureSize }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const safeSvgCode = useMemo(() => sanitizeSvg(svgCode), [svgCode]);
+  const scopePrefix = toScopePrefix(useId());
+  const renderPolicy = getSanitizerPolicies().render;
+  const safeSvgCode = useMemo(
+    () => scopeSvg(sanitizeSvg(svgCode, renderPolicy), scopePrefix),
+    [svgCode, renderPolicy, scopePrefix]
+  );
 
   useImperativeHandle(ref, () => ({
     captureImage: async () => {
@@ -20,50 +31,13 @@ const SVGCanvas = forwardRef<SVGCanvasHandle, SVGCanvasProps>(({ svgCode }, ref)
       const svgElement = containerRef.current.querySelector('svg');
       if (!svgElement) return '';
 
-      // Clone the SVG to not mess with the DOM one
-      const clone = svgElement.cloneNode(true) as SVGElement;
-      // Ensure dimensions are explicit on the clone for canvas
-      clone.setAttribute('width', '800');
-      clone.setAttribute('height', '800');
-
-      const svgString = new XMLSerializer().serializeToString(clone);
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      const width = 800;
-      const height = 800;
-      canvas.width = width;
-      canvas.height = height;
-
-      const img = new Image();
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-      const url = URL.createObjectURL(svgBlob);
-
-      return new Promise((resolve, reject) => {
-        img.onload = () => {
-          if (ctx) {
-            // White background for cleaner evaluation by vision model
-            ctx.fillStyle = '#ffffff'; 
-            ctx.fillRect(0, 0, width, height);
-            
-            // Draw image preserving aspect ratio
-            const scale = Math.min(width / img.width, height / img.height);
-            const x = (width / 2) - (img.width / 2) * scale;
-            const y = (height / 2) - (img.height / 2) * scale;
-            
-            ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
-            URL.revokeObjectURL(url);
-            resolve(canvas.toDataURL('image/png'));
-          } else {
-             reject('No context');
-          }
-        };
-        img.onerror = (e) => {
-            URL.revokeObjectURL(url);
-            reject(e);
-        }
-        img.src = url;
-      });
+      // White background for cleaner evaluation by vision model
+      return rasterizeSvgElement(svgElement, captureSize || 800);
+    },
+    captureFrames: async (frameCount = DEFAULT_FRAME_COUNT, size?: RasterFrame) => {
+      const svgElement = containerRef.current?.querySelector('svg');
+      if (!svgElement) return null;
+      return captureAnimationFrames(svgElement, { frameCount, size });
     }
   }));
 
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Brush, Plus, Trash2, X } from 'lucide-react';
+import { STYLE_PRESET_KINDS, StylePreset } from '../services/stylePresets';
+import { getBrandPalettes } from '../services/svgPalette';
+
+interface StylePresetPickerProps {
+  presets: StylePreset[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (preset: StylePreset) => void;
+  onDelete: (id: string) => void;
+}
+
+type PresetKind = StylePreset['kind'];
+
+const readOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ presets, selectedId, onSelect, onSave, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<PresetKind>('brand-kit');
+  const [description, setDescription] = useState(STYLE_PRESET_KINDS.find((k) => k.id === 'brand-kit')!.description);
+  const [palette, setPalette] = useState<string[]>([]);
+  const [nextColor, setNextColor] = useState('#000000');
+  const [strokeWidth, setStrokeWidth] = useState('');
+  const [cornerRadius, setCornerRadius] = useState('');
+
+  const selected = presets.find((preset) => preset.id === selectedId) || presets[0];
+  const brandPalettes = getBrandPalettes();
+
+  const changeKind = (next: PresetKind) => {
+    // Swap in the new kind's description unless the user has written their own
+    const previousDefault = STYLE_PRESET_KINDS.find((k) => k.id === kind)?.description;
+    if (!description.trim() || description === previousDefault) {
+      setDescription(STYLE_PRESET_KINDS.find((k) => k.id === next)?.description || '');
+    }
+    setKind(next);
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setPalette([]);
+    setStrokeWidth('');
+    setCornerRadius('');
+  };
+
+  const save = () => {
+    if (!name.trim() || !description.trim()) return;
+    const preset: StylePreset = {
+      id: uuidv4(),
+      kind,
+      name: name.trim(),
+      description: description.trim(),
+      ...(palette.length > 0 ? { palette } : {}),
+      ...(readOptionalNumber(strokeWidth) !== undefined ? { strokeWidth: readOptionalNumber(strokeWidth) } : {}),
+      ...(readOptionalNumber(cornerRadius) !== undefined ? { cornerRadius: readOptionalNumber(cornerRadius) } : {}),
+    };
+    onSave(preset);
+    resetForm();
+  };
+
+  return (
+    <div className="sketchy-border-thin bg-card p-3 font-hand text-sm text-foreground space-y-2">
+      <div className="flex items-center gap-2">
+        <Brush size={16} className="text-accent shrink-0" />
+        <span>Style</span>
+        <select
+          value={selected?.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 px-2 h-8 sketchy-border-thin bg-transparent"
+        >
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        {selected && !selected.builtIn && (
+          <button onClick={() => onDelete(selected.id)} title="Delete this preset" className="p-1.5 sketchy-border-thin hover:bg-muted/30 transition-colors">
+            <Trash2 size={14} />
+          </button>
+        )}
+        <button
+          onClick={() => (isCreating ? resetForm() : setIsCreating(true))}
+          title={isCreating ? 'Cancel' : 'New style preset'}
+          className="p-1.5 sketchy-border-thin hover:bg-muted/30 transition-colors"
+        >
+          {isCreating ? <X size={14} /> : <Plus size={14} />}
+        </button>
+      </div>
+
+      {selected && !isCreating && (
+        <div className="text-muted-foreground flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span>{selected.description}</span>
+          {selected.palette?.length ? (
+            <span className="flex gap-1">
+              {selected.palette.map((color) => (
+                <span key={color} title={color} className="w-4 h-4 border border-border" style={{ backgroundColor: color }} />
+              ))}
+            </span>
+          ) : null}
+          {selected.strokeWidth !== undefined && <span>stroke {selected.strokeWidth}</span>}
+          {selected.cornerRadius !== undefined && <span>radius {selected.cornerRadius}</span>}
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="space-y-2 pt-2 border-t border-dashed border-border">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Preset name"
+              className="flex-1 min-w-0 px-2 h-8 sketchy-border-thin bg-transparent"
+            />
+            <select
+              value={kind}
+              onChange={(e) => changeKind(e.target.value as PresetKind)}
+              className="px-2 h-8 sketchy-border-thin bg-transparent"
+            >
+              {STYLE_PRESET_KINDS.map((k) => (
+                <option key={k.id} value={k.id}>{k.label}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            placeholder="Describe the look"
+            className="w-full px-2 py-1 sketchy-border-thin bg-transparent resize-none"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Palette</span>
+            {palette.map((color) => (
+              <button
+                key={color}
+                onClick={() => setPalette(palette.filter((c) => c !== color))}
+                title={`Remove ${color}`}
+                className="w-6 h-6 sketchy-border-thin"
+                style={{ backgroundColor: color }}
+              />
+            ))}
+            <input type="color" value={nextColor} onChange={(e) => setNextColor(e.target.value)} className="w-8 h-8 bg-transparent cursor-pointer" />
+            <button
+              onClick={() => !palette.includes(nextColor) && setPalette([...palette, nextColor])}
+              className="px-2 h-8 sketchy-border-thin hover:bg-muted/30 transition-colors"
+            >
+              Add
+            </button>
+            {brandPalettes.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const brand = brandPalettes.find((p) => p.id === e.target.value);
+                  if (brand) setPalette(brand.colors);
+                }}
+                className="px-2 h-8 sketchy-border-thin bg-transparent"
+              >
+                <option value="">From brand palette...</option>
+                {brandPalettes.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1">
+              Stroke width
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={strokeWidth}
+                onChange={(e) => setStrokeWidth(e.target.value)}
+                className="w-16 px-1 h-8 sketchy-border-thin bg-transparent"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Corner radius
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={cornerRadius}
+                onChange={(e) => setCornerRadius(e.target.value)}
+                className="w-16 px-1 h-8 sketchy-border-thin bg-transparent"
+              />
+            </label>
+            <button
+              onClick={save}
+              disabled={!name.trim() || !description.trim()}
+              className="ml-auto px-3 h-8 sketchy-border-thin hover:bg-accent hover:text-white hover:border-accent disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-foreground transition-all"
+            >
+              Save preset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPicker;
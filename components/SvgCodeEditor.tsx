@@ -0,0 +1,81 @@
+import React, { useMemo, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { SvgTokenType, tokenizeSvg, XmlSyntaxError } from '../services/svgSyntax';
+
+interface SvgCodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: XmlSyntaxError | null;
+}
+
+const TOKEN_CLASSES: Record<SvgTokenType, string> = {
+  tag: 'text-blue-700',
+  attr: 'text-amber-700',
+  value: 'text-green-700',
+  comment: 'text-muted-foreground italic',
+  punct: 'text-blue-700',
+  text: 'text-foreground',
+};
+
+// Highlighted <pre> under a transparent <textarea>; both share font metrics so the caret lines up.
+const SHARED_TEXT_CLASSES = 'font-mono text-xs leading-5 p-3 whitespace-pre break-normal';
+const LINE_HEIGHT_PX = 20;
+const PADDING_PX = 12;
+
+const SvgCodeEditor: React.FC<SvgCodeEditorProps> = ({ value, onChange, error }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const tokens = useMemo(() => tokenizeSvg(value), [value]);
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!highlightRef.current) return;
+    highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+    highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
+  return (
+    <div>
+      <div className={`relative h-[260px] bg-background border rounded ${error ? 'border-destructive' : 'border-border'}`}>
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={`${SHARED_TEXT_CLASSES} absolute inset-0 m-0 overflow-hidden pointer-events-none`}
+        >
+          {error?.line && (
+            <div
+              className="absolute left-0 right-0 bg-destructive/15"
+              style={{ top: PADDING_PX + (error.line - 1) * LINE_HEIGHT_PX, height: LINE_HEIGHT_PX }}
+            />
+          )}
+          <span className="relative">
+            {tokens.map((token, index) => (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            ))}
+            {/* Keep a trailing newline visible so the layers stay the same height */}
+            {'\n'}
+          </span>
+        </pre>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          wrap="off"
+          className={`${SHARED_TEXT_CLASSES} absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-foreground outline-none overflow-auto custom-scrollbar`}
+        />
+      </div>
+      {error && (
+        <div className="mt-2 flex items-start gap-2 font-hand text-sm text-destructive">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <span>
+            {error.line !== null && `Line ${error.line}${error.column !== null ? `, column ${error.column}` : ''}: `}
+            {error.message}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SvgCodeEditor;
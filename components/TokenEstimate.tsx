@@ -2,6 +2,9 @@ import React from 'react';
 import { Calculator, AlertTriangle } from 'lucide-react';
 import * as tokenManager from '../services/tokenManager';
 import type { TokenEstimateResult } from '../services/gemini';
+import { StopConditions } from '../types';
+import { MAX_CANDIDATES } from '../services/candidates';
+import { SANITIZER_POLICIES, SANITIZER_USES, SanitizerPolicyName, SanitizerUse } from '../services/svgSanitizer';
 
 interface TokenEstimateProps {
   estimate: TokenEstimateResult | null;
@@ -10,6 +13,19 @@ interface TokenEstimateProps {
   isLoading: boolean;
   autoRefineEnabled: boolean;
   onAutoRefineChange: (enabled: boolean) => void;
+  stopConditions: StopConditions;
+  onStopConditionsChange: (conditions: StopConditions) => void;
+  // Omitted when the run continues from an existing version (nothing new is drafted)
+  candidateCount?: number;
+  onCandidateCountChange?: (count: number) => void;
+  optimizeOnSave: boolean;
+  onOptimizeOnSaveChange: (enabled: boolean) => void;
+  lintInRefine: boolean;
+  onLintInRefineChange: (enabled: boolean) => void;
+  reviewCritique: boolean;
+  onReviewCritiqueChange: (enabled: boolean) => void;
+  sanitizerPolicies: Record<SanitizerUse, SanitizerPolicyName>;
+  onSanitizerPoliciesChange: (policies: Record<SanitizerUse, SanitizerPolicyName>) => void;
   onConfirm: () => void;
   onCancel: () => void;
   onBuyTokens: () => void;
@@ -22,6 +38,18 @@ const TokenEstimate: React.FC<TokenEstimateProps> = ({
   isLoading,
   autoRefineEnabled,
   onAutoRefineChange,
+  stopConditions,
+  onStopConditionsChange,
+  candidateCount,
+  onCandidateCountChange,
+  optimizeOnSave,
+  onOptimizeOnSaveChange,
+  lintInRefine,
+  onLintInRefineChange,
+  reviewCritique,
+  onReviewCritiqueChange,
+  sanitizerPolicies,
+  onSanitizerPoliciesChange,
   onConfirm,
   onCancel,
   onBuyTokens,
@@ -39,6 +67,22 @@ const TokenEstimate: React.FC<TokenEstimateProps> = ({
   const roundedUpByCredits = Math.max(0, displayEstimate - fractionalEstimate);
   const canAfford = !isTokenMode || tokenManager.canAfford(displayEstimate, balance + EPSILON);
 
+  const stopConditionFields: { key: keyof StopConditions; label: string; step: number; hidden?: boolean }[] = [
+    { key: 'targetScore', label: 'Stop at score (0-10)', step: 0.5 },
+    { key: 'patience', label: 'Stop after N iterations without improvement', step: 1 },
+    { key: 'maxIterations', label: 'Max iterations', step: 1 },
+    { key: 'maxCredits', label: 'Max GIF credits this session', step: 0.5, hidden: !isTokenMode },
+    { key: 'maxTokens', label: 'Max tokens this session', step: 1000 },
+  ];
+
+  const updateStopCondition = (key: keyof StopConditions, rawValue: string) => {
+    const parsed = Number(rawValue);
+    onStopConditionsChange({
+      ...stopConditions,
+      [key]: rawValue.trim() === '' || !Number.isFinite(parsed) || parsed <= 0 ? null : parsed,
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/60 backdrop-blur-sm animate-fade-in"
       onClick={(e) => { if (e.target === e.currentTarget) onCancel(); }}
@@ -98,8 +142,30 @@ const TokenEstimate: React.FC<TokenEstimateProps> = ({
               </div>
             )}
 
+            {candidateCount !== undefined && onCandidateCountChange && (
+              <div className="flex items-center justify-between gap-3 p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
+                <span>Candidates drafted from the plan</span>
+                <div className="flex gap-1">
+                  {Array.from({ length: MAX_CANDIDATES }, (_, index) => index + 1).map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => onCandidateCountChange(count)}
+                      className={`w-8 h-8 sketchy-border-thin transition-colors ${
+                        candidateCount === count ? 'bg-accent text-white border-accent' : 'hover:bg-muted/30'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <p className="font-hand text-sm text-muted-foreground">
-              You will generate one GIF result first. Auto refinement is optional and can continue generating more results.
+              {candidateCount && candidateCount > 1
+                ? `You will draft ${candidateCount} candidates, the critic ranks them, and the winner becomes your first GIF result. The other drafts stay in your gallery.`
+                : 'You will generate one GIF result first.'}
+              {' '}Auto refinement is optional and can continue generating more results.
             </p>
 
             <label className="flex items-center gap-2 p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
@@ -111,6 +177,77 @@ const TokenEstimate: React.FC<TokenEstimateProps> = ({
               Enable auto refinement loop (off by default)
             </label>
 
+            <label className="flex items-center gap-2 p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={optimizeOnSave}
+                onChange={(e) => onOptimizeOnSaveChange(e.target.checked)}
+              />
+              Optimize SVG code when saving to the gallery (the original is kept)
+            </label>
+
+            <label className="flex items-center gap-2 p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={lintInRefine}
+                onChange={(e) => onLintInRefineChange(e.target.checked)}
+              />
+              Add SVG lint problems (broken references, off-canvas shapes...) to the refine checklist
+            </label>
+
+            <label className="flex items-center gap-2 p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={reviewCritique}
+                onChange={(e) => onReviewCritiqueChange(e.target.checked)}
+              />
+              Pause after each critique so I can edit it before the refine
+            </label>
+
+            <details className="p-3 bg-muted/20 rounded-lg font-hand text-sm text-foreground">
+              <summary className="cursor-pointer">SVG sanitizer policies</summary>
+              <div className="mt-2 space-y-2">
+                {SANITIZER_USES.map((use) => (
+                  <label key={use.id} className="flex items-center justify-between gap-3 text-muted-foreground">
+                    {use.label}
+                    <select
+                      value={sanitizerPolicies[use.id]}
+                      onChange={(e) => onSanitizerPoliciesChange({ ...sanitizerPolicies, [use.id]: e.target.value as SanitizerPolicyName })}
+                      className="px-2 py-1 bg-background border border-border rounded text-foreground focus:border-accent focus:outline-none"
+                    >
+                      {SANITIZER_POLICIES.map((policy) => (
+                        <option key={policy.id} value={policy.id} title={policy.description}>{policy.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Strict drops stylesheets and animation; permissive allows embedded fonts and foreignObject text. External resources are always removed.
+                </p>
+              </div>
+            </details>
+
+            {autoRefineEnabled && (
+              <div className="p-3 bg-muted/20 rounded-lg space-y-2">
+                <p className="font-hand text-sm text-foreground/90">
+                  Auto-stop when any rule is met (leave blank to disable a rule):
+                </p>
+                {stopConditionFields.filter((field) => !field.hidden).map((field) => (
+                  <label key={field.key} className="flex items-center justify-between gap-3 font-hand text-sm text-muted-foreground">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={0}
+                      step={field.step}
+                      value={stopConditions[field.key] ?? ''}
+                      onChange={(e) => updateStopCondition(field.key, e.target.value)}
+                      className="w-24 px-2 py-1 bg-background border border-border rounded text-foreground focus:border-accent focus:outline-none"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
             {isTokenMode && (
               <div className="bg-accent/5 border border-accent/20 rounded-lg p-3">
                 <div className="flex justify-between font-hand text-base">
@@ -0,0 +1,217 @@
+// Client-side export of animated SVGs to GIF, APNG and WebM. Frames come from stepping the
+// animation through one detected loop, so nothing depends on real-time playback except WebM recording.
+
+import { v4 as uuidv4 } from 'uuid';
+import { sanitizeSvgFor } from './svgSanitizer';
+import { scopeSvg, toScopePrefix } from './svgScope';
+import { detectLoop, drawSvgElement, getAnimationTimeline, stepAnimation } from './animationFrames';
+import type { AnimationTimeline } from './animationFrames';
+import { createGifEncoder } from './gifEncoder';
+import { createApngEncoder } from './apngEncoder';
+
+export type AnimationExportFormat = 'gif' | 'apng' | 'webm';
+
+export const ANIMATION_EXPORT_FORMATS: { id: AnimationExportFormat; label: string; extension: string }[] = [
+  { id: 'gif', label: 'GIF', extension: 'gif' },
+  { id: 'apng', label: 'APNG', extension: 'png' },
+  { id: 'webm', label: 'WebM', extension: 'webm' },
+];
+
+export const EXPORT_SIZES = [240, 480, 720];
+export const EXPORT_FPS = [10, 15, 24, 30];
+const MAX_EXPORT_FRAMES = 600;
+
+export interface AnimationExportOptions {
+  format: AnimationExportFormat;
+  size: number;
+  fps: number;
+  // CSS colour or 'transparent'
+  background: string;
+}
+
+export interface AnimationExportProgress {
+  framesDone: number;
+  framesTotal: number;
+}
+
+export interface AnimationExportResult {
+  blob: Blob;
+  extension: string;
+  frameCount: number;
+  durationMs: number;
+  // False when some animation stops, so the file plays once instead of looping
+  loops: boolean;
+}
+
+export class AnimationExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnimationExportError';
+  }
+}
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const pickWebmMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const isAnimationFormatSupported = (format: AnimationExportFormat): boolean => {
+  if (format === 'webm') return pickWebmMimeType() !== null;
+  if (format === 'apng') return typeof CompressionStream !== 'undefined';
+  return true;
+};
+
+/** Cheap source check so static versions don't offer animated export at all. */
+export const hasAnimationMarkup = (svgCode: string): boolean =>
+  /@keyframes|animation\s*:|<animate|<set\b/i.test(svgCode);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Spread rounding error over the frames so the total stays equal to the loop length. */
+const frameDelays = (frameCount: number, durationMs: number, unitMs: number): number[] =>
+  Array.from({ length: frameCount }, (_, index) =>
+    Math.round(((index + 1) * durationMs) / frameCount / unitMs) - Math.round((index * durationMs) / frameCount / unitMs));
+
+// The SVG must be in the document for computed styles and the animation timeline to exist
+const mountOffscreen = (svgCode: string, size: number): { host: HTMLDivElement; svg: SVGSVGElement } => {
+  const host = document.createElement('div');
+  host.setAttribute('aria-hidden', 'true');
+  Object.assign(host.style, {
+    position: 'fixed',
+    left: '-10000px',
+    top: '0',
+    width: `${size}px`,
+    height: `${size}px`,
+    pointerEvents: 'none',
+  });
+  // Scoped like every inline copy, so the SVG's stylesheet and ids cannot reach the rest of the page
+  host.innerHTML = scopeSvg(sanitizeSvgFor('export', svgCode), toScopePrefix('export', uuidv4()));
+  document.body.appendChild(host);
+
+  const svg = host.querySelector('svg');
+  if (!svg) {
+    host.remove();
+    throw new AnimationExportError('There is no SVG to export.');
+  }
+  return { host, svg };
+};
+
+export const exportAnimation = async (
+  svgCode: string,
+  options: AnimationExportOptions,
+  onProgress?: (progress: AnimationExportProgress) => void
+): Promise<AnimationExportResult> => {
+  const format = ANIMATION_EXPORT_FORMATS.find((entry) => entry.id === options.format);
+  if (!format || !isAnimationFormatSupported(options.format)) {
+    throw new AnimationExportError(`${format?.label ?? options.format} export is not supported in this browser.`);
+  }
+
+  const { host, svg } = mountOffscreen(svgCode, options.size);
+  try {
+    const timeline = getAnimationTimeline(svg);
+    if (!timeline) throw new AnimationExportError('This SVG has no animations to export.');
+
+    const loop = detectLoop(timeline);
+    const frameCount = Math.min(MAX_EXPORT_FRAMES, Math.max(1, Math.round((loop.durationMs * options.fps) / 1000)));
+    const timestampsMs = Array.from({ length: frameCount }, (_, index) => loop.startMs + (index * loop.durationMs) / frameCount);
+    const reportFrame = (index: number) => onProgress?.({ framesDone: index + 1, framesTotal: frameCount });
+    onProgress?.({ framesDone: 0, framesTotal: frameCount });
+
+    let blob: Blob;
+    if (options.format === 'gif') {
+      const encoder = createGifEncoder({
+        width: options.size,
+        height: options.size,
+        loop: loop.infinite,
+        transparent: options.background === 'transparent',
+      });
+      const delays = frameDelays(frameCount, loop.durationMs, 10);
+      await stepAnimation(svg, timeline, timestampsMs, async (frozen, index) => {
+        const canvas = await drawSvgElement(frozen, options.size, options.background);
+        encoder.addFrame(readPixels(canvas), delays[index]);
+        reportFrame(index);
+      });
+      blob = new Blob([encoder.finish()], { type: 'image/gif' });
+    } else if (options.format === 'apng') {
+      const encoder = createApngEncoder({ width: options.size, height: options.size, loop: loop.infinite });
+      const delays = frameDelays(frameCount, loop.durationMs, 1);
+      await stepAnimation(svg, timeline, timestampsMs, async (frozen, index) => {
+        const canvas = await drawSvgElement(frozen, options.size, options.background);
+        await encoder.addFrame(readPixels(canvas), delays[index]);
+        reportFrame(index);
+      });
+      blob = new Blob([encoder.finish()], { type: 'image/png' });
+    } else {
+      blob = await recordWebm(svg, timeline, timestampsMs, loop.durationMs / frameCount, options, reportFrame);
+    }
+
+    return {
+      blob,
+      extension: format.extension,
+      frameCount,
+      durationMs: loop.durationMs,
+      loops: loop.infinite,
+    };
+  } finally {
+    host.remove();
+  }
+};
+
+const readPixels = (canvas: HTMLCanvasElement): Uint8ClampedArray => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new AnimationExportError('Canvas 2D context unavailable.');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+/**
+ * MediaRecorder timestamps frames by wall clock, so the recorder is paused while each frame
+ * rasterizes and only runs for exactly one frame interval after it is shown.
+ */
+const recordWebm = async (
+  svg: SVGSVGElement,
+  timeline: AnimationTimeline,
+  timestampsMs: number[],
+  frameIntervalMs: number,
+  options: AnimationExportOptions,
+  reportFrame: (index: number) => void
+): Promise<Blob> => {
+  const mimeType = pickWebmMimeType();
+  if (!mimeType) throw new AnimationExportError('WebM export is not supported in this browser.');
+
+  const output = document.createElement('canvas');
+  output.width = options.size;
+  output.height = options.size;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new AnimationExportError('Canvas 2D context unavailable.');
+
+  const stream = output.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  recorder.pause();
+  try {
+    await stepAnimation(svg, timeline, timestampsMs, async (frozen, index) => {
+      const frame = await drawSvgElement(frozen, options.size, options.background);
+      ctx.clearRect(0, 0, output.width, output.height);
+      ctx.drawImage(frame, 0, 0);
+      recorder.resume();
+      track.requestFrame();
+      await wait(frameIntervalMs);
+      recorder.pause();
+      reportFrame(index);
+    });
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((t) => t.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,371 @@
+// Samples CSS keyframe and SMIL animations at fixed timestamps so animated SVGs can be
+// judged (and later exported) frame by frame instead of from whatever frame happens to be on screen.
+
+export const DEFAULT_FRAME_COUNT = 6;
+const MAX_CYCLE_MS = 10_000;
+// Long edge of one frame in the contact sheet sent to evaluate
+export const CONTACT_SHEET_CELL = 400;
+
+// Properties CSS animations and SMIL typically drive; baked into each frame as inline styles.
+export const ANIMATED_PROPERTIES = [
+  'transform',
+  'transform-origin',
+  'transform-box',
+  'opacity',
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-opacity',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'visibility',
+];
+
+const SMIL_SELECTOR = 'animate, animateTransform, animateMotion, set';
+
+export interface AnimationTimeline {
+  cssAnimations: Animation[];
+  smilElements: SVGAnimationElement[];
+  // Length of one full cycle of the longest animation, capped at MAX_CYCLE_MS
+  cycleMs: number;
+}
+
+export interface FrameCapture {
+  frames: string[];
+  timestampsMs: number[];
+  cycleMs: number;
+  contactSheet: string;
+}
+
+const finiteOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/** Collect the animations running inside an SVG, or null when it is static. */
+export const getAnimationTimeline = (svg: SVGSVGElement): AnimationTimeline | null => {
+  const cssAnimations = typeof svg.getAnimations === 'function' ? svg.getAnimations({ subtree: true }) : [];
+  const smilElements = Array.from(svg.querySelectorAll<SVGAnimationElement>(SMIL_SELECTOR));
+  if (cssAnimations.length === 0 && smilElements.length === 0) return null;
+
+  const cycles: number[] = [];
+  cssAnimations.forEach((animation) => {
+    const timing = animation.effect?.getComputedTiming();
+    if (!timing) return;
+    cycles.push(finiteOr(timing.delay, 0) + finiteOr(timing.duration, 0));
+  });
+  smilElements.forEach((element) => {
+    try {
+      cycles.push(element.getSimpleDuration() * 1000);
+    } catch {
+      // Indefinite simple duration (e.g. <set>); it does not define a cycle
+    }
+  });
+
+  const longest = Math.max(0, ...cycles.filter((cycle) => Number.isFinite(cycle)));
+  return {
+    cssAnimations,
+    smilElements,
+    cycleMs: Math.min(MAX_CYCLE_MS, longest || 1000),
+  };
+};
+
+/** Evenly spaced sample points across one cycle; the end point is skipped because it repeats the start. */
+export const sampleTimestamps = (cycleMs: number, frameCount: number): number[] =>
+  Array.from({ length: Math.max(1, frameCount) }, (_, index) => Math.round((index * cycleMs) / Math.max(1, frameCount)));
+
+export interface AnimationLoop {
+  // Where a seamless cycle starts: after the longest positive delay, once every animation is running
+  startMs: number;
+  durationMs: number;
+  // False when some animation stops after a finite number of iterations
+  infinite: boolean;
+}
+
+const LOOP_RESOLUTION_MS = 10;
+const MAX_LOOP_MS = 30_000;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Work out how long one seamless loop of every animation together lasts: the least common multiple
+ * of the individual periods (alternate directions count double), or until the last finite animation ends.
+ */
+export const detectLoop = (timeline: AnimationTimeline): AnimationLoop => {
+  const periods: number[] = [];
+  const finiteEnds: number[] = [];
+  let startMs = 0;
+
+  timeline.cssAnimations.forEach((animation) => {
+    const effect = animation.effect;
+    if (!effect) return;
+    const timing = effect.getComputedTiming();
+    const duration = finiteOr(timing.duration, 0);
+    if (duration <= 0) return;
+    const direction = effect.getTiming().direction;
+    const period = direction === 'alternate' || direction === 'alternate-reverse' ? duration * 2 : duration;
+    if (timing.iterations === Infinity) {
+      periods.push(period);
+      startMs = Math.max(startMs, finiteOr(timing.delay, 0));
+    } else {
+      finiteEnds.push(finiteOr(timing.endTime, duration));
+    }
+  });
+
+  timeline.smilElements.forEach((element) => {
+    let duration: number;
+    try {
+      duration = element.getSimpleDuration() * 1000;
+    } catch {
+      return;
+    }
+    if (!Number.isFinite(duration) || duration <= 0) return;
+    let begin = 0;
+    try {
+      begin = element.getStartTime() * 1000;
+    } catch {
+      // Not started yet (e.g. begin="click"); treat as starting with the document
+    }
+    const repeatCount = element.getAttribute('repeatCount');
+    if (repeatCount === 'indefinite' || element.getAttribute('repeatDur') === 'indefinite') {
+      periods.push(duration);
+      startMs = Math.max(startMs, begin);
+    } else {
+      finiteEnds.push(begin + duration * (Number.parseFloat(repeatCount || '') || 1));
+    }
+  });
+
+  const units = periods.map((period) => Math.max(1, Math.round(period / LOOP_RESOLUTION_MS)));
+  let loopMs = units.length > 0
+    ? units.reduce((acc, unit) => (acc / gcd(acc, unit)) * unit) * LOOP_RESOLUTION_MS
+    : 0;
+  // Incommensurate periods never line up within a sensible length; fall back to the longest one
+  if (loopMs > MAX_LOOP_MS) loopMs = Math.max(...periods);
+
+  if (finiteEnds.length === 0) {
+    return { startMs, durationMs: Math.min(MAX_LOOP_MS, loopMs || timeline.cycleMs), infinite: true };
+  }
+  return { startMs: 0, durationMs: Math.min(MAX_LOOP_MS, Math.max(loopMs, ...finiteEnds)), infinite: false };
+};
+
+export interface RasterFrame {
+  width: number;
+  height: number;
+  // Fraction of each edge kept clear around the artwork (e.g. icon safe zones)
+  inset?: number;
+}
+
+/**
+ * Draw an SVG element onto a canvas, preserving aspect ratio. A number means a square canvas.
+ * Pass 'transparent' as the background to skip the fill.
+ */
+export const drawSvgElement = (
+  svg: SVGElement,
+  size: number | RasterFrame,
+  background = '#ffffff'
+): Promise<HTMLCanvasElement> => {
+  const { width, height, inset = 0 } = typeof size === 'number' ? { width: size, height: size } : size;
+  const artWidth = Math.max(1, Math.round(width * (1 - inset * 2)));
+  const artHeight = Math.max(1, Math.round(height * (1 - inset * 2)));
+
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute('width', String(artWidth));
+  clone.setAttribute('height', String(artHeight));
+
+  const svgString = new XMLSerializer().serializeToString(clone);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  canvas.width = width;
+  canvas.height = height;
+
+  const img = new Image();
+  const url = URL.createObjectURL(new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' }));
+
+  return new Promise((resolve, reject) => {
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      if (!ctx) {
+        reject('No context');
+        return;
+      }
+      if (background !== 'transparent') {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+      }
+      const scale = Math.min(artWidth / img.width, artHeight / img.height);
+      const x = (width / 2) - (img.width / 2) * scale;
+      const y = (height / 2) - (img.height / 2) * scale;
+      ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
+      resolve(canvas);
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+};
+
+/** Draw an SVG element into a PNG data URL; square when size is a number. */
+export const rasterizeSvgElement = async (svg: SVGElement, size: number | RasterFrame, background = '#ffffff'): Promise<string> =>
+  (await drawSvgElement(svg, size, background)).toDataURL('image/png');
+
+const collectTargets = (timeline: AnimationTimeline): Set<Element> => {
+  const targets = new Set<Element>();
+  timeline.cssAnimations.forEach((animation) => {
+    const target = (animation.effect as KeyframeEffect | null)?.target;
+    if (target) targets.add(target);
+  });
+  timeline.smilElements.forEach((element) => {
+    const target = element.targetElement;
+    if (target) targets.add(target);
+  });
+  return targets;
+};
+
+/**
+ * Copy the live SVG with every animated element frozen at the current timeline position.
+ * Serialized SVGs restart their animations from zero, so computed values are inlined and the animations removed.
+ */
+const freezeFrame = (svg: SVGSVGElement, targets: Set<Element>): SVGSVGElement => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const liveElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+  liveElements.forEach((live, index) => {
+    const copy = cloneElements[index] as SVGElement | undefined;
+    if (!copy || !targets.has(live)) return;
+
+    const computed = getComputedStyle(live);
+    ANIMATED_PROPERTIES.forEach((property) => {
+      const value = computed.getPropertyValue(property);
+      if (value) copy.style.setProperty(property, value);
+    });
+    copy.style.setProperty('animation', 'none');
+
+    // animateTransform drives the transform attribute rather than the CSS property
+    const transformList = (live as SVGGraphicsElement).transform?.animVal;
+    if (transformList && transformList.numberOfItems > 0) {
+      const matrix = transformList.consolidate()?.matrix;
+      if (matrix) {
+        copy.setAttribute('transform', `matrix(${matrix.a} ${matrix.b} ${matrix.c} ${matrix.d} ${matrix.e} ${matrix.f})`);
+      }
+    }
+  });
+
+  clone.querySelectorAll(SMIL_SELECTOR).forEach((element) => element.remove());
+  return clone;
+};
+
+/**
+ * Pause the SVG's animations, hand a frozen copy of each requested moment to renderFrame,
+ * then put playback back as it was.
+ */
+export const stepAnimation = async (
+  svg: SVGSVGElement,
+  timeline: AnimationTimeline,
+  timestampsMs: number[],
+  renderFrame: (frozen: SVGSVGElement, index: number) => Promise<void>
+): Promise<void> => {
+  const targets = collectTargets(timeline);
+  const hasSmil = timeline.smilElements.length > 0;
+
+  const saved = timeline.cssAnimations.map((animation) => ({
+    animation,
+    currentTime: animation.currentTime,
+    wasRunning: animation.playState === 'running',
+  }));
+  const smilTime = hasSmil ? svg.getCurrentTime() : 0;
+  const smilWasPaused = hasSmil ? svg.animationsPaused() : true;
+
+  timeline.cssAnimations.forEach((animation) => animation.pause());
+  if (hasSmil) svg.pauseAnimations();
+
+  try {
+    for (let index = 0; index < timestampsMs.length; index++) {
+      const timestamp = timestampsMs[index];
+      timeline.cssAnimations.forEach((animation) => { animation.currentTime = timestamp; });
+      if (hasSmil) svg.setCurrentTime(timestamp / 1000);
+      await renderFrame(freezeFrame(svg, targets), index);
+    }
+  } finally {
+    saved.forEach(({ animation, currentTime, wasRunning }) => {
+      animation.currentTime = currentTime;
+      if (wasRunning) animation.play();
+    });
+    if (hasSmil) {
+      svg.setCurrentTime(smilTime);
+      if (!smilWasPaused) svg.unpauseAnimations();
+    }
+  }
+};
+
+/** Rasterize the SVG at evenly spaced (or given) timestamps and tile the frames into a contact sheet. */
+export const captureAnimationFrames = async (
+  svg: SVGSVGElement,
+  options: { frameCount?: number; size?: number | RasterFrame; timestampsMs?: number[]; background?: string } = {}
+): Promise<FrameCapture | null> => {
+  const timeline = getAnimationTimeline(svg);
+  if (!timeline) return null;
+
+  const size = options.size ?? CONTACT_SHEET_CELL;
+  const timestampsMs = options.timestampsMs ?? sampleTimestamps(timeline.cycleMs, options.frameCount ?? DEFAULT_FRAME_COUNT);
+
+  const frames: string[] = [];
+  await stepAnimation(svg, timeline, timestampsMs, async (frozen) => {
+    frames.push(await rasterizeSvgElement(frozen, size, options.background));
+  });
+
+  return {
+    frames,
+    timestampsMs,
+    cycleMs: timeline.cycleMs,
+    contactSheet: await buildContactSheet(frames, timestampsMs, size),
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export const formatTimestamp = (ms: number): string => `t=${(ms / 1000).toFixed(2)}s`;
+
+/** Tile frames into one labelled grid image, read left-to-right then top-to-bottom; cells match the frame size. */
+export const buildContactSheet = async (
+  frames: string[],
+  timestampsMs: number[],
+  cell: number | RasterFrame = CONTACT_SHEET_CELL
+): Promise<string> => {
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const { width, height } = typeof cell === 'number' ? { width: cell, height: cell } : cell;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * width;
+  canvas.height = rows * height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const images = await Promise.all(frames.map(loadImage));
+  images.forEach((img, index) => {
+    const x = (index % columns) * width;
+    const y = Math.floor(index / columns) * height;
+    ctx.drawImage(img, x, y, width, height);
+
+    ctx.strokeStyle = '#cccccc';
+    ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x + 6, y + 6, 150, 26);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '16px sans-serif';
+    ctx.fillText(`${index + 1}. ${formatTimestamp(timestampsMs[index] ?? 0)}`, x + 12, y + 25);
+  });
+
+  return canvas.toDataURL('image/png');
+};
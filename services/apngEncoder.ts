@@ -0,0 +1,113 @@
+// Animated PNG encoder: full RGBA frames, zlib-compressed with the browser's CompressionStream.
+
+import { crc32 } from './crc32';
+
+export interface ApngEncoderOptions {
+  width: number;
+  height: number;
+  // Loop forever; otherwise the animation plays once
+  loop: boolean;
+}
+
+export interface ApngEncoder {
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => Promise<void>;
+  finish: () => Uint8Array;
+}
+
+const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let cursor = 0;
+  parts.forEach((part) => {
+    out.set(part, cursor);
+    cursor += part.length;
+  });
+  return out;
+};
+
+export const zlibDeflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** Scanlines with the PNG "Up" filter, which suits flat vector artwork well. */
+export const filterScanlines = (rgba: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    out[rowStart] = y === 0 ? 0 : 2;
+    for (let x = 0; x < stride; x++) {
+      const value = rgba[y * stride + x];
+      out[rowStart + 1 + x] = y === 0 ? value : (value - rgba[(y - 1) * stride + x]) & 0xff;
+    }
+  }
+  return out;
+};
+
+const headerChunk = (width: number, height: number): Uint8Array => {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data[8] = 8; // bit depth
+  data[9] = 6; // RGBA
+  return pngChunk('IHDR', data);
+};
+
+export const createApngEncoder = ({ width, height, loop }: ApngEncoderOptions): ApngEncoder => {
+  const frameChunks: Uint8Array[] = [];
+  let frameCount = 0;
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0;
+
+  return {
+    addFrame: async (rgba, delayMs) => {
+      const control = new Uint8Array(26);
+      const view = new DataView(control.buffer);
+      view.setUint32(0, sequence++);
+      view.setUint32(4, width);
+      view.setUint32(8, height);
+      view.setUint16(20, Math.max(1, Math.round(delayMs)));
+      view.setUint16(22, 1000);
+      control[24] = 0; // dispose: none
+      control[25] = 0; // blend: source, each frame replaces the last
+      frameChunks.push(pngChunk('fcTL', control));
+
+      const compressed = await zlibDeflate(filterScanlines(rgba, width, height));
+      if (frameCount === 0) {
+        frameChunks.push(pngChunk('IDAT', compressed));
+      } else {
+        const data = new Uint8Array(4 + compressed.length);
+        new DataView(data.buffer).setUint32(0, sequence++);
+        data.set(compressed, 4);
+        frameChunks.push(pngChunk('fdAT', data));
+      }
+      frameCount++;
+    },
+    finish: () => {
+      const animationControl = new Uint8Array(8);
+      const view = new DataView(animationControl.buffer);
+      view.setUint32(0, frameCount);
+      view.setUint32(4, loop ? 0 : 1);
+      return concatBytes([
+        PNG_SIGNATURE,
+        headerChunk(width, height),
+        pngChunk('acTL', animationControl),
+        ...frameChunks,
+        pngChunk('IEND', new Uint8Array(0)),
+      ]);
+    },
+  };
+};
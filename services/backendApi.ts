@@ -20,6 +20,15 @@ export interface TokenEstimate {
   billingRoundedToWholeCredits?: boolean;
 }
 
+// Server-side extraction/sanitization outcome for generate and refine output
+export interface SvgValidation {
+  valid: boolean;
+  issues: string[];
+  // What the server sanitizer stripped, e.g. "<script>" or "onclick on <rect>"
+  removed: string[];
+  discardedCandidates: number;
+}
+
 export interface GenerateResult {
   text: string;
   thoughts: string | null;
@@ -34,6 +43,9 @@ export interface GenerateResult {
   creditPrecisionDecimals?: number;
   usageEstimatedFallback?: boolean;
   billingRoundedToWholeCredits?: boolean;
+  // One entry per drafted candidate when generate ran with candidateCount > 1
+  candidates?: string[];
+  svgValidation?: SvgValidation;
 }
 
 export interface BalanceResult {
@@ -56,8 +68,35 @@ interface EstimateTokenRequest {
   prompt?: string;
   svgCode?: string;
   critique?: string;
+  // Free-text change for the edit action
+  instruction?: string;
   plan?: string;
   iteration?: number;
+  candidateCount?: number;
+}
+
+// Frame timing for an evaluate image that is an animation contact sheet
+interface MotionSampling {
+  timestampsMs: number[];
+  cycleMs: number;
+}
+
+// Visual style applied to every prompt of a run (mirrors StyleGuide in services/prompts.ts)
+interface StyleGuide {
+  name: string;
+  description: string;
+  palette?: string[];
+  strokeWidth?: number;
+  cornerRadius?: number;
+}
+
+// Per-run output limits (mirrors OutputConstraints in services/prompts.ts)
+interface OutputConstraints {
+  canvas?: { width: number; height: number };
+  motion?: 'static' | 'animated';
+  maxElements?: number;
+  maxBytes?: number;
+  monochrome?: boolean;
 }
 
 interface GenerateWithTokensRequest {
@@ -66,9 +105,17 @@ interface GenerateWithTokensRequest {
   prompt?: string;
   svgCode?: string;
   critique?: string;
+  instruction?: string;
   plan?: string;
   imageBase64?: string;
+  // User's reference image or sketch, sent with plan and evaluate
+  referenceImage?: string;
+  candidateImages?: string[];
   iteration?: number;
+  candidateCount?: number;
+  motion?: MotionSampling;
+  style?: StyleGuide;
+  constraints?: OutputConstraints;
 }
 
 interface GetBalanceRequest {}
@@ -86,6 +133,7 @@ type StreamCallbacks = {
   onThoughtChunk?: (chunk: string) => void;
   onOutputChunk?: (chunk: string) => void;
   onStatus?: (status: string) => void;
+  onCandidate?: (index: number) => void;
 };
 
 const getFunctionsBaseUrl = (): string => {
@@ -150,8 +198,10 @@ export const estimateTokenCost = async (
     prompt?: string;
     svgCode?: string;
     critique?: string;
+    instruction?: string;
     plan?: string;
     iteration?: number;
+    candidateCount?: number;
   }
 ): Promise<TokenEstimate> => {
   const fn = httpsCallable<EstimateTokenRequest, TokenEstimate>(functions, "estimateTokenCost");
@@ -167,9 +217,16 @@ export const generateWithTokens = async (
     prompt?: string;
     svgCode?: string;
     critique?: string;
+    instruction?: string;
     plan?: string;
     imageBase64?: string;
+    referenceImage?: string;
+    candidateImages?: string[];
     iteration?: number;
+    candidateCount?: number;
+    motion?: MotionSampling;
+    style?: StyleGuide;
+    constraints?: OutputConstraints;
   }
 ): Promise<GenerateResult> => {
   const fn = httpsCallable<GenerateWithTokensRequest, GenerateResult>(
@@ -189,9 +246,16 @@ export const generateWithTokensStream = async (
     prompt?: string;
     svgCode?: string;
     critique?: string;
+    instruction?: string;
     plan?: string;
     imageBase64?: string;
+    referenceImage?: string;
+    candidateImages?: string[];
     iteration?: number;
+    candidateCount?: number;
+    motion?: MotionSampling;
+    style?: StyleGuide;
+    constraints?: OutputConstraints;
   },
   callbacks?: StreamCallbacks
 ): Promise<GenerateResult> => {
@@ -272,6 +336,9 @@ export const generateWithTokensStream = async (
           } else if (parsed.event === "output") {
             const chunk = typeof payloadData.chunk === "string" ? payloadData.chunk : "";
             if (chunk) callbacks?.onOutputChunk?.(chunk);
+          } else if (parsed.event === "candidate") {
+            const index = typeof payloadData.index === "number" ? payloadData.index : 0;
+            callbacks?.onCandidate?.(index);
           } else if (parsed.event === "complete") {
             completeResult = payloadData as unknown as GenerateResult;
           } else if (parsed.event === "error") {
@@ -0,0 +1,40 @@
+import { extractJsonObject } from './critique';
+
+export const MAX_CANDIDATES = 4;
+
+export const clampCandidateCount = (value: number): number =>
+  Math.min(MAX_CANDIDATES, Math.max(1, Math.floor(Number.isFinite(value) ? value : 1)));
+
+export interface CandidateRanking {
+  // 0-based candidate indices, best first; always covers every candidate exactly once
+  order: number[];
+  reason: string | null;
+}
+
+/** Read the judge's "ranking" (1-based candidate numbers). Unranked candidates keep their original order at the end. */
+export const parseRanking = (text: string, count: number): CandidateRanking => {
+  const parsed = extractJsonObject(text);
+  const json = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  let ranked: number[] = [];
+  let reason: string | null = null;
+
+  if (json) {
+    if (Array.isArray(json.ranking)) {
+      ranked = json.ranking.map((value) => Number(value) - 1);
+    }
+    if (typeof json.rankingReason === 'string') reason = json.rankingReason;
+  } else {
+    // Prose fallback: "Candidate 3 is the strongest..." - take candidates in order of first mention
+    ranked = Array.from(text.matchAll(/candidate\s*#?(\d+)/gi), (match) => Number(match[1]) - 1);
+  }
+
+  const order: number[] = [];
+  ranked.forEach((index) => {
+    if (Number.isInteger(index) && index >= 0 && index < count && !order.includes(index)) order.push(index);
+  });
+  for (let index = 0; index < count; index++) {
+    if (!order.includes(index)) order.push(index);
+  }
+
+  return { order, reason };
+};
@@ -0,0 +1,63 @@
+import { StopConditions } from '../types';
+import { formatCredits, formatTokens } from './tokenManager';
+
+export const DEFAULT_STOP_CONDITIONS: StopConditions = {
+  targetScore: 8.5,
+  patience: 3,
+  maxIterations: 10,
+  maxCredits: null,
+  maxTokens: null,
+};
+
+export interface RunProgress {
+  // Overall score of each evaluated iteration, in order (null when the critic gave none)
+  scores: (number | null)[];
+  iteration: number;
+  tokensSpent: number;
+  creditsSpent: number;
+}
+
+export const createRunProgress = (): RunProgress => ({
+  scores: [],
+  iteration: 0,
+  tokensSpent: 0,
+  creditsSpent: 0,
+});
+
+const isEnabled = (value: number | null): value is number => value !== null && Number.isFinite(value) && value > 0;
+
+/** Returns a human-readable reason when the run should stop, or null to keep refining. */
+export const checkStopConditions = (conditions: StopConditions, progress: RunProgress): string | null => {
+  const latest = progress.scores[progress.scores.length - 1] ?? null;
+
+  if (isEnabled(conditions.targetScore) && latest !== null && latest >= conditions.targetScore) {
+    return `Target quality reached: scored ${latest.toFixed(1)} (target ${conditions.targetScore.toFixed(1)}).`;
+  }
+
+  if (isEnabled(conditions.patience)) {
+    let bestIndex = -1;
+    progress.scores.forEach((score, index) => {
+      if (score === null) return;
+      const best = bestIndex >= 0 ? progress.scores[bestIndex] : null;
+      if (best === null || score > best) bestIndex = index;
+    });
+    const sinceBest = progress.scores.length - 1 - bestIndex;
+    if (bestIndex >= 0 && sinceBest >= conditions.patience) {
+      return `Converged: no score improvement over the last ${sinceBest} iterations (best ${progress.scores[bestIndex]!.toFixed(1)} at iteration #${bestIndex + 1}).`;
+    }
+  }
+
+  if (isEnabled(conditions.maxIterations) && progress.iteration >= conditions.maxIterations) {
+    return `Reached the iteration limit (${conditions.maxIterations}).`;
+  }
+
+  if (isEnabled(conditions.maxCredits) && progress.creditsSpent >= conditions.maxCredits) {
+    return `Spent ${formatCredits(progress.creditsSpent)} GIF credits this session (limit ${formatCredits(conditions.maxCredits)}).`;
+  }
+
+  if (isEnabled(conditions.maxTokens) && progress.tokensSpent >= conditions.maxTokens) {
+    return `Used ${formatTokens(progress.tokensSpent)} tokens this session (limit ${formatTokens(conditions.maxTokens)}).`;
+  }
+
+  return null;
+};
@@ -0,0 +1,219 @@
+import { CritiqueCriterion, CritiqueIssue, CritiqueSeverity, StructuredCritique } from '../types';
+
+export const CRITIQUE_CRITERIA: CritiqueCriterion[] = [
+  'promptAlignment',
+  'aesthetics',
+  'technicalExecution',
+  'animation',
+];
+
+export const CRITERION_LABELS: Record<CritiqueCriterion, string> = {
+  promptAlignment: 'Prompt alignment',
+  aesthetics: 'Aesthetics',
+  technicalExecution: 'Technical execution',
+  animation: 'Animation',
+};
+
+const SEVERITIES: CritiqueSeverity[] = ['high', 'medium', 'low'];
+
+// Keyword hints used when the model answers in prose instead of JSON.
+const CRITERION_KEYWORDS: Record<CritiqueCriterion, RegExp> = {
+  promptAlignment: /\b(alignment|prompt|goal|concept|intent)\b/i,
+  aesthetics: /\b(aesthetic|visual|balance|colou?r|contrast|composition)\w*/i,
+  technicalExecution: /\b(technical|execution|artifact|clipping|path|render)\w*/i,
+  animation: /\b(animat|motion|movement|keyframe)\w*/i,
+};
+
+const MAX_SCORE = 10;
+
+const clampScore = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return null;
+  return Math.round(Math.min(MAX_SCORE, Math.max(0, parsed)) * 10) / 10;
+};
+
+const computeOverall = (scores: Record<CritiqueCriterion, number | null>): number | null => {
+  const available = CRITIQUE_CRITERIA
+    .map((criterion) => scores[criterion])
+    .filter((score): score is number => score !== null);
+  if (available.length === 0) return null;
+  const mean = available.reduce((sum, score) => sum + score, 0) / available.length;
+  return Math.round(mean * 10) / 10;
+};
+
+const inferCriterion = (text: string): CritiqueCriterion | undefined => {
+  return CRITIQUE_CRITERIA.find((criterion) => CRITERION_KEYWORDS[criterion].test(text));
+};
+
+const emptyScores = (): Record<CritiqueCriterion, number | null> => ({
+  promptAlignment: null,
+  aesthetics: null,
+  technicalExecution: null,
+  animation: null,
+});
+
+/** The JSON object in a model reply, preferring a fenced ```json block; null when none parses. */
+export const extractJsonObject = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+const normalizeIssue = (raw: unknown): CritiqueIssue | null => {
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    return text ? { text, criterion: inferCriterion(text) } : null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const record = raw as Record<string, unknown>;
+  const text = typeof record.text === 'string' ? record.text.trim() : '';
+  if (!text) return null;
+
+  const criterion = CRITIQUE_CRITERIA.includes(record.criterion as CritiqueCriterion)
+    ? record.criterion as CritiqueCriterion
+    : inferCriterion(text);
+  const severity = SEVERITIES.includes(record.severity as CritiqueSeverity)
+    ? record.severity as CritiqueSeverity
+    : undefined;
+
+  return { text, criterion, severity };
+};
+
+const parseJsonCritique = (text: string): StructuredCritique | null => {
+  const parsed = extractJsonObject(text);
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const record = parsed as Record<string, unknown>;
+  const rawScores = (record.scores && typeof record.scores === 'object')
+    ? record.scores as Record<string, unknown>
+    : {};
+  const scores = emptyScores();
+  CRITIQUE_CRITERIA.forEach((criterion) => {
+    scores[criterion] = clampScore(rawScores[criterion]);
+  });
+
+  const issues = Array.isArray(record.issues)
+    ? record.issues.map(normalizeIssue).filter((issue): issue is CritiqueIssue => issue !== null)
+    : [];
+
+  if (issues.length === 0 && computeOverall(scores) === null) return null;
+
+  return {
+    scores,
+    overall: computeOverall(scores),
+    summary: typeof record.summary === 'string' && record.summary.trim() ? record.summary.trim() : undefined,
+    issues,
+    parsedFrom: 'json',
+  };
+};
+
+const parseProseCritique = (text: string): StructuredCritique => {
+  const lines = text
+    .replace(/\r/g, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const scores = emptyScores();
+  lines.forEach((line) => {
+    const scoreMatch = line.match(/(\d+(?:\.\d+)?)\s*\/\s*10\b/);
+    if (!scoreMatch) return;
+    const criterion = inferCriterion(line);
+    if (criterion && scores[criterion] === null) {
+      scores[criterion] = clampScore(scoreMatch[1]);
+    }
+  });
+
+  const bulletPattern = /^(?:[-*•]|\d+[.)])\s+/;
+  const bulletLines = lines.filter((line) => bulletPattern.test(line));
+  const issueTexts = (bulletLines.length > 0 ? bulletLines : lines)
+    .map((line) => line.replace(bulletPattern, '').replace(/\*\*/g, '').trim())
+    .filter(Boolean);
+
+  return {
+    scores,
+    overall: computeOverall(scores),
+    issues: issueTexts.map((issueText) => ({ text: issueText, criterion: inferCriterion(issueText) })),
+    parsedFrom: 'prose',
+  };
+};
+
+/** Parse a model evaluation into a scored critique, falling back to bullet scraping for prose. */
+export const parseCritique = (text: string): StructuredCritique => {
+  return parseJsonCritique(text) ?? parseProseCritique(text);
+};
+
+export const formatScore = (score: number | null): string => {
+  return score === null ? 'n/a' : `${score.toFixed(1)}/${MAX_SCORE}`;
+};
+
+/** Human-readable form stored in SVGVersion.critique and shown in the artist notes. */
+export const formatCritiqueText = (critique: StructuredCritique): string => {
+  const scoreLine = CRITIQUE_CRITERIA
+    .filter((criterion) => critique.scores[criterion] !== null)
+    .map((criterion) => `${CRITERION_LABELS[criterion]} ${formatScore(critique.scores[criterion])}`)
+    .join(' | ');
+
+  return [
+    critique.overall !== null ? `Overall ${formatScore(critique.overall)}${scoreLine ? ` (${scoreLine})` : ''}` : '',
+    critique.summary || '',
+    ...critique.issues.map((issue) => `- ${issue.text}`),
+  ].filter(Boolean).join('\n');
+};
+
+/**
+ * Checklist handed to the refine step, most severe and lowest-scoring areas first. Points the user
+ * wrote or upvoted during review lead; downvoted points are listed separately as ones to leave alone.
+ */
+export const formatCritiqueChecklist = (critique: StructuredCritique): string => {
+  const severityRank = (issue: CritiqueIssue) => issue.severity ? SEVERITIES.indexOf(issue.severity) : 1;
+  const userRank = (issue: CritiqueIssue) => (issue.addedByUser || issue.vote === 'up' ? 0 : 1);
+  const sorted = critique.issues
+    .filter((issue) => issue.vote !== 'down')
+    .sort((a, b) => userRank(a) - userRank(b) || severityRank(a) - severityRank(b));
+  const rejected = critique.issues.filter((issue) => issue.vote === 'down');
+
+  const scoreLines = CRITIQUE_CRITERIA
+    .filter((criterion) => critique.scores[criterion] !== null)
+    .map((criterion) => `- ${CRITERION_LABELS[criterion]}: ${formatScore(critique.scores[criterion])}`);
+
+  return [
+    ...(scoreLines.length > 0 ? ['Current scores:', ...scoreLines, ''] : []),
+    'Checklist (fix every item):',
+    ...sorted.map((issue) => {
+      const tags = [
+        issue.addedByUser ? 'FROM USER' : issue.vote === 'up' ? 'USER AGREES' : null,
+        issue.severity ? issue.severity.toUpperCase() : null,
+        issue.criterion ? CRITERION_LABELS[issue.criterion] : null,
+      ].filter(Boolean).join(', ');
+      return `[ ] ${tags ? `(${tags}) ` : ''}${issue.text}`;
+    }),
+    ...(rejected.length > 0
+      ? ['', 'The user disagrees with these points; do not act on them:', ...rejected.map((issue) => `- ${issue.text}`)]
+      : []),
+  ].join('\n');
+};
+
+// User preference stored in localStorage
+const REVIEW_CRITIQUE_KEY = 'sketch_ai_review_critique';
+
+export const getReviewCritique = (): boolean => {
+  try {
+    return localStorage.getItem(REVIEW_CRITIQUE_KEY) === 'true';
+  } catch {
+    // localStorage not available (privacy mode, etc.)
+    return false;
+  }
+};
+
+export const setReviewCritique = (enabled: boolean): void => {
+  localStorage.setItem(REVIEW_CRITIQUE_KEY, String(enabled));
+};
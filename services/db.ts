@@ -1,8 +1,43 @@
-import { SVGVersion } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { SVGSession, SVGVersion } from '../types';
+import { pickBestVersionId } from './sessions';
 
 const DB_NAME = 'SVGRefinerDB';
 const STORE_NAME = 'versions';
-const DB_VERSION = 1;
+const SESSION_STORE_NAME = 'sessions';
+const DB_VERSION = 2;
+
+// v1 -> v2: versions predate sessions, so group them by prompt into backfilled sessions.
+const backfillSessions = (transaction: IDBTransaction) => {
+  const versionStore = transaction.objectStore(STORE_NAME);
+  const sessionStore = transaction.objectStore(SESSION_STORE_NAME);
+  const request = versionStore.getAll();
+
+  request.onsuccess = () => {
+    const groups = new Map<string, SVGVersion[]>();
+    (request.result as SVGVersion[]).forEach((version) => {
+      const key = version.sessionId ? `id:${version.sessionId}` : `prompt:${version.prompt}`;
+      const group = groups.get(key) || [];
+      group.push(version);
+      groups.set(key, group);
+    });
+
+    groups.forEach((group) => {
+      const sessionId = group[0].sessionId || uuidv4();
+      const session: SVGSession = {
+        id: sessionId,
+        prompt: group[0].prompt,
+        plan: null,
+        createdAt: Math.min(...group.map((v) => v.timestamp)),
+        bestVersionId: pickBestVersionId(group),
+      };
+      sessionStore.put(session);
+      group
+        .filter((version) => !version.sessionId)
+        .forEach((version) => versionStore.put({ ...version, sessionId }));
+    });
+  };
+};
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -17,10 +52,17 @@ export const initDB = (): Promise<IDBDatabase> => {
     };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+      const openRequest = event.target as IDBOpenDBRequest;
+      const db = openRequest.result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) {
+        db.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+        if (event.oldVersion >= 1 && openRequest.transaction) {
+          backfillSessions(openRequest.transaction);
+        }
+      }
     };
   });
 };
@@ -53,6 +95,18 @@ export const getAllVersions = async (): Promise<SVGVersion[]> => {
   });
 };
 
+export const getVersion = async (id: string): Promise<SVGVersion | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result as SVGVersion | undefined);
+    request.onerror = () => reject('Error fetching version');
+  });
+};
+
 export const deleteVersion = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
@@ -65,13 +119,52 @@ export const deleteVersion = async (id: string): Promise<void> => {
   });
 };
 
+export const saveSession = async (session: SVGSession): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.put(session);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error saving session');
+  });
+};
+
+export const getAllSessions = async (): Promise<SVGSession[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      const results = (request.result as SVGSession[]).sort((a, b) => b.createdAt - a.createdAt);
+      resolve(results);
+    };
+    request.onerror = () => reject('Error fetching sessions');
+  });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error deleting session');
+  });
+};
+
 export const clearHistory = async (): Promise<void> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.clear();
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject('Error clearing history');
+        const transaction = db.transaction([STORE_NAME, SESSION_STORE_NAME], 'readwrite');
+        transaction.objectStore(STORE_NAME).clear();
+        transaction.objectStore(SESSION_STORE_NAME).clear();
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject('Error clearing history');
     });
-}
\ No newline at end of file
+}
@@ -1,13 +1,37 @@
-import { GoogleGenAI } from "@google/genai";
-import type { GenerateContentParameters } from "@google/genai";
-import { getApiKeyOrThrow } from './apiKeyStorage';
 import { isTokenMode } from './platform';
 import * as backendApi from './backendApi';
 import { updateLocalBalance } from './tokenManager';
+import { replayStreamedText } from './modelProvider';
+import type { ModelProvider, OutputCallback, ProviderResult, ProviderUsage, ThoughtCallback } from './modelProvider';
+import { getActiveProvider, resetProviders } from './providerRegistry';
+import { buildEstimatePrompt } from './prompts';
+import type { MotionSampling, OutputConstraints, StyleGuide } from './prompts';
+import { formatCritiqueChecklist, parseCritique } from './critique';
+import { clampCandidateCount, parseRanking } from './candidates';
+import type { CandidateRanking } from './candidates';
+import { extractSvg, SvgExtractionError } from './svgExtractor';
+import type { SvgExtraction, SvgRepair } from './svgExtractor';
+import type { StructuredCritique } from '../types';
+
+export type { ThoughtCallback, OutputCallback } from './modelProvider';
+
+export type GeminiResult = ProviderResult;
+
+export interface EvaluationResult extends GeminiResult {
+  critique: StructuredCritique;
+}
+
+export interface SvgResult extends GeminiResult {
+  // What the extractor had to fix in the raw model output
+  repairs: SvgRepair[];
+}
 
-export interface GeminiResult {
-  text: string;
-  thoughts: string | null;
+export interface CandidateGenerationResult extends SvgResult {
+  candidates: string[];
+}
+
+export interface RankingResult extends EvaluationResult {
+  ranking: CandidateRanking;
 }
 
 export interface TokenEstimateResult {
@@ -21,186 +45,43 @@ export interface TokenEstimateResult {
   billingRoundedToWholeCredits: boolean;
 }
 
-export type ThoughtCallback = (thoughtChunk: string) => void;
-export type OutputCallback = (outputChunk: string) => void;
-
-const streamWithThoughts = async (
-  params: GenerateContentParameters,
-  onThought?: ThoughtCallback,
-  onOutput?: OutputCallback
-): Promise<GeminiResult> => {
-  const stream = await getAI().models.generateContentStream(params);
-
-  let accumulatedText = '';
-  let accumulatedThoughts = '';
-
-  for await (const chunk of stream) {
-    const parts = chunk.candidates?.[0]?.content?.parts;
-    if (!parts) continue;
-
-    for (const part of parts) {
-      if (part.thought && part.text) {
-        accumulatedThoughts += part.text;
-        onThought?.(part.text);
-      } else if (part.text) {
-        accumulatedText += part.text;
-        onOutput?.(part.text);
-      }
-    }
-  }
-
-  return {
-    text: accumulatedText,
-    thoughts: accumulatedThoughts || null,
-  };
-};
-
-const MODEL_REASONING = 'gemini-3.1-pro-preview';
-const MODEL_VISION = 'gemini-3.1-pro-preview'; 
-
-const replayStreamedText = async (
-  text: string,
-  onChunk: ((chunk: string) => void) | undefined,
-  options?: { chunkSize?: number; delayMs?: number }
-): Promise<void> => {
-  if (!text || !onChunk) return;
-  const chunkSize = Math.max(32, Math.floor(options?.chunkSize ?? 320));
-  const delayMs = Math.max(0, Math.floor(options?.delayMs ?? 8));
-
-  for (let offset = 0; offset < text.length; offset += chunkSize) {
-    onChunk(text.slice(offset, offset + chunkSize));
-    if (delayMs > 0) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-};
-
-// Get API key from storage or use dev fallback in development only
-const getApiKey = (): string => {
-  try {
-    return getApiKeyOrThrow();
-  } catch (e) {
-    // Only allow fallback in development mode
-    if (import.meta.env.DEV && import.meta.env.VITE_GEMINI_API_KEY) {
-      console.warn('Using development fallback API key');
-      return import.meta.env.VITE_GEMINI_API_KEY;
-    }
-    throw e;
-  }
+// Cloud credits only apply to the networked providers; the offline stand-in always runs locally.
+const resolveProvider = (): { provider: ModelProvider; useBackend: boolean } => {
+  const provider = getActiveProvider();
+  return { provider, useBackend: provider.requiresNetwork && isTokenMode() };
 };
 
-let ai: GoogleGenAI | undefined;
-
-// Initialize the API client lazily
-const getAI = (): GoogleGenAI => {
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: getApiKey() });
-  }
-  return ai;
-};
+const backendUsage = (result: backendApi.GenerateResult): ProviderUsage => ({
+  totalTokens: result.tokensUsed || 0,
+  credits: result.chargedCreditsThisAction || 0,
+});
 
-// Reset the API client (useful when API key changes)
+// Reset the API clients (useful when API key changes)
 export const resetAI = (): void => {
-  ai = undefined;
+  resetProviders();
 };
 
-const cleanSVGCode = (text: string): string => {
-  let clean = text;
-
-  // 1. Remove Markdown blocks (handle standard and malformed blocks)
-  const markdownRegex = /```(?:xml|svg|html|jsx|tsx|javascript|typescript)?\s*([\s\S]*?)\s*```/i;
-  const match = clean.match(markdownRegex);
-  if (match && match[1]) {
-    clean = match[1].trim();
-  }
+// Pull the SVG out of the raw model text. Throws SvgExtractionError when nothing usable came back;
+// retryOperation passes that straight through so the refinement loop's retry policy decides what happens.
+const withExtractedSvg = <T extends ProviderResult>(result: T): T & SvgResult => {
+  const { svgCode, repairs } = extractSvg(result.text);
+  return { ...result, text: svgCode, repairs };
+};
 
-  // 2. Decode HTML entities (in case of copy-paste from rendered HTML)
-  clean = clean.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"');
-
-  // 3. Extract SVG Tag (Strict Mode)
-  // We look for the first <svg ...> and the last matching </svg>, or a self-closing />
-  const svgStartRegex = /<svg[\s\S]*?>/i;
-  const startMatch = clean.match(svgStartRegex);
-
-  if (startMatch) {
-    const startIndex = startMatch.index!;
-    const startTag = startMatch[0];
-    
-    // Check if the start tag itself is self-closing (e.g., <svg ... />)
-    if (startTag.trim().endsWith('/>')) {
-       clean = startTag;
-    } else {
-       // Look for the closing tag starting from the match
-       const remainder = clean.substring(startIndex);
-       const svgEndRegex = /<\/\s*svg>/i;
-       const endMatch = remainder.match(svgEndRegex);
-       
-       if (endMatch) {
-          const endIndex = endMatch.index! + endMatch[0].length;
-          clean = remainder.substring(0, endIndex);
-       } else {
-          // If no closing tag found, we assume the content is the SVG but might be truncated or malformed.
-          // We take the remainder as a best effort.
-          clean = remainder;
-       }
-    }
+// The backend already extracted and sanitized the SVG; an invalid result carries no usable markup.
+// Surfacing it as an extraction error lets the refinement loop retry it like a local failure.
+const assertBackendSvgValid = (result: backendApi.GenerateResult): void => {
+  if (result.svgValidation?.valid === false) {
+    throw new SvgExtractionError('malformed', `The server rejected the SVG output: ${result.svgValidation.issues.join(' ')}`);
   }
-
-  // 4. Aggressive React/JS Artifact Cleaning
-  // Even if extraction worked, sometimes artifacts remain inside or around if regex matched weirdly.
-  clean = clean.replace(/export\s+default\s+function\s*[\w]*\s*\([\s\S]*?\)\s*\{/gi, '');
-  clean = clean.replace(/export\s+default\s+\([\s\S]*?\)\s*=>\s*\(?/gi, '');
-  clean = clean.replace(/const\s+[\w]+\s*=\s*\([\s\S]*?\)\s*=>\s*\(?/gi, '');
-  clean = clean.replace(/^[\s\S]*?=>\s*\(\s*/, ''); // Removes artifact like "> = (props) => ("
-  clean = clean.replace(/^[\s\S]*?return\s*\(\s*/, ''); 
-  
-  // 5. Clean React-specific Props
-  clean = clean.replace(/\{\s*\.\.\.\s*props\s*\}/gi, '');
-  clean = clean.replace(/\sclassName=/g, ' class=');
-  clean = clean.replace(/\shtmlFor=/g, ' for=');
-  clean = clean.replace(/\sref=\{[^}]+\}/g, '');
-  clean = clean.replace(/\skey=\{[^}]+\}/g, '');
-
-  // 6. Convert CamelCase Attributes -> SVG Kebab-Case
-  const replacements: [RegExp, string][] = [
-    [/\sstrokeWidth=/g, ' stroke-width='],
-    [/\sstrokeLinecap=/g, ' stroke-linecap='],
-    [/\sstrokeLinejoin=/g, ' stroke-linejoin='],
-    [/\sstrokeMiterlimit=/g, ' stroke-miterlimit='],
-    [/\sstrokeDasharray=/g, ' stroke-dasharray='],
-    [/\sstrokeDashoffset=/g, ' stroke-dashoffset='],
-    [/\sstrokeOpacity=/g, ' stroke-opacity='],
-    [/\sfillOpacity=/g, ' fill-opacity='],
-    [/\sfillRule=/g, ' fill-rule='],
-    [/\sclipPath=/g, ' clip-path='],
-    [/\sclipRule=/g, ' clip-rule='],
-    [/\sstopColor=/g, ' stop-color='],
-    [/\sstopOpacity=/g, ' stop-opacity='],
-    [/\sfloodColor=/g, ' flood-color='],
-    [/\sfloodOpacity=/g, ' flood-opacity='],
-    [/\slightingColor=/g, ' lighting-color='],
-    [/\stextAnchor=/g, ' text-anchor='],
-    [/\sdominantBaseline=/g, ' dominant-baseline='],
-    [/\salignmentBaseline=/g, ' alignment-baseline='],
-    [/\spointerEvents=/g, ' pointer-events='],
-    [/\svectorEffect=/g, ' vector-effect='],
-  ];
-
-  replacements.forEach(([regex, replacement]) => {
-    clean = clean.replace(regex, replacement);
-  });
-
-  // Standardize viewBox to camelCase (SVG standard)
-  clean = clean.replace(/\sviewbox=/g, ' viewBox=');
-
-  return clean.trim();
 };
 
 const retryOperation = async <T>(operation: () => Promise<T>, retries = 3, delay = 2000): Promise<T> => {
   try {
     return await operation();
   } catch (error: any) {
-    if (retries <= 0) throw error;
+    // Unusable output is not a transient API failure; re-requesting here would stack on the loop's own retries
+    if (retries <= 0 || error instanceof SvgExtractionError) throw error;
     console.warn(`API call failed, retrying in ${delay}ms...`, error);
     await new Promise(res => setTimeout(res, delay));
     return retryOperation(operation, retries - 1, delay * 2);
@@ -210,77 +91,159 @@ const retryOperation = async <T>(operation: () => Promise<T>, retries = 3, delay
 export const planSVG = async (
   userPrompt: string,
   onThought?: ThoughtCallback,
-  sessionId?: string
+  sessionId?: string,
+  candidateCount = 1,
+  style?: StyleGuide,
+  constraints?: OutputConstraints,
+  referenceImage?: string
 ): Promise<GeminiResult> => {
-  if (isTokenMode()) {
+  const { provider, useBackend } = resolveProvider();
+  if (useBackend) {
     if (!sessionId) throw new Error('Missing generation session.');
-    const result = await backendApi.generateWithTokens('plan', sessionId, { prompt: userPrompt });
+    // The plan reservation covers every candidate the follow-up generate will draft
+    const result = await backendApi.generateWithTokens('plan', sessionId, {
+      prompt: userPrompt,
+      candidateCount: clampCandidateCount(candidateCount),
+      style,
+      constraints,
+      referenceImage,
+    });
     updateLocalBalance(result.remainingBalance);
     await replayStreamedText(result.thoughts || '', onThought, { chunkSize: 220, delayMs: 8 });
-    return { text: result.text, thoughts: result.thoughts };
+    return { text: result.text, thoughts: result.thoughts, usage: backendUsage(result) };
   }
 
-  return retryOperation(async () => {
-    return streamWithThoughts({
-      model: MODEL_REASONING,
-      contents: `You are an expert SVG artist and planner.
-      The user has provided an ambiguous prompt: "${userPrompt}".
-
-      1. Analyze the intent and potential artistic directions.
-      2. Create a detailed technical plan for an SVG that embodies this concept.
-      3. Focus on composition, color palette, and shapes.
-      4. Keep the SVG complexity manageable but visually striking.
-      5. Consider whether CSS keyframe animations would enhance the concept (e.g., for characters in motion, spinning elements, pulsing effects, or any dynamic subject). If animation would add value, include it in the plan.
-
-      Output the plan as a concise paragraph.`,
-      config: {
-        thinkingConfig: { includeThoughts: true },
-      },
-    }, onThought);
-  });
+  return retryOperation(() => provider.plan({ prompt: userPrompt, style, constraints, referenceImage }, { onThought }));
 };
 
 export const generateInitialSVG = async (
   plan: string,
   onThought?: ThoughtCallback,
   sessionId?: string,
-  onOutput?: OutputCallback
-): Promise<GeminiResult> => {
-  if (isTokenMode()) {
+  onOutput?: OutputCallback,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): Promise<SvgResult> => {
+  const { provider, useBackend } = resolveProvider();
+  if (useBackend) {
     if (!sessionId) throw new Error('Missing generation session.');
     const result = await backendApi.generateWithTokensStream(
       'generate',
       sessionId,
-      { plan },
+      { plan, style, constraints },
       {
         onThoughtChunk: onThought,
         onOutputChunk: onOutput,
       }
     );
     updateLocalBalance(result.remainingBalance);
-    return { text: cleanSVGCode(result.text), thoughts: result.thoughts };
+    assertBackendSvgValid(result);
+    return withExtractedSvg({ text: result.text, thoughts: result.thoughts, usage: backendUsage(result) });
   }
 
   return retryOperation(async () => {
-    const result = await streamWithThoughts({
-      model: MODEL_REASONING,
-      contents: `Create a single SVG file based on this plan: "${plan}".
-
-      Requirements:
-      - Use standard SVG syntax.
-      - Ensure it is scalable (viewBox).
-      - Use vibrant colors and clean paths.
-      - Do not use external CSS files or JavaScript. Inline styles are fine.
-      - If the plan calls for animation or motion, use CSS keyframe animations inside a <defs><style> block.
-      - For animations, set appropriate transform-origin values and use smooth easing functions (ease-in-out).
-      - For animations, only animate SVG-safe properties (transform, opacity, fill, stroke).
-      - Return ONLY the SVG code.`,
-      config: {
-        thinkingConfig: { includeThoughts: true },
-      },
-    }, onThought, onOutput);
-    return { text: cleanSVGCode(result.text), thoughts: result.thoughts };
+    const result = await provider.generate({ plan, style, constraints }, { onThought, onOutput });
+    return withExtractedSvg(result);
+  });
+};
+
+export const generateCandidateSVGs = async (
+  plan: string,
+  count: number,
+  onThought?: ThoughtCallback,
+  sessionId?: string,
+  onOutput?: OutputCallback,
+  onCandidate?: (index: number) => void,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): Promise<CandidateGenerationResult> => {
+  const { provider, useBackend } = resolveProvider();
+  const candidateCount = clampCandidateCount(count);
+  if (useBackend) {
+    if (!sessionId) throw new Error('Missing generation session.');
+    const result = await backendApi.generateWithTokensStream(
+      'generate',
+      sessionId,
+      { plan, candidateCount, style, constraints },
+      {
+        onThoughtChunk: onThought,
+        onOutputChunk: onOutput,
+        onCandidate,
+      }
+    );
+    updateLocalBalance(result.remainingBalance);
+    assertBackendSvgValid(result);
+    // Drafts that cannot be salvaged are dropped; the run only fails when none survive
+    const extracted: SvgExtraction[] = [];
+    let firstError: unknown = null;
+    (result.candidates?.length ? result.candidates : [result.text]).forEach((text) => {
+      try {
+        extracted.push(extractSvg(text));
+      } catch (error) {
+        firstError ??= error;
+      }
+    });
+    if (extracted.length === 0) throw firstError;
+    const candidates = extracted.map(({ svgCode }) => svgCode);
+    return {
+      text: candidates[0],
+      thoughts: result.thoughts,
+      usage: backendUsage(result),
+      candidates,
+      repairs: extracted.flatMap(({ repairs }) => repairs),
+    };
+  }
+
+  const candidates: string[] = [];
+  const repairs: SvgRepair[] = [];
+  let thoughts = '';
+  let totalTokens = 0;
+  for (let index = 0; index < candidateCount; index++) {
+    onCandidate?.(index);
+    const result = await retryOperation(async () => withExtractedSvg(await provider.generate(
+      { plan, candidate: { index, count: candidateCount }, style, constraints },
+      { onThought, onOutput }
+    )));
+    candidates.push(result.text);
+    repairs.push(...result.repairs);
+    thoughts += result.thoughts || '';
+    totalTokens += result.usage?.totalTokens || 0;
+  }
+  return { text: candidates[0], thoughts: thoughts || null, usage: { totalTokens }, candidates, repairs };
+};
+
+export const rankCandidates = async (
+  imagesBase64: string[],
+  originalPrompt: string,
+  iteration: number,
+  onThought?: ThoughtCallback,
+  sessionId?: string,
+  style?: StyleGuide
+): Promise<RankingResult> => {
+  const { provider, useBackend } = resolveProvider();
+  const withRanking = (result: GeminiResult): RankingResult => ({
+    ...result,
+    critique: parseCritique(result.text),
+    ranking: parseRanking(result.text, imagesBase64.length),
   });
+
+  if (useBackend) {
+    if (!sessionId) throw new Error('Missing generation session.');
+    // Ranking bills as the evaluate half of the evaluate -> refine pair
+    const result = await backendApi.generateWithTokens('evaluate', sessionId, {
+      prompt: originalPrompt,
+      candidateImages: imagesBase64,
+      iteration,
+      style,
+    });
+    updateLocalBalance(result.remainingBalance);
+    await replayStreamedText(result.thoughts || '', onThought, { chunkSize: 220, delayMs: 8 });
+    return withRanking({ text: result.text, thoughts: result.thoughts, usage: backendUsage(result) });
+  }
+
+  return retryOperation(async () => withRanking(
+    await provider.rank({ imagesBase64, prompt: originalPrompt, iteration, style }, { onThought })
+  ));
 };
 
 export const evaluateSVG = async (
@@ -288,65 +251,54 @@ export const evaluateSVG = async (
   originalPrompt: string,
   iteration: number,
   onThought?: ThoughtCallback,
-  sessionId?: string
-): Promise<GeminiResult> => {
-  if (isTokenMode()) {
+  sessionId?: string,
+  motion?: MotionSampling,
+  style?: StyleGuide,
+  referenceImage?: string
+): Promise<EvaluationResult> => {
+  const { provider, useBackend } = resolveProvider();
+  if (useBackend) {
     if (!sessionId) throw new Error('Missing generation session.');
     const result = await backendApi.generateWithTokens('evaluate', sessionId, {
       prompt: originalPrompt,
       imageBase64,
       iteration,
+      motion,
+      style,
+      referenceImage,
     });
     updateLocalBalance(result.remainingBalance);
     await replayStreamedText(result.thoughts || '', onThought, { chunkSize: 220, delayMs: 8 });
-    return { text: result.text, thoughts: result.thoughts };
+    return {
+      text: result.text,
+      thoughts: result.thoughts,
+      usage: backendUsage(result),
+      critique: parseCritique(result.text),
+    };
   }
 
   return retryOperation(async () => {
-    const base64Data = imageBase64.replace(/^data:image\/[^;]+;base64,/i, "").trim();
-
-    return streamWithThoughts({
-      model: MODEL_VISION,
-      contents: {
-        parts: [
-            {
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: base64Data
-                }
-            },
-            {
-                text: `You are a strict Senior Design Critic.
-                Analyze this rendered SVG (Iteration #${iteration}).
-                The original goal was: "${originalPrompt}".
-
-                Critique the image based on:
-                1. Alignment with the prompt.
-                2. Visual aesthetics (balance, color, contrast).
-                3. Technical execution (if visible artifacts exist).
-                4. Animation quality (if present): smoothness, realism, and whether the motion enhances or distracts from the design.
-
-                Be harsh but constructive. Point out exactly what looks wrong, amateurish, or broken.
-                Limit your critique to 3-4 concise, actionable bullet points.`
-            }
-        ]
-      },
-      config: {
-        thinkingConfig: { includeThoughts: true },
-      },
-    }, onThought);
+    const result = await provider.evaluate(
+      { imageBase64, prompt: originalPrompt, iteration, motion, style, referenceImage },
+      { onThought }
+    );
+    return { ...result, critique: parseCritique(result.text) };
   });
 };
 
 export const refineSVG = async (
   currentSvgCode: string,
-  critique: string,
+  critique: StructuredCritique,
   originalPrompt: string,
   onThought?: ThoughtCallback,
   sessionId?: string,
-  onOutput?: OutputCallback
-): Promise<GeminiResult> => {
-  if (isTokenMode()) {
+  onOutput?: OutputCallback,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): Promise<SvgResult> => {
+  const { provider, useBackend } = resolveProvider();
+  const checklist = formatCritiqueChecklist(critique);
+  if (useBackend) {
     if (!sessionId) throw new Error('Missing generation session.');
     const result = await backendApi.generateWithTokensStream(
       'refine',
@@ -354,7 +306,9 @@ export const refineSVG = async (
       {
         prompt: originalPrompt,
         svgCode: currentSvgCode,
-        critique,
+        critique: checklist,
+        style,
+        constraints,
       },
       {
         onThoughtChunk: onThought,
@@ -362,44 +316,75 @@ export const refineSVG = async (
       }
     );
     updateLocalBalance(result.remainingBalance);
-    return { text: cleanSVGCode(result.text), thoughts: result.thoughts };
+    assertBackendSvgValid(result);
+    return withExtractedSvg({ text: result.text, thoughts: result.thoughts, usage: backendUsage(result) });
   }
 
   return retryOperation(async () => {
-    const result = await streamWithThoughts({
-      model: MODEL_REASONING,
-      contents: `You are an expert SVG Coder.
-
-      Original Goal: "${originalPrompt}"
-
-      Current SVG Code:
-      \`\`\`xml
-      ${currentSvgCode}
-      \`\`\`
-
-      Critique to address:
-      ${critique}
-
-      Task:
-      Rewrite the SVG code to fix the issues mentioned in the critique and improve the overall quality.
-      - Keep the code clean and efficient.
-      - Ensure valid XML.
-      - If the current SVG uses CSS keyframe animations, preserve and improve them. Do not remove animation unless the critique explicitly asks for it.
-      - Do not use external CSS files or JavaScript.
-      - Return ONLY the new SVG code.`,
-      config: {
-        thinkingConfig: { includeThoughts: true },
+    const result = await provider.refine(
+      { svgCode: currentSvgCode, critique: checklist, prompt: originalPrompt, style, constraints },
+      { onThought, onOutput }
+    );
+    return withExtractedSvg(result);
+  });
+};
+
+/** Apply a user's free-text instruction to an existing SVG; billed as its own edit action. */
+export const editSVG = async (
+  currentSvgCode: string,
+  instruction: string,
+  originalPrompt: string,
+  onThought?: ThoughtCallback,
+  sessionId?: string,
+  onOutput?: OutputCallback,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): Promise<SvgResult> => {
+  const { provider, useBackend } = resolveProvider();
+  if (useBackend) {
+    if (!sessionId) throw new Error('Missing generation session.');
+    const result = await backendApi.generateWithTokensStream(
+      'edit',
+      sessionId,
+      {
+        prompt: originalPrompt,
+        svgCode: currentSvgCode,
+        instruction,
+        style,
+        constraints,
       },
-    }, onThought, onOutput);
-    return { text: cleanSVGCode(result.text), thoughts: result.thoughts };
+      {
+        onThoughtChunk: onThought,
+        onOutputChunk: onOutput,
+      }
+    );
+    updateLocalBalance(result.remainingBalance);
+    assertBackendSvgValid(result);
+    return withExtractedSvg({ text: result.text, thoughts: result.thoughts, usage: backendUsage(result) });
+  }
+
+  return retryOperation(async () => {
+    const result = await provider.edit(
+      { svgCode: currentSvgCode, instruction, prompt: originalPrompt, style, constraints },
+      { onThought, onOutput }
+    );
+    return withExtractedSvg(result);
   });
 };
 
 // ===== COST ESTIMATION =====
 
-export const estimateFullCycleCost = async (prompt: string): Promise<TokenEstimateResult> => {
-  if (isTokenMode()) {
-    const planEstimate = await backendApi.estimateTokenCost('plan', { prompt });
+// Rough output budget for each extra drafted candidate in the local estimate
+const EXTRA_CANDIDATE_OUTPUT_TOKENS = 6000;
+
+export const estimateFullCycleCost = async (prompt: string, candidateCount = 1): Promise<TokenEstimateResult> => {
+  const { provider, useBackend } = resolveProvider();
+  const extraCandidates = clampCandidateCount(candidateCount) - 1;
+  if (useBackend) {
+    const planEstimate = await backendApi.estimateTokenCost('plan', {
+      prompt,
+      candidateCount: extraCandidates + 1,
+    });
     const estimatedInputTokens = Math.max(
       0,
       Math.ceil(planEstimate.estimatedPairInputTokens ?? planEstimate.estimatedInputTokens ?? 0)
@@ -434,18 +419,14 @@ export const estimateFullCycleCost = async (prompt: string): Promise<TokenEstima
     };
   }
 
-  // API key mode: use countTokens directly for informational estimate
+  // API key / offline mode: use the provider's countTokens for an informational estimate
   try {
-    const ai = getAI();
-    const countResult = await ai.models.countTokens({
-      model: MODEL_REASONING,
-      contents: `Plan SVG for: "${prompt}"`,
-    });
-    const inputTokens = countResult.totalTokens || 0;
-    const estimatedOutputTokens = 7500;
-    const estimatedTotalTokens = (inputTokens * 4) + estimatedOutputTokens;
+    const inputTokens = await provider.countTokens(buildEstimatePrompt(prompt));
+    const estimatedInputTokens = inputTokens * (4 + extraCandidates);
+    const estimatedOutputTokens = 7500 + extraCandidates * EXTRA_CANDIDATE_OUTPUT_TOKENS;
+    const estimatedTotalTokens = estimatedInputTokens + estimatedOutputTokens;
     return {
-      estimatedInputTokens: inputTokens * 4,
+      estimatedInputTokens,
       estimatedOutputTokens,
       estimatedTotalTokens,
       estimatedGifCredits: 0,
@@ -457,8 +438,8 @@ export const estimateFullCycleCost = async (prompt: string): Promise<TokenEstima
   } catch {
     // Fallback estimate based on prompt length
     const roughTokens = Math.ceil(prompt.length / 4);
-    const estimatedInputTokens = roughTokens * 4 + 2000;
-    const estimatedOutputTokens = 7500;
+    const estimatedInputTokens = roughTokens * (4 + extraCandidates) + 2000;
+    const estimatedOutputTokens = 7500 + extraCandidates * EXTRA_CANDIDATE_OUTPUT_TOKENS;
     return {
       estimatedInputTokens,
       estimatedOutputTokens,
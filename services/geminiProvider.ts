@@ -0,0 +1,180 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentParameters } from "@google/genai";
+import { getApiKeyOrThrow } from './apiKeyStorage';
+import { buildEditPrompt, buildEvaluatePrompt, buildGeneratePrompt, buildPlanPrompt, buildRankPrompt, buildRefinePrompt } from './prompts';
+import type { ModelProvider, OutputCallback, ProviderResult, ThoughtCallback } from './modelProvider';
+
+export const DEFAULT_REASONING_MODEL = 'gemini-3.1-pro-preview';
+export const DEFAULT_VISION_MODEL = 'gemini-3.1-pro-preview';
+
+export interface GeminiProviderOptions {
+  reasoningModel?: string;
+  visionModel?: string;
+}
+
+// Get API key from storage or use dev fallback in development only
+const getApiKey = (): string => {
+  try {
+    return getApiKeyOrThrow();
+  } catch (e) {
+    // Only allow fallback in development mode
+    if (import.meta.env.DEV && import.meta.env.VITE_GEMINI_API_KEY) {
+      console.warn('Using development fallback API key');
+      return import.meta.env.VITE_GEMINI_API_KEY;
+    }
+    throw e;
+  }
+};
+
+const stripDataUrl = (imageBase64: string): string =>
+  imageBase64.replace(/^data:image\/[^;]+;base64,/i, "").trim();
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): ModelProvider => {
+  const reasoningModel = options.reasoningModel || DEFAULT_REASONING_MODEL;
+  const visionModel = options.visionModel || DEFAULT_VISION_MODEL;
+  let ai: GoogleGenAI | undefined;
+
+  // Initialize the API client lazily
+  const getAI = (): GoogleGenAI => {
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey: getApiKey() });
+    }
+    return ai;
+  };
+
+  const streamWithThoughts = async (
+    params: GenerateContentParameters,
+    onThought?: ThoughtCallback,
+    onOutput?: OutputCallback
+  ): Promise<ProviderResult> => {
+    const stream = await getAI().models.generateContentStream(params);
+
+    let accumulatedText = '';
+    let accumulatedThoughts = '';
+    let totalTokens = 0;
+
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata?.totalTokenCount) {
+        totalTokens = chunk.usageMetadata.totalTokenCount;
+      }
+      const parts = chunk.candidates?.[0]?.content?.parts;
+      if (!parts) continue;
+
+      for (const part of parts) {
+        if (part.thought && part.text) {
+          accumulatedThoughts += part.text;
+          onThought?.(part.text);
+        } else if (part.text) {
+          accumulatedText += part.text;
+          onOutput?.(part.text);
+        }
+      }
+    }
+
+    return {
+      text: accumulatedText,
+      thoughts: accumulatedThoughts || null,
+      usage: { totalTokens },
+    };
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    requiresNetwork: true,
+
+    plan: ({ prompt, style, constraints, referenceImage }, callbacks) => streamWithThoughts({
+      model: referenceImage ? visionModel : reasoningModel,
+      contents: referenceImage
+        ? {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: stripDataUrl(referenceImage) } },
+            { text: buildPlanPrompt(prompt, style, constraints, true) },
+          ]
+        }
+        : buildPlanPrompt(prompt, style, constraints),
+      config: {
+        thinkingConfig: { includeThoughts: true },
+      },
+    }, callbacks?.onThought),
+
+    generate: ({ plan, candidate, style, constraints }, callbacks) => streamWithThoughts({
+      model: reasoningModel,
+      contents: buildGeneratePrompt(plan, candidate, style, constraints),
+      config: {
+        thinkingConfig: { includeThoughts: true },
+      },
+    }, callbacks?.onThought, callbacks?.onOutput),
+
+    evaluate: ({ imageBase64, prompt, iteration, motion, style, referenceImage }, callbacks) => {
+      const base64Data = stripDataUrl(imageBase64);
+
+      return streamWithThoughts({
+        model: visionModel,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: 'image/png',
+                data: base64Data
+              }
+            },
+            ...(referenceImage
+              ? [{ inlineData: { mimeType: 'image/png', data: stripDataUrl(referenceImage) } }]
+              : []),
+            {
+              text: buildEvaluatePrompt(prompt, iteration, motion, style, !!referenceImage)
+            }
+          ]
+        },
+        config: {
+          thinkingConfig: { includeThoughts: true },
+        },
+      }, callbacks?.onThought);
+    },
+
+    rank: ({ imagesBase64, prompt, style }, callbacks) => streamWithThoughts({
+      model: visionModel,
+      contents: {
+        parts: [
+          ...imagesBase64.flatMap((imageBase64, index) => [
+            { text: `Candidate ${index + 1}:` },
+            { inlineData: { mimeType: 'image/png', data: stripDataUrl(imageBase64) } },
+          ]),
+          { text: buildRankPrompt(prompt, imagesBase64.length, style) },
+        ]
+      },
+      config: {
+        thinkingConfig: { includeThoughts: true },
+      },
+    }, callbacks?.onThought),
+
+    refine: ({ svgCode, critique, prompt, style, constraints }, callbacks) => streamWithThoughts({
+      model: reasoningModel,
+      contents: buildRefinePrompt(svgCode, critique, prompt, style, constraints),
+      config: {
+        thinkingConfig: { includeThoughts: true },
+      },
+    }, callbacks?.onThought, callbacks?.onOutput),
+
+    edit: ({ svgCode, instruction, prompt, style, constraints }, callbacks) => streamWithThoughts({
+      model: reasoningModel,
+      contents: buildEditPrompt(svgCode, instruction, prompt, style, constraints),
+      config: {
+        thinkingConfig: { includeThoughts: true },
+      },
+    }, callbacks?.onThought, callbacks?.onOutput),
+
+    countTokens: async (text) => {
+      const countResult = await getAI().models.countTokens({
+        model: reasoningModel,
+        contents: text,
+      });
+      return countResult.totalTokens || 0;
+    },
+
+    reset: () => {
+      ai = undefined;
+    },
+  };
+};
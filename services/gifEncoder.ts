@@ -0,0 +1,266 @@
+// Minimal animated GIF89a encoder: median-cut palette per frame, LZW-compressed full frames.
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  // Loop forever via the NETSCAPE2.0 extension; otherwise the animation plays once
+  loop: boolean;
+  // Pixels with alpha below 128 become the transparent palette entry
+  transparent: boolean;
+}
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray, delayCentiseconds: number) => void;
+  finish: () => Uint8Array;
+}
+
+interface QuantizedFrame {
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+const TRANSPARENT_INDEX = 255;
+const ALPHA_THRESHOLD = 128;
+
+// Colours are bucketed to 5 bits per channel before the median cut
+const toKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const channelOf = (key: number, channel: number) => (key >> (10 - channel * 5)) & 31;
+const expand5 = (value: number) => (value << 3) | (value >> 2);
+
+const medianCut = (histogram: Uint32Array, maxColors: number): number[][] => {
+  const keys: number[] = [];
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) keys.push(key);
+  }
+  if (keys.length === 0) return [];
+
+  const boxes: number[][] = [keys];
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range, weighted by how many pixels it covers
+    let bestBox = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, boxIndex) => {
+      if (box.length < 2) return;
+      let population = 0;
+      box.forEach((key) => { population += histogram[key]; });
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 31;
+        let max = 0;
+        box.forEach((key) => {
+          const value = channelOf(key, channel);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        });
+        const score = (max - min) * population;
+        if (score > bestScore) {
+          bestScore = score;
+          bestBox = boxIndex;
+          bestChannel = channel;
+        }
+      }
+    });
+    if (bestBox < 0) break;
+
+    const box = boxes[bestBox].sort((a, b) => channelOf(a, bestChannel) - channelOf(b, bestChannel));
+    let total = 0;
+    box.forEach((key) => { total += histogram[key]; });
+    let running = 0;
+    let split = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      running += histogram[box[i]];
+      if (running >= total / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+    boxes.splice(bestBox, 1, box.slice(0, split), box.slice(split));
+  }
+  return boxes;
+};
+
+const quantize = (rgba: Uint8ClampedArray, transparent: boolean): QuantizedFrame => {
+  const pixelCount = rgba.length / 4;
+  const histogram = new Uint32Array(32768);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    if (transparent && rgba[offset + 3] < ALPHA_THRESHOLD) continue;
+    histogram[toKey(rgba[offset], rgba[offset + 1], rgba[offset + 2])]++;
+  }
+
+  const boxes = medianCut(histogram, transparent ? 255 : 256);
+  const palette = new Uint8Array(256 * 3);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let weight = 0;
+    box.forEach((key) => {
+      const count = histogram[key];
+      r += expand5(channelOf(key, 0)) * count;
+      g += expand5(channelOf(key, 1)) * count;
+      b += expand5(channelOf(key, 2)) * count;
+      weight += count;
+    });
+    palette[index * 3] = Math.round(r / weight);
+    palette[index * 3 + 1] = Math.round(g / weight);
+    palette[index * 3 + 2] = Math.round(b / weight);
+  });
+
+  const lookup = new Int16Array(32768).fill(-1);
+  const nearest = (key: number): number => {
+    const r = expand5(channelOf(key, 0));
+    const g = expand5(channelOf(key, 1));
+    const b = expand5(channelOf(key, 2));
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < boxes.length; index++) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    if (transparent && rgba[offset + 3] < ALPHA_THRESHOLD) {
+      indices[i] = TRANSPARENT_INDEX;
+      continue;
+    }
+    const key = toKey(rgba[offset], rgba[offset + 1], rgba[offset + 2]);
+    if (lookup[key] < 0) lookup[key] = nearest(key);
+    indices[i] = lookup[key];
+  }
+
+  return { palette, indices };
+};
+
+// Variable-width LZW as specified by GIF89a (codes grow from minCodeSize + 1 up to 12 bits)
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const dictionary = new Map<number, number>();
+
+  let codeSize = minCodeSize + 1;
+  let maxCode = (1 << codeSize) - 1;
+  let nextCode = endCode + 1;
+  let resetPending = false;
+  let accumulator = 0;
+  let accumulatorBits = 0;
+
+  const write = (code: number) => {
+    accumulator |= code << accumulatorBits;
+    accumulatorBits += codeSize;
+    while (accumulatorBits >= 8) {
+      output.push(accumulator & 0xff);
+      accumulator >>>= 8;
+      accumulatorBits -= 8;
+    }
+    if (resetPending) {
+      codeSize = minCodeSize + 1;
+      maxCode = (1 << codeSize) - 1;
+      resetPending = false;
+    } else if (nextCode > maxCode) {
+      codeSize++;
+      maxCode = codeSize === 12 ? 4096 : (1 << codeSize) - 1;
+    }
+  };
+
+  write(clearCode);
+  if (indices.length === 0) {
+    write(endCode);
+  } else {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const symbol = indices[i];
+      const key = (prefix << 8) | symbol;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+      write(prefix);
+      if (nextCode < 4096) {
+        dictionary.set(key, nextCode++);
+      } else {
+        dictionary.clear();
+        nextCode = endCode + 1;
+        resetPending = true;
+        write(clearCode);
+      }
+      prefix = symbol;
+    }
+    write(prefix);
+    write(endCode);
+  }
+  if (accumulatorBits > 0) output.push(accumulator & 0xff);
+  return Uint8Array.from(output);
+};
+
+const toSubBlocks = (data: Uint8Array): Uint8Array => {
+  const blockCount = Math.ceil(data.length / 255);
+  const out = new Uint8Array(data.length + blockCount + 1);
+  let cursor = 0;
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    out[cursor++] = block.length;
+    out.set(block, cursor);
+    cursor += block.length;
+  }
+  out[cursor] = 0;
+  return out;
+};
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+export const createGifEncoder = ({ width, height, loop, transparent }: GifEncoderOptions): GifEncoder => {
+  const parts: Uint8Array[] = [
+    Uint8Array.from([
+      ...ascii('GIF89a'),
+      ...u16(width),
+      ...u16(height),
+      0x00, // no global colour table; every frame carries its own palette
+      0x00,
+      0x00,
+    ]),
+  ];
+  if (loop) {
+    parts.push(Uint8Array.from([0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, ...u16(0), 0x00]));
+  }
+
+  return {
+    addFrame: (rgba, delayCentiseconds) => {
+      const { palette, indices } = quantize(rgba, transparent);
+      // Disposal 2 clears each frame so transparent regions do not accumulate earlier frames
+      const packedControl = transparent ? (2 << 2) | 1 : 1 << 2;
+      parts.push(Uint8Array.from([
+        0x21, 0xf9, 0x04, packedControl, ...u16(Math.max(2, Math.round(delayCentiseconds))), TRANSPARENT_INDEX, 0x00,
+        0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height),
+        0x87, // local colour table of 2^(7+1) entries
+      ]));
+      parts.push(palette);
+      parts.push(Uint8Array.from([8]));
+      parts.push(toSubBlocks(lzwEncode(indices, 8)));
+    },
+    finish: () => {
+      parts.push(Uint8Array.from([0x3b]));
+      const total = parts.reduce((sum, part) => sum + part.length, 0);
+      const out = new Uint8Array(total);
+      let cursor = 0;
+      parts.forEach((part) => {
+        out.set(part, cursor);
+        cursor += part.length;
+      });
+      return out;
+    },
+  };
+};
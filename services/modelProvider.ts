@@ -0,0 +1,111 @@
+// Contract every model backend implements so the refinement loop can run against
+// Gemini, a different model, or a local stand-in without touching App.tsx.
+
+import type { CandidateSlot, MotionSampling, OutputConstraints, StyleGuide } from './prompts';
+
+export interface ProviderUsage {
+  totalTokens: number;
+  // GIF credits charged for the step; only set when billed through the cloud backend
+  credits?: number;
+}
+
+export interface ProviderResult {
+  text: string;
+  thoughts: string | null;
+  usage?: ProviderUsage;
+}
+
+export type ThoughtCallback = (thoughtChunk: string) => void;
+export type OutputCallback = (outputChunk: string) => void;
+
+export interface ProviderCallbacks {
+  onThought?: ThoughtCallback;
+  onOutput?: OutputCallback;
+}
+
+export interface PlanRequest {
+  prompt: string;
+  style?: StyleGuide;
+  constraints?: OutputConstraints;
+  // PNG data URL of the user's reference image or sketch
+  referenceImage?: string;
+}
+
+export interface GenerateRequest {
+  plan: string;
+  // Set when several candidates are drafted from one plan
+  candidate?: CandidateSlot;
+  style?: StyleGuide;
+  constraints?: OutputConstraints;
+}
+
+export interface EvaluateRequest {
+  imageBase64: string;
+  prompt: string;
+  iteration: number;
+  // Set when imageBase64 is a contact sheet of animation frames
+  motion?: MotionSampling;
+  style?: StyleGuide;
+  // Shown to the critic after the render so it can judge fidelity to it
+  referenceImage?: string;
+}
+
+export interface RankRequest {
+  // Candidate renders in order; the model refers to them as Candidate 1..N
+  imagesBase64: string[];
+  prompt: string;
+  iteration: number;
+  style?: StyleGuide;
+}
+
+export interface RefineRequest {
+  svgCode: string;
+  critique: string;
+  prompt: string;
+  style?: StyleGuide;
+  constraints?: OutputConstraints;
+}
+
+// A user's free-text change to an existing version ("make the cat orange")
+export interface EditRequest {
+  svgCode: string;
+  instruction: string;
+  prompt: string;
+  style?: StyleGuide;
+  constraints?: OutputConstraints;
+}
+
+export type ModelProviderId = 'gemini' | 'offline';
+
+export interface ModelProvider {
+  readonly id: ModelProviderId;
+  readonly label: string;
+  /** Offline providers skip the API key / sign-in gate and never touch the network. */
+  readonly requiresNetwork: boolean;
+  plan: (request: PlanRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  generate: (request: GenerateRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  evaluate: (request: EvaluateRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  rank: (request: RankRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  refine: (request: RefineRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  edit: (request: EditRequest, callbacks?: ProviderCallbacks) => Promise<ProviderResult>;
+  countTokens: (text: string) => Promise<number>;
+  /** Drop any cached client (e.g. after the API key changes). */
+  reset: () => void;
+}
+
+export const replayStreamedText = async (
+  text: string,
+  onChunk: ((chunk: string) => void) | undefined,
+  options?: { chunkSize?: number; delayMs?: number }
+): Promise<void> => {
+  if (!text || !onChunk) return;
+  const chunkSize = Math.max(32, Math.floor(options?.chunkSize ?? 320));
+  const delayMs = Math.max(0, Math.floor(options?.delayMs ?? 8));
+
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    onChunk(text.slice(offset, offset + chunkSize));
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+};
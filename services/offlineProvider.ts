@@ -0,0 +1,172 @@
+import { replayStreamedText } from './modelProvider';
+import type { ModelProvider, ProviderCallbacks, ProviderResult } from './modelProvider';
+import type { StyleGuide } from './prompts';
+
+// Deterministic stand-in for a real model. Every response is derived from a hash of
+// its inputs, so the same prompt always walks the same plan -> SVG -> critique path.
+
+const PALETTES = [
+  ['#264653', '#2a9d8f', '#e9c46a', '#f4a261', '#e76f51'],
+  ['#1d3557', '#457b9d', '#a8dadc', '#f1faee', '#e63946'],
+  ['#3d405b', '#81b29a', '#f2cc8f', '#e07a5f', '#f4f1de'],
+  ['#22223b', '#4a4e69', '#9a8c98', '#c9ada7', '#f2e9e4'],
+];
+
+const SUBJECTS = ['concentric orbits', 'stacked hills', 'a radiant sunburst', 'floating petals', 'a tiled mosaic'];
+
+const CRITIQUE_POINTS = [
+  { criterion: 'promptAlignment', text: 'The focal element sits too close to the center; offset it to create tension.' },
+  { criterion: 'aesthetics', text: 'Secondary shapes compete with the subject; reduce their opacity or size.' },
+  { criterion: 'aesthetics', text: 'The palette lacks a clear accent; reserve the warmest color for one element.' },
+  { criterion: 'technicalExecution', text: 'Edges feel flat; add a subtle gradient or stroke to separate layers.' },
+  { criterion: 'promptAlignment', text: 'Negative space on the right is unused; extend the composition to balance it.' },
+  { criterion: 'animation', text: 'Animation timing is uniform; stagger the delays so motion feels organic.' },
+];
+
+const SEVERITIES = ['high', 'medium', 'low'];
+
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const respond = async (
+  text: string,
+  thoughts: string,
+  callbacks: ProviderCallbacks | undefined,
+  streamOutput: boolean
+): Promise<ProviderResult> => {
+  await replayStreamedText(thoughts, callbacks?.onThought, { chunkSize: 64, delayMs: 40 });
+  if (streamOutput) {
+    await replayStreamedText(text, callbacks?.onOutput, { chunkSize: 96, delayMs: 20 });
+  }
+  return { text, thoughts, usage: { totalTokens: Math.ceil((text.length + thoughts.length) / 4) } };
+};
+
+const buildShapes = (random: () => number, palette: string[], count: number): string => {
+  const shapes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const color = palette[1 + (i % (palette.length - 1))];
+    const x = round(60 + random() * 280);
+    const y = round(60 + random() * 280);
+    const size = round(20 + random() * 70);
+    if (random() > 0.5) {
+      shapes.push(`<circle class="float" cx="${x}" cy="${y}" r="${size / 2}" fill="${color}" opacity="0.85" style="animation-delay:${round(random() * 2)}s"/>`);
+    } else {
+      shapes.push(`<rect x="${round(x - size / 2)}" y="${round(y - size / 2)}" width="${size}" height="${size}" rx="${round(size / 6)}" fill="${color}" opacity="0.8"/>`);
+    }
+  }
+  return shapes.join('\n  ');
+};
+
+// A style's fixed palette replaces the random one; the first color is the backdrop
+const stylePalette = (style?: StyleGuide): string[] | null =>
+  style?.palette && style.palette.length >= 2 ? style.palette : null;
+
+export const createOfflineProvider = (): ModelProvider => ({
+  id: 'offline',
+  label: 'Offline demo',
+  requiresNetwork: false,
+
+  plan: async ({ prompt, style }, callbacks) => {
+    const random = createRandom(hashString(prompt));
+    const palette = stylePalette(style) || pick(PALETTES, random);
+    const subject = pick(SUBJECTS, random);
+    const text = `Offline plan for "${prompt}": a 400x400 composition built around ${subject}, ` +
+      `using the palette ${palette.join(', ')} on a ${palette[0]} backdrop, with a gentle floating animation on the round shapes.`;
+    return respond(text, `Reading the prompt "${prompt}" and picking ${subject}.`, callbacks, false);
+  },
+
+  generate: async ({ plan, candidate, style }, callbacks) => {
+    const random = createRandom(hashString(candidate ? `${plan}#candidate${candidate.index}` : plan));
+    const palette = stylePalette(style) || pick(PALETTES, random);
+    const text = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400">
+  <defs><style>@keyframes float { 0%, 100% { transform: translateY(0); } 50% { transform: translateY(-8px); } } .float { animation: float 3s ease-in-out infinite; }</style></defs>
+  <rect width="400" height="400" fill="${palette[0]}"/>
+  ${buildShapes(random, palette, 5)}
+</svg>`;
+    return respond(text, 'Laying out the backdrop, then scattering the primary shapes.', callbacks, true);
+  },
+
+  evaluate: async ({ prompt, iteration, motion }, callbacks) => {
+    const random = createRandom(hashString(`${prompt}#${iteration}`));
+    const points = [...CRITIQUE_POINTS].sort(() => random() - 0.5).slice(0, 3);
+    // Scores climb with each iteration so convergence behaviour can be exercised offline.
+    const score = (offset: number) => round(Math.min(9.5, 3.5 + offset + iteration * 0.8 + random()));
+    const text = JSON.stringify({
+      scores: {
+        promptAlignment: score(0.5),
+        aesthetics: score(0),
+        technicalExecution: score(1),
+        animation: score(-0.5),
+      },
+      summary: `Iteration #${iteration} is heading in the right direction but still reads as a draft.`,
+      issues: points.map((point, index) => ({ ...point, severity: SEVERITIES[index] })),
+    });
+    const subject = motion ? `${motion.timestampsMs.length} frames of iteration #${iteration}` : `iteration #${iteration}`;
+    return respond(text, `Comparing ${subject} against "${prompt}".`, callbacks, false);
+  },
+
+  rank: async ({ imagesBase64, prompt, iteration }, callbacks) => {
+    const random = createRandom(hashString(`${prompt}#rank${imagesBase64.length}`));
+    const ranking = imagesBase64.map((_, index) => index + 1).sort(() => random() - 0.5);
+    const points = [...CRITIQUE_POINTS].sort(() => random() - 0.5).slice(0, 3);
+    const score = (offset: number) => round(Math.min(9.5, 4 + offset + iteration * 0.8 + random()));
+    const text = JSON.stringify({
+      ranking,
+      rankingReason: `Candidate ${ranking[0]} has the clearest focal point.`,
+      scores: {
+        promptAlignment: score(0.5),
+        aesthetics: score(0),
+        technicalExecution: score(1),
+        animation: score(-0.5),
+      },
+      summary: `Candidate ${ranking[0]} is the strongest starting point.`,
+      issues: points.map((point, index) => ({ ...point, severity: SEVERITIES[index] })),
+    });
+    return respond(text, `Lining up ${imagesBase64.length} candidates for "${prompt}".`, callbacks, false);
+  },
+
+  refine: async ({ svgCode, critique }, callbacks) => {
+    const random = createRandom(hashString(svgCode + critique));
+    const palette = pick(PALETTES, random);
+    const detail = buildShapes(random, palette, 2);
+    const closeIndex = svgCode.lastIndexOf('</svg>');
+    const text = closeIndex >= 0
+      ? `${svgCode.slice(0, closeIndex).trimEnd()}\n  ${detail}\n</svg>`
+      : svgCode;
+    return respond(text, 'Adding two accent shapes to address the critique.', callbacks, true);
+  },
+
+  edit: async ({ svgCode, instruction }, callbacks) => {
+    const random = createRandom(hashString(svgCode + instruction));
+    const detail = buildShapes(random, pick(PALETTES, random), 1);
+    const closeIndex = svgCode.lastIndexOf('</svg>');
+    const text = closeIndex >= 0
+      ? `${svgCode.slice(0, closeIndex).trimEnd()}\n  ${detail}\n</svg>`
+      : svgCode;
+    return respond(text, 'The offline demo cannot follow instructions; adding one shape to stand in for the edit.', callbacks, true);
+  },
+
+  countTokens: async (text) => Math.ceil(text.length / 4),
+
+  reset: () => {},
+});
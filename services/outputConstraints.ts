@@ -0,0 +1,116 @@
+import type { CritiqueIssue, StructuredCritique } from '../types';
+import type { OutputConstraints } from './prompts';
+import { hasAnimationMarkup } from './animationExport';
+import { byteLength } from './svgOptimizer';
+import { colorHue, extractPalette } from './svgPalette';
+
+// Post-generation check of a run's OutputConstraints. The prompts ask for them; this verifies the
+// result so violations can be fed back through the critique.
+
+export type ConstraintKind = 'canvas' | 'motion' | 'elements' | 'bytes' | 'monochrome';
+
+export interface ConstraintViolation {
+  constraint: ConstraintKind;
+  message: string;
+}
+
+export const ASPECT_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: '1:1', width: 512, height: 512 },
+  { label: '4:3', width: 800, height: 600 },
+  { label: '3:2', width: 900, height: 600 },
+  { label: '16:9', width: 1600, height: 900 },
+  { label: '9:16', width: 900, height: 1600 },
+];
+
+// Relative difference at which a viewBox no longer counts as the target aspect ratio
+const ASPECT_TOLERANCE = 0.01;
+// Hues further apart than this break monochrome
+const MONOCHROME_HUE_SPREAD = 25;
+
+export const hasConstraints = (constraints: OutputConstraints | undefined): constraints is OutputConstraints =>
+  !!constraints && Object.values(constraints).some((value) => value !== undefined && value !== false);
+
+/** Long-edge capture size scaled to the canvas aspect ratio; square when no canvas is set. */
+export const captureFrameFor = (constraints: OutputConstraints | undefined, longEdge: number): { width: number; height: number } => {
+  const canvas = constraints?.canvas;
+  if (!canvas) return { width: longEdge, height: longEdge };
+  const scale = longEdge / Math.max(canvas.width, canvas.height);
+  return { width: Math.round(canvas.width * scale), height: Math.round(canvas.height * scale) };
+};
+
+const readViewBox = (svgCode: string): number[] | null => {
+  const root = svgCode.match(/<svg\b[^>]*>/i)?.[0];
+  const value = root?.match(/\sviewBox\s*=\s*["']([^"']*)["']/i)?.[1];
+  const numbers = value?.trim().split(/[\s,]+/).map(Number);
+  return numbers && numbers.length === 4 && numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const hueDistance = (a: number, b: number) => Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+
+export const checkOutputConstraints = (svgCode: string, constraints: OutputConstraints | undefined): ConstraintViolation[] => {
+  if (!hasConstraints(constraints) || !svgCode) return [];
+  const violations: ConstraintViolation[] = [];
+  const { canvas, motion, maxElements, maxBytes, monochrome } = constraints;
+
+  if (canvas) {
+    const viewBox = readViewBox(svgCode);
+    const target = canvas.width / canvas.height;
+    if (!viewBox) {
+      violations.push({ constraint: 'canvas', message: `The root <svg> has no viewBox; use viewBox="0 0 ${canvas.width} ${canvas.height}".` });
+    } else if (viewBox[3] <= 0 || Math.abs(viewBox[2] / viewBox[3] / target - 1) > ASPECT_TOLERANCE) {
+      violations.push({
+        constraint: 'canvas',
+        message: `The viewBox is ${viewBox[2]}x${viewBox[3]}; the canvas must be ${canvas.width}x${canvas.height} (${canvas.width}:${canvas.height}).`,
+      });
+    }
+  }
+
+  const animated = hasAnimationMarkup(svgCode);
+  if (motion === 'static' && animated) {
+    violations.push({ constraint: 'motion', message: 'The SVG is animated but must be static; remove all keyframes, transitions and SMIL elements.' });
+  } else if (motion === 'animated' && !animated) {
+    violations.push({ constraint: 'motion', message: 'The SVG must be animated but has no CSS keyframe or SMIL animation.' });
+  }
+
+  if (maxElements !== undefined) {
+    const count = (svgCode.match(/<[A-Za-z][\w:-]*/g) || []).length;
+    if (count > maxElements) {
+      violations.push({ constraint: 'elements', message: `The SVG has ${count} elements; the limit is ${maxElements}. Merge or drop shapes.` });
+    }
+  }
+
+  if (maxBytes !== undefined) {
+    const bytes = byteLength(svgCode);
+    if (bytes > maxBytes) {
+      violations.push({
+        constraint: 'bytes',
+        message: `The SVG is ${(bytes / 1024).toFixed(1)} KB; the limit is ${(maxBytes / 1024).toFixed(0)} KB. Simplify paths and reuse shapes.`,
+      });
+    }
+  }
+
+  if (monochrome) {
+    const hues = extractPalette(svgCode)
+      .map((entry) => colorHue(entry.hex))
+      .filter((hue): hue is number => hue !== null);
+    if (hues.some((hue) => hueDistance(hue, hues[0]) > MONOCHROME_HUE_SPREAD)) {
+      violations.push({ constraint: 'monochrome', message: 'The SVG uses several hues but must be monochrome: one hue plus black, white and grays.' });
+    }
+  }
+
+  return violations;
+};
+
+/** Add violations as high-severity issues so the next refine fixes them first. */
+export const appendConstraintViolations = (
+  critique: StructuredCritique,
+  violations: ConstraintViolation[]
+): StructuredCritique => {
+  if (violations.length === 0) return critique;
+  const issues: CritiqueIssue[] = violations.map((violation) => ({
+    text: `[Constraint] ${violation.message}`,
+    criterion: violation.constraint === 'monochrome' ? 'aesthetics' : 'technicalExecution',
+    severity: 'high',
+  }));
+  return { ...critique, issues: [...critique.issues, ...issues] };
+};
@@ -0,0 +1,249 @@
+// Prompt text shared by the model providers that talk to a real LLM.
+// The backend keeps its own copy in buildPromptForAction (functions cannot import client code).
+
+// Visual style applied to every step of a run (see services/stylePresets.ts).
+// Keep in sync with readStyleGuide/styleRules in backend/functions/src/index.ts.
+export interface StyleGuide {
+  name: string;
+  // Free-form direction, e.g. "flat shapes, no gradients, bold silhouettes"
+  description: string;
+  // Fixed palette; the artwork may use only these colors
+  palette?: string[];
+  strokeWidth?: number;
+  cornerRadius?: number;
+}
+
+// Per-run limits on the output (see services/outputConstraints.ts for the post-generation check).
+// Keep in sync with readOutputConstraints/constraintRules in backend/functions/src/index.ts.
+export interface OutputConstraints {
+  // Exact viewBox size; its ratio is also the aspect ratio the canvas is captured at
+  canvas?: { width: number; height: number };
+  // Unset lets the model decide whether to animate
+  motion?: 'static' | 'animated';
+  maxElements?: number;
+  maxBytes?: number;
+  // One hue (with its tints and shades) plus neutrals
+  monochrome?: boolean;
+}
+
+const constraintRules = (constraints?: OutputConstraints): string[] => {
+  if (!constraints) return [];
+  const rules: string[] = [];
+  const { canvas, motion, maxElements, maxBytes, monochrome } = constraints;
+  if (canvas) {
+    rules.push(`Use exactly viewBox="0 0 ${canvas.width} ${canvas.height}" (aspect ratio ${canvas.width}:${canvas.height}) and keep every shape inside it.`);
+  }
+  if (motion === 'static') rules.push('The image must be static: no CSS animations or transitions and no SMIL animation elements.');
+  if (motion === 'animated') rules.push('The image must be animated with at least one CSS keyframe animation.');
+  if (maxElements !== undefined) rules.push(`Use at most ${maxElements} SVG elements in total.`);
+  if (maxBytes !== undefined) rules.push(`Keep the SVG code under ${Math.floor(maxBytes / 1024)} KB.`);
+  if (monochrome) rules.push('Monochrome: use a single hue with its tints and shades, plus black, white and grays.');
+  return rules;
+};
+
+const constraintList = (constraints?: OutputConstraints): string =>
+  constraintRules(constraints).map((rule) => `\n      - ${rule}`).join('');
+
+// Used when no style is selected
+const DEFAULT_STYLE_RULE = 'Use vibrant colors and clean paths.';
+
+const styleRules = (style?: StyleGuide): string[] => {
+  if (!style) return [DEFAULT_STYLE_RULE];
+  const rules = [`Follow the "${style.name}" style: ${style.description}`];
+  if (style.palette?.length) rules.push(`Use only these colors: ${style.palette.join(', ')}.`);
+  if (style.strokeWidth !== undefined) rules.push(`Draw outlines with a stroke width of ${style.strokeWidth}.`);
+  if (style.cornerRadius !== undefined) rules.push(`Round shape corners with a radius of ${style.cornerRadius}.`);
+  return rules;
+};
+
+const styleList = (style?: StyleGuide): string =>
+  styleRules(style).map((rule) => `\n      - ${rule}`).join('');
+
+// Both prompts expect the reference image (an upload or a sketch) to be sent as an inline image part
+const REFERENCE_PLAN_RULE = `The user attached a reference image, shown above. Base the composition, proportions, poses and key shapes on it; treat it as a guide to layout, not as something to copy pixel for pixel.`;
+const REFERENCE_CRITERION = `Fidelity to the reference image (the second image): the composition, proportions and key shapes should match it. Report deviations as promptAlignment issues.`;
+
+export const buildPlanPrompt = (
+  userPrompt: string,
+  style?: StyleGuide,
+  constraints?: OutputConstraints,
+  hasReference = false
+): string => {
+  const limits = constraintRules(constraints);
+  // Optional steps are numbered as they are joined, so the list has no gaps
+  const steps = [
+    'Analyze the intent and potential artistic directions.',
+    'Create a detailed technical plan for an SVG that embodies this concept.',
+    'Focus on composition, color palette, and shapes.',
+    'Keep the SVG complexity manageable but visually striking.',
+    'Consider whether CSS keyframe animations would enhance the concept (e.g., for characters in motion, spinning elements, pulsing effects, or any dynamic subject). If animation would add value, include it in the plan.',
+    ...(style ? [`The plan must fit the required visual style: ${styleRules(style).join(' ')}`] : []),
+    ...(limits.length > 0 ? [`The plan must respect these output constraints: ${limits.join(' ')}`] : []),
+    ...(hasReference ? [REFERENCE_PLAN_RULE] : []),
+  ];
+  return `You are an expert SVG artist and planner.
+      The user has provided an ambiguous prompt: "${userPrompt}".
+
+      ${steps.map((step, index) => `${index + 1}. ${step}`).join('\n      ')}
+
+      Output the plan as a concise paragraph.`;
+};
+
+export interface CandidateSlot {
+  index: number;
+  count: number;
+}
+
+const candidateLine = (candidate?: CandidateSlot): string =>
+  candidate && candidate.count > 1
+    ? `\n      - This is candidate ${candidate.index + 1} of ${candidate.count}. Take a distinctly different composition from the other candidates.`
+    : '';
+
+export const buildGeneratePrompt = (
+  plan: string,
+  candidate?: CandidateSlot,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): string => {
+  return `Create a single SVG file based on this plan: "${plan}".
+
+      Requirements:
+      - Use standard SVG syntax.
+      - Ensure it is scalable (viewBox).${styleList(style)}${constraintList(constraints)}
+      - Do not use external CSS files or JavaScript. Inline styles are fine.
+      - If the plan calls for animation or motion, use CSS keyframe animations inside a <defs><style> block.
+      - For animations, set appropriate transform-origin values and use smooth easing functions (ease-in-out).
+      - For animations, only animate SVG-safe properties (transform, opacity, fill, stroke).${candidateLine(candidate)}
+      - Return ONLY the SVG code.`;
+};
+
+// Keep in sync with EVALUATE_RESPONSE_FORMAT in backend/functions/src/index.ts.
+const EVALUATE_RESPONSE_FORMAT = `
+                Score each criterion from 0 (broken) to 10 (excellent). Use null for animation when the image has no motion.
+                Respond with ONLY a JSON object, no markdown, in exactly this shape:
+                {"scores": {"promptAlignment": 0, "aesthetics": 0, "technicalExecution": 0, "animation": null},
+                 "summary": "one sentence verdict",
+                 "issues": [{"criterion": "aesthetics", "severity": "high", "text": "concise, actionable fix"}]}
+                List 3-4 issues. criterion is one of promptAlignment, aesthetics, technicalExecution, animation; severity is high, medium or low.`;
+
+export interface MotionSampling {
+  // When each contact-sheet frame was sampled, in order
+  timestampsMs: number[];
+  cycleMs: number;
+}
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(2)}s`;
+
+const motionIntro = (motion: MotionSampling): string =>
+  `This image is a contact sheet of ${motion.timestampsMs.length} frames sampled from one ${formatSeconds(motion.cycleMs)} animation cycle, read left to right, top to bottom, at ${motion.timestampsMs.map(formatSeconds).join(', ')}.
+                Each labelled cell is the same SVG frozen at that moment; judge the artwork from the frames and the motion from how they change.`;
+
+export const buildEvaluatePrompt = (
+  originalPrompt: string,
+  iteration: number,
+  motion?: MotionSampling,
+  style?: StyleGuide,
+  hasReference = false
+): string => {
+  // Optional criteria are numbered as they are joined, as in buildPlanPrompt
+  const criteria = [
+    'Alignment with the prompt.',
+    'Visual aesthetics (balance, color, contrast).',
+    'Technical execution (if visible artifacts exist).',
+    motion
+      ? 'Animation quality across the frames: smooth progression between neighbouring frames, elements staying on canvas, no parts popping in or out, a seamless loop from the last frame back to the first, and whether the motion enhances or distracts from the design. Score animation; do not leave it null.'
+      : 'Animation quality (if present): smoothness, realism, and whether the motion enhances or distracts from the design.',
+    // Style drift is reported under aesthetics; the response format has no separate criterion for it
+    ...(style ? [`Adherence to the required style (report deviations as aesthetics issues): ${styleRules(style).join(' ')}`] : []),
+    ...(hasReference ? [REFERENCE_CRITERION] : []),
+  ];
+
+  return `You are a strict Senior Design Critic.
+                Analyze this rendered SVG (Iteration #${iteration}).
+                The original goal was: "${originalPrompt}".${motion ? `\n                ${motionIntro(motion)}` : ''}
+
+                Critique the image based on:
+                ${criteria.map((criterion, index) => `${index + 1}. ${criterion}`).join('\n                ')}
+
+                Be harsh but constructive. Point out exactly what looks wrong, amateurish, or broken.
+${EVALUATE_RESPONSE_FORMAT}`;
+};
+
+// Keep in sync with the candidate ranking prompt in backend/functions/src/index.ts.
+export const buildRankPrompt = (originalPrompt: string, count: number, style?: StyleGuide): string => {
+  return `You are a strict Senior Design Critic judging ${count} candidate renderings, labelled Candidate 1 to Candidate ${count} in the order shown.
+                The original goal was: "${originalPrompt}".
+
+                Rank every candidate from best to worst on prompt alignment, aesthetics and technical execution.${style ? `
+                Candidates that drift from the required style rank lower: ${styleRules(style).join(' ')}` : ''}
+                Then critique ONLY the winning candidate so it can be refined further.
+                Add a "ranking" array of candidate numbers (best first) and a one sentence "rankingReason" to the JSON object.
+${EVALUATE_RESPONSE_FORMAT}`;
+};
+
+export const buildRefinePrompt = (
+  currentSvgCode: string,
+  critique: string,
+  originalPrompt: string,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): string => {
+  return `You are an expert SVG Coder.
+
+      Original Goal: "${originalPrompt}"
+
+      Current SVG Code:
+      \`\`\`xml
+      ${currentSvgCode}
+      \`\`\`
+
+      Critique to address:
+      ${critique}
+
+      Task:
+      Rewrite the SVG code to fix the issues mentioned in the critique and improve the overall quality.
+      - Work through every checklist item, most severe first, and raise the lowest scores.
+      - Keep the code clean and efficient.
+      - Ensure valid XML.
+      - If the current SVG uses CSS keyframe animations, preserve and improve them. Do not remove animation unless the critique explicitly asks for it.${style ? styleList(style) : ''}${constraintList(constraints)}
+      - Do not use external CSS files or JavaScript.
+      - Return ONLY the new SVG code.`;
+};
+
+export const buildEditPrompt = (
+  currentSvgCode: string,
+  instruction: string,
+  originalPrompt: string,
+  style?: StyleGuide,
+  constraints?: OutputConstraints
+): string => {
+  return `You are an expert SVG Coder editing an existing illustration.
+
+      Original Goal: "${originalPrompt}"
+
+      Current SVG Code:
+      \`\`\`xml
+      ${currentSvgCode}
+      \`\`\`
+
+      Edit requested by the user:
+      "${instruction}"
+
+      Task:
+      Apply exactly this edit to the SVG code.
+      - Change only what the edit asks for; keep every other shape, color, position and animation as it is.
+      - Keep the same viewBox unless the edit asks to resize or reframe.
+      - Ensure valid XML.${style ? styleList(style) : ''}${constraintList(constraints)}
+      - Do not use external CSS files or JavaScript.
+      - Return ONLY the new SVG code.`;
+};
+
+// Sent as the edit instruction for a region refine; the SVG is an excerpt (see excerptRegions) with the
+// selected subtrees wrapped in <g data-target="N"> groups, and only their contents are merged back.
+export const buildRegionEditInstruction = (note: string, regionCount: number): string =>
+  `${note} — Apply this ONLY inside the ${regionCount === 1 ? 'group' : `${regionCount} groups`} marked data-target. ` +
+  'The SVG is an excerpt: the rest of the drawing is left out, so do not add it back. ' +
+  'Keep each <g data-target="N"> wrapper with its number and change only what is inside it; ' +
+  'the definitions and enclosing groups around the wrappers are context and will be discarded.';
+
+export const buildEstimatePrompt = (prompt: string): string => `Plan SVG for: "${prompt}"`;
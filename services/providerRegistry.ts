@@ -0,0 +1,59 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOfflineProvider } from './offlineProvider';
+import type { ModelProvider, ModelProviderId } from './modelProvider';
+
+// User provider preference stored in localStorage
+const PROVIDER_KEY = 'sketch_ai_provider';
+
+export const MODEL_PROVIDER_IDS: ModelProviderId[] = ['gemini', 'offline'];
+
+const isProviderId = (value: unknown): value is ModelProviderId => {
+  return typeof value === 'string' && MODEL_PROVIDER_IDS.includes(value as ModelProviderId);
+};
+
+const providers: Partial<Record<ModelProviderId, ModelProvider>> = {};
+
+const createProvider = (id: ModelProviderId): ModelProvider => {
+  switch (id) {
+    case 'offline':
+      return createOfflineProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        reasoningModel: import.meta.env.VITE_GEMINI_REASONING_MODEL,
+        visionModel: import.meta.env.VITE_GEMINI_VISION_MODEL,
+      });
+  }
+};
+
+export const getProvider = (id: ModelProviderId): ModelProvider => {
+  let provider = providers[id];
+  if (!provider) {
+    provider = createProvider(id);
+    providers[id] = provider;
+  }
+  return provider;
+};
+
+export const getActiveProviderId = (): ModelProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch {
+    // localStorage not available (privacy mode, etc.)
+  }
+  const envDefault = import.meta.env.VITE_MODEL_PROVIDER;
+  return isProviderId(envDefault) ? envDefault : 'gemini';
+};
+
+export const setActiveProviderId = (id: ModelProviderId): void => {
+  localStorage.setItem(PROVIDER_KEY, id);
+};
+
+export const getActiveProvider = (): ModelProvider => getProvider(getActiveProviderId());
+
+export const isOfflineProvider = (): boolean => !getActiveProvider().requiresNetwork;
+
+export const resetProviders = (): void => {
+  Object.values(providers).forEach((provider) => provider?.reset());
+};
@@ -0,0 +1,224 @@
+// Renders SVG versions to PNG/WebP at arbitrary sizes, and bundles icon presets
+// (favicon set, Android adaptive launcher icons, PWA manifest icons) into a zip.
+
+import { sanitizeSvgFor } from './svgSanitizer';
+import { drawSvgElement } from './animationFrames';
+import type { RasterFrame } from './animationFrames';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+export type RasterFormat = 'png' | 'webp';
+export type IconPresetId = 'favicon' | 'android' | 'pwa';
+
+export const MAX_RASTER_EDGE = 4096;
+
+export interface RasterExportOptions {
+  width: number;
+  height: number;
+  format: RasterFormat;
+  // CSS colour or 'transparent'
+  background: string;
+}
+
+export interface IconPreset {
+  id: IconPresetId;
+  label: string;
+  description: string;
+}
+
+export const ICON_PRESETS: IconPreset[] = [
+  { id: 'favicon', label: 'Favicon set', description: 'favicon.ico (16/32/48), PNG favicons and apple-touch-icon' },
+  { id: 'android', label: 'Android adaptive icon', description: 'Launcher, foreground and background for mdpi to xxxhdpi' },
+  { id: 'pwa', label: 'PWA icon set', description: 'Maskable WebP icons 48-512px and the manifest entries' },
+];
+
+export class RasterExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RasterExportError';
+  }
+}
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const parseSvg = (svgCode: string): SVGSVGElement => {
+  const doc = new DOMParser().parseFromString(sanitizeSvgFor('export', svgCode), 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || svg.localName !== 'svg') {
+    throw new RasterExportError('The SVG could not be parsed for export.');
+  }
+  return svg as unknown as SVGSVGElement;
+};
+
+/** Width / height of the artwork from its viewBox (or width/height attributes); 1 when unknown. */
+export const getSvgAspectRatio = (svgCode: string): number => {
+  try {
+    const svg = parseSvg(svgCode);
+    const viewBox = (svg.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+    if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) return viewBox[2] / viewBox[3];
+    const width = Number.parseFloat(svg.getAttribute('width') || '');
+    const height = Number.parseFloat(svg.getAttribute('height') || '');
+    if (width > 0 && height > 0) return width / height;
+  } catch {
+    // Fall through to square
+  }
+  return 1;
+};
+
+const clampEdge = (value: number) => Math.min(MAX_RASTER_EDGE, Math.max(1, Math.round(value)));
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: RasterFormat): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new RasterExportError('The browser could not encode the image.'));
+      } else if (blob.type !== MIME_TYPES[format]) {
+        // Browsers without a WebP encoder silently hand back PNG
+        reject(new RasterExportError(`${format.toUpperCase()} encoding is not supported in this browser.`));
+      } else {
+        resolve(blob);
+      }
+    }, MIME_TYPES[format], format === 'webp' ? 0.92 : undefined);
+  });
+
+const renderSvg = async (
+  svg: SVGSVGElement,
+  frame: RasterFrame,
+  format: RasterFormat,
+  background: string
+): Promise<Blob> => canvasToBlob(await drawSvgElement(svg, frame, background), format);
+
+export const renderRaster = async (svgCode: string, options: RasterExportOptions): Promise<Blob> => {
+  const frame = { width: clampEdge(options.width), height: clampEdge(options.height) };
+  return renderSvg(parseSvg(svgCode), frame, options.format, options.background);
+};
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/** ICO container holding PNG images, which every current browser and Windows accept. */
+export const encodeIco = (images: { size: number; png: Uint8Array }[]): Uint8Array => {
+  const headerSize = 6 + images.length * 16;
+  const out = new Uint8Array(headerSize + images.reduce((sum, image) => sum + image.png.length, 0));
+  const view = new DataView(out.buffer);
+  view.setUint16(2, 1, true); // type: icon
+  view.setUint16(4, images.length, true);
+
+  let offset = headerSize;
+  images.forEach(({ size, png }, index) => {
+    const entry = 6 + index * 16;
+    out[entry] = size >= 256 ? 0 : size;
+    out[entry + 1] = size >= 256 ? 0 : size;
+    view.setUint16(entry + 4, 1, true); // colour planes
+    view.setUint16(entry + 6, 32, true); // bits per pixel
+    view.setUint32(entry + 8, png.length, true);
+    view.setUint32(entry + 12, offset, true);
+    out.set(png, offset);
+    offset += png.length;
+  });
+  return out;
+};
+
+const square = (size: number, inset = 0): RasterFrame => ({ width: size, height: size, inset });
+
+const ANDROID_DENSITIES: [string, number][] = [
+  ['mdpi', 1],
+  ['hdpi', 1.5],
+  ['xhdpi', 2],
+  ['xxhdpi', 3],
+  ['xxxhdpi', 4],
+];
+// Adaptive icons are 108dp layers; only the central 72dp is guaranteed visible
+const ANDROID_SAFE_ZONE_INSET = (108 - 72) / 2 / 108;
+const ANDROID_ADAPTIVE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background" />
+    <foreground android:drawable="@mipmap/ic_launcher_foreground" />
+</adaptive-icon>
+`;
+
+const PWA_SIZES = [48, 72, 96, 128, 192, 256, 512];
+// Maskable icons may be cropped to a circle of 80% diameter
+const PWA_SAFE_ZONE_INSET = 0.1;
+
+const buildPresetEntries = async (
+  svg: SVGSVGElement,
+  preset: IconPresetId,
+  background: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ZipEntry[]> => {
+  const encoder = new TextEncoder();
+  // Launcher and maskable icons must be opaque; fall back to white when transparency was picked
+  const solidBackground = background === 'transparent' ? '#ffffff' : background;
+  const jobs: { name: string; render: () => Promise<Uint8Array> }[] = [];
+  const png = (frame: RasterFrame, fill: string) => async () => blobBytes(await renderSvg(svg, frame, 'png', fill));
+
+  if (preset === 'favicon') {
+    const icoSizes = [16, 32, 48];
+    jobs.push({
+      name: 'favicon.ico',
+      render: async () => encodeIco(await Promise.all(icoSizes.map(async (size) => ({
+        size,
+        png: await png(square(size), background)(),
+      })))),
+    });
+    jobs.push({ name: 'favicon-16x16.png', render: png(square(16), background) });
+    jobs.push({ name: 'favicon-32x32.png', render: png(square(32), background) });
+    jobs.push({ name: 'apple-touch-icon.png', render: png(square(180, 0.08), solidBackground) });
+  } else if (preset === 'android') {
+    ANDROID_DENSITIES.forEach(([density, scale]) => {
+      const dir = `res/mipmap-${density}`;
+      jobs.push({ name: `${dir}/ic_launcher.png`, render: png(square(48 * scale, 0.08), solidBackground) });
+      jobs.push({ name: `${dir}/ic_launcher_foreground.png`, render: png(square(108 * scale, ANDROID_SAFE_ZONE_INSET), 'transparent') });
+      jobs.push({
+        name: `${dir}/ic_launcher_background.png`,
+        render: async () => {
+          const canvas = document.createElement('canvas');
+          canvas.width = canvas.height = 108 * scale;
+          const ctx = canvas.getContext('2d');
+          if (!ctx) throw new RasterExportError('Canvas 2D context unavailable.');
+          ctx.fillStyle = solidBackground;
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          return blobBytes(await canvasToBlob(canvas, 'png'));
+        },
+      });
+    });
+    jobs.push({ name: 'res/mipmap-anydpi-v26/ic_launcher.xml', render: async () => encoder.encode(ANDROID_ADAPTIVE_XML) });
+  } else {
+    PWA_SIZES.forEach((size) => {
+      jobs.push({
+        name: `icons/icon-${size}.webp`,
+        render: async () => blobBytes(await renderSvg(svg, square(size, PWA_SAFE_ZONE_INSET), 'webp', solidBackground)),
+      });
+    });
+    const manifestIcons = PWA_SIZES.map((size) => ({
+      src: `icons/icon-${size}.webp`,
+      type: 'image/webp',
+      sizes: `${size}x${size}`,
+      purpose: 'any maskable',
+    }));
+    jobs.push({
+      name: 'manifest-icons.json',
+      render: async () => encoder.encode(`${JSON.stringify({ icons: manifestIcons }, null, 2)}\n`),
+    });
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const job of jobs) {
+    entries.push({ name: job.name, data: await job.render() });
+    onProgress?.(entries.length, jobs.length);
+  }
+  return entries;
+};
+
+export const buildIconPresetZip = async (
+  svgCode: string,
+  preset: IconPresetId,
+  background: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const entries = await buildPresetEntries(parseSvg(svgCode), preset, background, onProgress);
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
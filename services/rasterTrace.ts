@@ -0,0 +1,318 @@
+// Local bitmap-to-SVG tracing for the import mode: quantize the image to a few colors, then trace
+// each color's region boundaries into one path. No model is involved; the evaluate/refine loop
+// cleans the result up afterwards.
+
+export interface RasterPixels {
+  width: number;
+  height: number;
+  // RGBA, row by row, as in ImageData
+  data: ArrayLike<number>;
+}
+
+export interface TraceOptions {
+  colors?: number;
+  // Long edge, in pixels, the image is scaled down to before tracing
+  maxEdge?: number;
+  // How far (in traced pixels) a simplified outline may stray from the pixel staircase
+  tolerance?: number;
+  // Outlines enclosing fewer square pixels than this are dropped as noise
+  minArea?: number;
+}
+
+export interface TraceResult {
+  svgCode: string;
+  width: number;
+  height: number;
+  colorCount: number;
+}
+
+export const DEFAULT_TRACE_COLORS = 8;
+export const MAX_TRACE_COLORS = 32;
+export const DEFAULT_TRACE_EDGE = 256;
+
+const KMEANS_ITERATIONS = 12;
+const SEED_SAMPLE_SIZE = 4000;
+// Alpha below this counts as background and is left untraced
+const OPAQUE_ALPHA = 128;
+
+export class RasterTraceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RasterTraceError';
+  }
+}
+
+type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb): string =>
+  `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const colorDistance = (data: ArrayLike<number>, offset: number, [r, g, b]: Rgb): number => {
+  const dr = data[offset] - r;
+  const dg = data[offset + 1] - g;
+  const db = data[offset + 2] - b;
+  return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * k-means in RGB, seeded by farthest-point picks from a sample so small but distinct colors get a
+ * center of their own. Transparent pixels get -1.
+ */
+const quantize = (pixels: RasterPixels, colorCount: number): { labels: Int16Array; palette: Rgb[] } => {
+  const { data } = pixels;
+  const total = pixels.width * pixels.height;
+  const opaque: number[] = [];
+  for (let i = 0; i < total; i++) {
+    if (data[i * 4 + 3] >= OPAQUE_ALPHA) opaque.push(i);
+  }
+  if (opaque.length === 0) throw new RasterTraceError('The image is fully transparent; there is nothing to trace.');
+
+  const step = Math.max(1, Math.floor(opaque.length / SEED_SAMPLE_SIZE));
+  const sample = opaque.filter((_, n) => n % step === 0);
+  const colorAt = (i: number): Rgb => [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+  let centers: Rgb[] = [colorAt(sample[0])];
+  const nearest = sample.map((i) => colorDistance(data, i * 4, centers[0]));
+  while (centers.length < colorCount) {
+    let farthest = 0;
+    nearest.forEach((distance, n) => {
+      if (distance > nearest[farthest]) farthest = n;
+    });
+    if (nearest[farthest] === 0) break;
+    const center = colorAt(sample[farthest]);
+    centers.push(center);
+    sample.forEach((i, n) => {
+      nearest[n] = Math.min(nearest[n], colorDistance(data, i * 4, center));
+    });
+  }
+
+  const labels = new Int16Array(total).fill(-1);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const i of opaque) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let k = 0; k < centers.length; k++) {
+        const distance = colorDistance(data, i * 4, centers[k]);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = k;
+        }
+      }
+      if (labels[i] !== best) {
+        labels[i] = best;
+        changed = true;
+      }
+      const sum = sums[best];
+      sum[0] += data[i * 4];
+      sum[1] += data[i * 4 + 1];
+      sum[2] += data[i * 4 + 2];
+      sum[3] += 1;
+    }
+    centers = centers.map((center, k) => {
+      const [r, g, b, n] = sums[k];
+      return n > 0 ? [r / n, g / n, b / n] : center;
+    });
+    if (!changed) break;
+  }
+  return { labels, palette: centers };
+};
+
+/** Relabel isolated pixels to their most common neighbour so anti-aliasing does not become specks. */
+const despeckle = (labels: Int16Array, width: number, height: number): Int16Array => {
+  const result = labels.slice();
+  const counts = new Map<number, number>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const own = labels[y * width + x];
+      if (own < 0) continue;
+      counts.clear();
+      let same = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const label = labels[ny * width + nx];
+          if (label === own) same++;
+          else if (label >= 0) counts.set(label, (counts.get(label) || 0) + 1);
+        }
+      }
+      if (same >= 2 || counts.size === 0) continue;
+      let best = own;
+      let bestCount = 0;
+      counts.forEach((count, label) => {
+        if (count > bestCount) {
+          best = label;
+          bestCount = count;
+        }
+      });
+      result[y * width + x] = best;
+    }
+  }
+  return result;
+};
+
+type Point = [number, number];
+
+/**
+ * Closed outlines of one label along pixel edges. Every boundary edge runs clockwise around its
+ * pixel, so each grid vertex has as many edges in as out and the walk always closes.
+ */
+const traceOutlines = (labels: Int16Array, width: number, height: number, label: number): Point[][] => {
+  const stride = width + 1;
+  const outgoing = new Map<number, number[]>();
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = y1 * stride + x1;
+    const list = outgoing.get(from);
+    if (list) list.push(y2 * stride + x2);
+    else outgoing.set(from, [y2 * stride + x2]);
+  };
+  const isLabel = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (labels[y * width + x] !== label) continue;
+      if (!isLabel(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!isLabel(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!isLabel(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!isLabel(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (const start of outgoing.keys()) {
+    while (outgoing.get(start)?.length) {
+      const loop: Point[] = [];
+      let current = start;
+      do {
+        loop.push([current % stride, Math.floor(current / stride)]);
+        current = outgoing.get(current)!.pop()!;
+      } while (current !== start);
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+const signedArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(px - ax, py - ay);
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/** Douglas-Peucker on an open run of points; the end points are always kept. */
+const simplifyRun = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 2) return points;
+  let farthest = 0;
+  let farthestDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (distance > farthestDistance) {
+      farthest = i;
+      farthestDistance = distance;
+    }
+  }
+  if (farthestDistance <= tolerance) return [points[0], points[points.length - 1]];
+  return [
+    ...simplifyRun(points.slice(0, farthest + 1), tolerance).slice(0, -1),
+    ...simplifyRun(points.slice(farthest), tolerance),
+  ];
+};
+
+/** Split the closed outline at its first point and the point farthest from it, then simplify both halves. */
+const simplifyLoop = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 4) return points;
+  const [x0, y0] = points[0];
+  let split = 1;
+  for (let i = 2; i < points.length; i++) {
+    if (Math.hypot(points[i][0] - x0, points[i][1] - y0) > Math.hypot(points[split][0] - x0, points[split][1] - y0)) split = i;
+  }
+  const first = simplifyRun(points.slice(0, split + 1), tolerance);
+  const second = simplifyRun([...points.slice(split), points[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const outlineToPath = (points: Point[]): string =>
+  `M${points.map(([x, y]) => `${x} ${y}`).join(' ')}Z`;
+
+export const traceImageData = (pixels: RasterPixels, options: TraceOptions = {}): TraceResult => {
+  const { width, height } = pixels;
+  if (width < 1 || height < 1) throw new RasterTraceError('The image is empty.');
+  const colorCount = Math.max(2, Math.min(MAX_TRACE_COLORS, Math.floor(options.colors ?? DEFAULT_TRACE_COLORS)));
+  const tolerance = options.tolerance ?? 1;
+  const minArea = options.minArea ?? 4;
+
+  const { labels: rawLabels, palette } = quantize(pixels, colorCount);
+  const labels = despeckle(rawLabels, width, height);
+
+  // Larger regions first so smaller details land on top; the matching stroke hides seams between layers
+  const areas = palette.map(() => 0);
+  labels.forEach((label) => {
+    if (label >= 0) areas[label]++;
+  });
+  const layers = palette
+    .map((color, label) => ({ color, label, area: areas[label] }))
+    .filter((layer) => layer.area > 0)
+    .sort((a, b) => b.area - a.area);
+
+  const paths = layers.map(({ color, label }) => {
+    const d = traceOutlines(labels, width, height, label)
+      .filter((outline) => Math.abs(signedArea(outline)) >= minArea)
+      .map((outline) => outlineToPath(simplifyLoop(outline, tolerance)))
+      .join('');
+    const hex = toHex(color);
+    return d ? `<path fill="${hex}" stroke="${hex}" stroke-width="0.5" stroke-linejoin="round" fill-rule="evenodd" d="${d}"/>` : '';
+  }).filter(Boolean);
+
+  if (paths.length === 0) throw new RasterTraceError('Tracing found no shapes; try an image with clearer regions.');
+  return {
+    svgCode: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">\n${paths.join('\n')}\n</svg>`,
+    width,
+    height,
+    colorCount: paths.length,
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new RasterTraceError('That file could not be read as an image.'));
+    img.src = src;
+  });
+
+/** Trace an uploaded PNG/JPEG (or other bitmap) after scaling it down to options.maxEdge. */
+export const traceRasterFile = async (file: Blob, options: TraceOptions = {}): Promise<TraceResult> => {
+  if (!/^image\/(png|jpeg|webp|gif|bmp)$/.test(file.type)) {
+    throw new RasterTraceError('Choose a PNG or JPEG image to trace.');
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const maxEdge = options.maxEdge ?? DEFAULT_TRACE_EDGE;
+    const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new RasterTraceError('Canvas is not available in this browser.');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return traceImageData(ctx.getImageData(0, 0, canvas.width, canvas.height), options);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
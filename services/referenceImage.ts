@@ -0,0 +1,45 @@
+// A user's reference picture or sketch, normalized to the same shape as the canvas captures sent to
+// evaluate (a PNG of at most 800px on the long edge) so it costs the same in the prompt.
+
+export const MAX_REFERENCE_EDGE = 800;
+
+export class ReferenceImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceImageError';
+  }
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new ReferenceImageError('That file could not be read as an image.'));
+    img.src = src;
+  });
+
+/** Downscale onto white and re-encode as PNG; transparent areas would otherwise read as black. */
+const toPngDataUrl = (img: HTMLImageElement): string => {
+  const scale = Math.min(1, MAX_REFERENCE_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ReferenceImageError('Canvas is not available in this browser.');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+export const normalizeReferenceImage = async (source: Blob | string): Promise<string> => {
+  if (typeof source !== 'string' && !source.type.startsWith('image/')) {
+    throw new ReferenceImageError('Choose an image file (PNG, JPEG, WebP, SVG...).');
+  }
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    return toPngDataUrl(await loadImage(url));
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,51 @@
+import { SVGSession, SVGVersion } from '../types';
+
+/** Highest-scoring version wins; unscored history falls back to the latest iteration. */
+export const pickBestVersionId = (versions: SVGVersion[]): string | undefined => {
+  let best: SVGVersion | undefined;
+  for (const version of versions) {
+    if (!best) {
+      best = version;
+      continue;
+    }
+    const score = version.critiqueDetails?.overall ?? null;
+    const bestScore = best.critiqueDetails?.overall ?? null;
+    if (score !== null && (bestScore === null || score > bestScore)) {
+      best = version;
+    } else if (score === bestScore && version.timestamp > best.timestamp) {
+      best = version;
+    }
+  }
+  return best?.id;
+};
+
+export interface SessionGroup {
+  session: SVGSession;
+  versions: SVGVersion[];
+}
+
+/** Group versions under their sessions, newest activity first. Orphans get a synthetic session. */
+export const groupVersionsBySession = (sessions: SVGSession[], versions: SVGVersion[]): SessionGroup[] => {
+  const groups = new Map<string, SessionGroup>();
+  sessions.forEach((session) => groups.set(session.id, { session, versions: [] }));
+
+  versions.forEach((version) => {
+    const key = version.sessionId || `orphan:${version.prompt}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        session: { id: key, prompt: version.prompt, plan: null, createdAt: version.timestamp },
+        versions: [],
+      };
+      groups.set(key, group);
+    }
+    group.versions.push(version);
+  });
+
+  const latest = (group: SessionGroup) => Math.max(group.session.createdAt, ...group.versions.map((v) => v.timestamp));
+
+  return Array.from(groups.values())
+    .filter((group) => group.versions.length > 0)
+    .map((group) => ({ ...group, versions: [...group.versions].sort((a, b) => a.iteration - b.iteration || a.timestamp - b.timestamp) }))
+    .sort((a, b) => latest(b) - latest(a));
+};
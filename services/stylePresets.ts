@@ -0,0 +1,79 @@
+import type { StyleGuide } from './prompts';
+
+// Built-in looks plus user-defined presets. The selected preset's StyleGuide is sent with every
+// plan/generate/evaluate/refine request of a run; 'default' sends none and keeps the stock prompt.
+
+export type StylePresetKind = 'default' | 'flat-icon' | 'line-art' | 'isometric' | 'hand-drawn' | 'brand-kit';
+
+export interface StylePreset extends StyleGuide {
+  id: string;
+  kind: StylePresetKind;
+  builtIn?: boolean;
+}
+
+export const STYLE_PRESET_KINDS: { id: Exclude<StylePresetKind, 'default'>; label: string; description: string }[] = [
+  { id: 'flat-icon', label: 'Flat icon', description: 'Flat solid shapes, no gradients or shadows, bold simple silhouettes readable at small sizes.' },
+  { id: 'line-art', label: 'Line art', description: 'Outlines only, uniform strokes with round caps and joins, no fills except the background.' },
+  { id: 'isometric', label: 'Isometric', description: 'Isometric projection with 30-degree axes, three flat tones per surface for top, left and right faces.' },
+  { id: 'hand-drawn', label: 'Hand-drawn', description: 'Slightly irregular, sketchy strokes and imperfect shapes, muted paper-like colors.' },
+  { id: 'brand-kit', label: 'Brand kit', description: 'Clean vector shapes that stay strictly within the brand palette, stroke width and corner radius.' },
+];
+
+export const DEFAULT_STYLE_PRESET_ID = 'default';
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  { id: DEFAULT_STYLE_PRESET_ID, kind: 'default', name: 'Default', description: 'Vibrant colors and clean paths.', builtIn: true },
+  ...STYLE_PRESET_KINDS
+    .filter((kind) => kind.id !== 'brand-kit')
+    .map((kind): StylePreset => ({ id: kind.id, kind: kind.id, name: kind.label, description: kind.description, builtIn: true })),
+];
+
+// User preferences stored in localStorage
+const PRESETS_KEY = 'sketch_ai_style_presets';
+const SELECTED_KEY = 'sketch_ai_style_preset';
+
+const isStylePreset = (value: unknown): value is StylePreset => {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Record<string, unknown>;
+  return typeof preset.id === 'string' && typeof preset.name === 'string' &&
+    typeof preset.description === 'string' && STYLE_PRESET_KINDS.some((kind) => kind.id === preset.kind);
+};
+
+export const getCustomStylePresets = (): StylePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isStylePreset) : [];
+  } catch {
+    // localStorage not available (privacy mode, etc.) or unreadable
+    return [];
+  }
+};
+
+export const setCustomStylePresets = (presets: StylePreset[]): void => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter((preset) => !preset.builtIn)));
+};
+
+export const getSelectedStylePresetId = (): string => {
+  try {
+    return localStorage.getItem(SELECTED_KEY) || DEFAULT_STYLE_PRESET_ID;
+  } catch {
+    // localStorage not available (privacy mode, etc.)
+    return DEFAULT_STYLE_PRESET_ID;
+  }
+};
+
+export const setSelectedStylePresetId = (id: string): void => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+/** The prompt-facing part of a preset; undefined for the default look. */
+export const toStyleGuide = (preset: StylePreset | undefined): StyleGuide | undefined => {
+  if (!preset || preset.kind === 'default') return undefined;
+  return {
+    name: preset.name,
+    description: preset.description,
+    ...(preset.palette?.length ? { palette: preset.palette } : {}),
+    ...(preset.strokeWidth !== undefined ? { strokeWidth: preset.strokeWidth } : {}),
+    ...(preset.cornerRadius !== undefined ? { cornerRadius: preset.cornerRadius } : {}),
+  };
+};
@@ -0,0 +1,509 @@
+// Pulls a well-formed <svg> document out of free-form model output. The text is tokenized
+// rather than regex-matched so markdown, JSX artifacts and truncated streams can be repaired
+// tag by tag; every change is reported so callers can surface or log it.
+
+import { checkWellFormed } from './svgSyntax';
+
+export type SvgRepairKind =
+  | 'markdown'
+  | 'entities'
+  | 'wrapper'
+  | 'jsx'
+  | 'attribute'
+  | 'truncated'
+  | 'unclosed'
+  | 'stray-close'
+  | 'namespace';
+
+export interface SvgRepair {
+  kind: SvgRepairKind;
+  detail: string;
+}
+
+export interface SvgExtraction {
+  svgCode: string;
+  repairs: SvgRepair[];
+}
+
+export type SvgExtractionFailure = 'empty' | 'no-svg' | 'no-content' | 'malformed';
+
+export class SvgExtractionError extends Error {
+  readonly reason: SvgExtractionFailure;
+  readonly repairs: SvgRepair[];
+
+  constructor(reason: SvgExtractionFailure, message: string, repairs: SvgRepair[] = []) {
+    super(message);
+    this.name = 'SvgExtractionError';
+    this.reason = reason;
+    this.repairs = repairs;
+  }
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// SVG attributes that are camelCase in the spec itself and must not be kebab-cased
+const CAMEL_CASE_ATTRIBUTES = [
+  'viewBox', 'preserveAspectRatio', 'gradientUnits', 'gradientTransform', 'patternUnits',
+  'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+  'filterUnits', 'primitiveUnits', 'markerUnits', 'markerWidth', 'markerHeight', 'refX', 'refY',
+  'pathLength', 'spreadMethod', 'stdDeviation', 'baseFrequency', 'numOctaves', 'stitchTiles',
+  'kernelMatrix', 'kernelUnitLength', 'tableValues', 'specularConstant', 'specularExponent',
+  'diffuseConstant', 'surfaceScale', 'limitingConeAngle', 'pointsAtX', 'pointsAtY', 'pointsAtZ',
+  'xChannelSelector', 'yChannelSelector', 'edgeMode', 'targetX', 'targetY', 'lengthAdjust',
+  'textLength', 'startOffset', 'attributeName', 'attributeType', 'calcMode', 'keyTimes',
+  'keySplines', 'keyPoints', 'repeatCount', 'repeatDur', 'additive', 'accumulate',
+];
+const CANONICAL_ATTRIBUTES = new Map(CAMEL_CASE_ATTRIBUTES.map((name) => [name.toLowerCase(), name]));
+
+// JSX-only props with no SVG meaning
+const JSX_ONLY_ATTRIBUTES = new Set(['key', 'ref', 'dangerouslySetInnerHTML', 'suppressHydrationWarning']);
+const KNOWN_PREFIXES = new Set(['xlink', 'xml', 'xmlns']);
+
+// Elements that draw nothing by themselves
+const NON_GRAPHIC_ELEMENTS = new Set(['svg', 'defs', 'style', 'title', 'desc', 'metadata', 'script']);
+
+interface Attribute {
+  name: string;
+  value: string;
+}
+
+type Token =
+  | { type: 'open'; name: string; attributes: Attribute[]; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string }
+  | { type: 'raw'; text: string }
+  | { type: 'comment'; text: string }
+  | { type: 'cdata'; text: string };
+
+const unwrapMarkdown = (text: string, repairs: SvgRepair[]): string => {
+  // A fence may be left open when the stream was cut off, so the closing ``` is optional
+  for (const match of text.matchAll(/```[^\n]*\n?([\s\S]*?)(?:```|$)/g)) {
+    if (/<svg|&lt;svg/i.test(match[1])) {
+      repairs.push({ kind: 'markdown', detail: 'Removed markdown code fences.' });
+      return match[1];
+    }
+  }
+  return text;
+};
+
+const decodeEscapedMarkup = (text: string, repairs: SvgRepair[]): string => {
+  // Only when the whole document arrived HTML-escaped; entities inside real markup stay put
+  if (/<svg[\s>/]/i.test(text) || !/&lt;svg/i.test(text)) return text;
+  repairs.push({ kind: 'entities', detail: 'Decoded HTML-escaped markup.' });
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, '&#160;')
+    .replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[\da-fA-F]+);)/g, '&amp;')
+    .replace(/</g, '&lt;');
+
+const escapeAttribute = (value: string): string => escapeText(value).replace(/"/g, '&quot;');
+
+const kebabCase = (name: string): string => name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+const lowerFirst = (name: string): string => name.charAt(0).toLowerCase() + name.slice(1);
+
+/** Map a JSX or mis-cased attribute name to its SVG spelling; null drops the attribute. */
+const normalizeAttributeName = (name: string): string | null => {
+  if (JSX_ONLY_ATTRIBUTES.has(name)) return null;
+  if (name === 'className') return 'class';
+  if (name === 'htmlFor') return 'for';
+
+  const canonical = CANONICAL_ATTRIBUTES.get(name.toLowerCase());
+  if (canonical) return canonical;
+
+  const prefixed = name.match(/^(xlink|xmlns|xml)([A-Z]\w*)$/);
+  if (prefixed) return `${prefixed[1]}:${lowerFirst(prefixed[2])}`;
+
+  const colon = name.indexOf(':');
+  if (colon > 0 && !KNOWN_PREFIXES.has(name.slice(0, colon))) return null;
+
+  return /[A-Z]/.test(name) ? kebabCase(name) : name;
+};
+
+/** Read a brace-balanced JSX expression starting at `start` (which must be '{'); -1 when unterminated. */
+const readBraces = (src: string, start: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < src.length; i++) {
+    const c = src[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'" || c === '`') {
+      quote = c;
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+const STRING_LITERAL = /^(['"`])([\s\S]*)\1$/;
+
+/** Convert a JSX style object (`{{ strokeWidth: 2 }}`) into CSS declarations. */
+const styleObjectToCss = (body: string): string | null => {
+  const declarations: string[] = [];
+  const pattern = /([A-Za-z-]+|'[^']*'|"[^"]*")\s*:\s*('[^']*'|"[^"]*"|-?[\d.]+[\w%]*)/g;
+  for (const [, rawKey, rawValue] of body.matchAll(pattern)) {
+    const key = kebabCase(rawKey.replace(/^['"]|['"]$/g, ''));
+    const value = rawValue.replace(/^['"]|['"]$/g, '');
+    declarations.push(`${key}:${value}`);
+  }
+  return declarations.length > 0 ? declarations.join(';') : null;
+};
+
+/** Resolve a JSX attribute expression to a static string; null when it depends on runtime values. */
+const evaluateJsxValue = (expression: string, attributeName: string): string | null => {
+  const inner = expression.slice(1, -1).trim();
+  const literal = inner.match(STRING_LITERAL);
+  if (literal && !(literal[1] === '`' && literal[2].includes('${'))) return literal[2];
+  if (/^-?[\d.]+$/.test(inner)) return inner;
+  if (attributeName === 'style' && inner.startsWith('{') && inner.endsWith('}')) {
+    return styleObjectToCss(inner.slice(1, -1));
+  }
+  return null;
+};
+
+/** Strip JSX text expressions: `{/* comments *\/}` vanish and `{' '}` style literals become their text. */
+const cleanJsxText = (text: string): string =>
+  text
+    .replace(/\{\s*\/\*[\s\S]*?\*\/\s*\}/g, '')
+    .replace(/\{\s*(['"`])([^'"`{}]*)\1\s*\}/g, '$2');
+
+interface OpenTagResult {
+  token: Extract<Token, { type: 'open' }>;
+  end: number;
+}
+
+const parseOpenTag = (src: string, start: number, repairs: SvgRepair[]): OpenTagResult | null => {
+  const nameMatch = src.slice(start + 1).match(/^[A-Za-z][\w:.-]*/);
+  if (!nameMatch) return null;
+  const name = nameMatch[0];
+  const attributes: Attribute[] = [];
+  const seen = new Set<string>();
+  let pos = start + 1 + name.length;
+
+  const addAttribute = (rawName: string, value: string | null) => {
+    const normalized = normalizeAttributeName(rawName);
+    if (normalized === null) {
+      repairs.push({ kind: 'jsx', detail: `Dropped ${rawName} from <${name}>.` });
+      return;
+    }
+    if (value === null) {
+      repairs.push({ kind: 'attribute', detail: `Dropped valueless ${rawName} from <${name}>.` });
+      return;
+    }
+    if (seen.has(normalized)) {
+      repairs.push({ kind: 'attribute', detail: `Dropped duplicate ${normalized} on <${name}>.` });
+      return;
+    }
+    if (normalized !== rawName) {
+      repairs.push({ kind: 'jsx', detail: `Renamed ${rawName} to ${normalized}.` });
+    }
+    seen.add(normalized);
+    attributes.push({ name: normalized, value });
+  };
+
+  while (pos < src.length) {
+    const ws = src.slice(pos).match(/^\s*/)![0];
+    pos += ws.length;
+    if (pos >= src.length) break;
+
+    if (src.startsWith('/>', pos)) {
+      return { token: { type: 'open', name, attributes, selfClosing: true }, end: pos + 2 };
+    }
+    if (src[pos] === '>') {
+      return { token: { type: 'open', name, attributes, selfClosing: false }, end: pos + 1 };
+    }
+    if (src[pos] === '{') {
+      // Spread props such as {...props}
+      const end = readBraces(src, pos);
+      if (end < 0) break;
+      repairs.push({ kind: 'jsx', detail: `Dropped ${src.slice(pos, end)} from <${name}>.` });
+      pos = end;
+      continue;
+    }
+
+    const attrMatch = src.slice(pos).match(/^[^\s=/>{}"']+/);
+    if (!attrMatch) {
+      // Unexpected character inside the tag; skip it
+      pos++;
+      continue;
+    }
+    const rawName = attrMatch[0];
+    pos += rawName.length;
+    const beforeEquals = src.slice(pos).match(/^\s*=\s*/);
+    if (!beforeEquals) {
+      addAttribute(rawName, null);
+      continue;
+    }
+    pos += beforeEquals[0].length;
+    if (pos >= src.length) break;
+
+    const quote = src[pos];
+    if (quote === '"' || quote === "'") {
+      const close = src.indexOf(quote, pos + 1);
+      if (close < 0) break;
+      addAttribute(rawName, src.slice(pos + 1, close));
+      pos = close + 1;
+    } else if (quote === '{') {
+      const end = readBraces(src, pos);
+      if (end < 0) break;
+      const normalizedName = normalizeAttributeName(rawName) ?? rawName;
+      const value = evaluateJsxValue(src.slice(pos, end), normalizedName);
+      if (value === null) {
+        repairs.push({ kind: 'jsx', detail: `Dropped ${rawName} with a dynamic JSX value from <${name}>.` });
+      } else {
+        repairs.push({ kind: 'jsx', detail: `Converted JSX value of ${rawName} on <${name}>.` });
+        addAttribute(rawName, value);
+      }
+      pos = end;
+    } else {
+      let value = src.slice(pos).match(/^[^\s>"']+/)?.[0] ?? '';
+      if (value.endsWith('/') && src[pos + value.length] === '>') value = value.slice(0, -1);
+      repairs.push({ kind: 'attribute', detail: `Quoted unquoted ${rawName} on <${name}>.` });
+      addAttribute(rawName, value);
+      pos += value.length;
+    }
+  }
+
+  // Input ended inside the tag
+  return null;
+};
+
+interface TokenizeResult {
+  tokens: Token[];
+  // Index just past the root </svg>, or null when the input ended first
+  rootEnd: number | null;
+}
+
+const tokenize = (src: string, start: number, repairs: SvgRepair[]): TokenizeResult => {
+  const tokens: Token[] = [];
+  const stack: string[] = [];
+  let pos = start;
+  let truncated = false;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const cleaned = cleanJsxText(text);
+    if (cleaned !== text) repairs.push({ kind: 'jsx', detail: 'Removed JSX expressions from text content.' });
+    if (cleaned) tokens.push({ type: 'text', text: cleaned });
+  };
+
+  const closeTo = (depth: number) => {
+    while (stack.length > depth) tokens.push({ type: 'close', name: stack.pop()! });
+  };
+
+  while (pos < src.length) {
+    if (src.startsWith('<!--', pos)) {
+      const end = src.indexOf('-->', pos + 4);
+      if (end < 0) {
+        truncated = true;
+        break;
+      }
+      tokens.push({ type: 'comment', text: src.slice(pos + 4, end) });
+      pos = end + 3;
+    } else if (src.startsWith('<![CDATA[', pos)) {
+      const end = src.indexOf(']]>', pos + 9);
+      if (end < 0) {
+        tokens.push({ type: 'cdata', text: src.slice(pos + 9) });
+        truncated = true;
+        pos = src.length;
+        break;
+      }
+      tokens.push({ type: 'cdata', text: src.slice(pos + 9, end) });
+      pos = end + 3;
+    } else if (src.startsWith('<!', pos) || src.startsWith('<?', pos)) {
+      // Doctype or processing instruction inside the document; neither belongs in inline SVG
+      const end = src.indexOf('>', pos);
+      if (end < 0) {
+        truncated = true;
+        break;
+      }
+      pos = end + 1;
+    } else if (src.startsWith('</', pos)) {
+      const match = src.slice(pos).match(/^<\/\s*([A-Za-z][\w:.-]*)\s*>/);
+      if (!match) {
+        if (src.indexOf('>', pos) < 0) {
+          truncated = true;
+          break;
+        }
+        pushText('<');
+        pos++;
+        continue;
+      }
+      pos += match[0].length;
+      const name = match[1];
+      const depth = stack.lastIndexOf(name);
+      if (depth < 0) {
+        repairs.push({ kind: 'stray-close', detail: `Dropped stray </${name}>.` });
+        continue;
+      }
+      if (depth < stack.length - 1) {
+        const unclosed = stack.slice(depth + 1).map((n) => `<${n}>`).join(', ');
+        repairs.push({ kind: 'unclosed', detail: `Closed ${unclosed} before </${name}>.` });
+      }
+      closeTo(depth);
+      if (stack.length === 0) return { tokens, rootEnd: pos };
+    } else if (src[pos] === '<' && /[A-Za-z]/.test(src[pos + 1] || '')) {
+      const parsed = parseOpenTag(src, pos, repairs);
+      if (!parsed) {
+        truncated = true;
+        break;
+      }
+      const { token } = parsed;
+      tokens.push(token);
+      pos = parsed.end;
+      if (token.selfClosing) {
+        if (stack.length === 0) return { tokens, rootEnd: pos };
+        continue;
+      }
+      stack.push(token.name);
+      if (/^(style|script)$/i.test(token.name)) {
+        // Raw text: CSS may contain '<' and '{' that must not be read as markup or JSX
+        const close = src.slice(pos).search(new RegExp(`</\\s*${token.name}\\s*>`, 'i'));
+        if (close < 0) {
+          tokens.push({ type: 'raw', text: src.slice(pos) });
+          truncated = true;
+          pos = src.length;
+          break;
+        }
+        tokens.push({ type: 'raw', text: src.slice(pos, pos + close) });
+        pos += close;
+      }
+    } else {
+      const next = src.indexOf('<', pos + 1);
+      const end = next < 0 ? src.length : next;
+      pushText(src.slice(pos, end));
+      pos = end;
+    }
+  }
+
+  if (truncated) {
+    repairs.push({ kind: 'truncated', detail: 'The output was cut off; dropped or closed the unfinished tail.' });
+  }
+  if (stack.length > 0) {
+    const unclosed = stack.map((n) => `<${n}>`).reverse().join(', ');
+    repairs.push({ kind: 'unclosed', detail: `Closed ${stack.length} unclosed tag${stack.length === 1 ? '' : 's'} (${unclosed}).` });
+    closeTo(0);
+  }
+  return { tokens, rootEnd: null };
+};
+
+const serialize = (tokens: Token[]): string =>
+  tokens.map((token) => {
+    switch (token.type) {
+      case 'open': {
+        const attributes = token.attributes.map(({ name, value }) => ` ${name}="${escapeAttribute(value)}"`).join('');
+        return `<${token.name}${attributes}${token.selfClosing ? '/>' : '>'}`;
+      }
+      case 'close':
+        return `</${token.name}>`;
+      case 'text':
+        return escapeText(token.text);
+      case 'raw':
+        return /[<&]/.test(token.text) && !token.text.includes('<![CDATA[')
+          ? `<![CDATA[${token.text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+          : token.text;
+      case 'comment':
+        return `<!--${token.text.replace(/--/g, '- -')}-->`;
+      case 'cdata':
+        return `<![CDATA[${token.text}]]>`;
+    }
+  }).join('');
+
+const ensureNamespaces = (tokens: Token[], repairs: SvgRepair[]) => {
+  const root = tokens[0] as Extract<Token, { type: 'open' }>;
+  const has = (name: string) => root.attributes.some((attribute) => attribute.name === name);
+  if (!has('xmlns')) {
+    root.attributes.unshift({ name: 'xmlns', value: SVG_NS });
+    repairs.push({ kind: 'namespace', detail: 'Added the SVG namespace.' });
+  }
+  const usesXlink = tokens.some((token) =>
+    token.type === 'open' && token.attributes.some((attribute) => attribute.name.startsWith('xlink:')));
+  if (usesXlink && !has('xmlns:xlink')) {
+    root.attributes.push({ name: 'xmlns:xlink', value: XLINK_NS });
+    repairs.push({ kind: 'namespace', detail: 'Added the xlink namespace.' });
+  }
+};
+
+/**
+ * Extract and repair the SVG document in `text`.
+ * Throws SvgExtractionError when there is no salvageable drawing.
+ */
+export const extractSvg = (text: string): SvgExtraction => {
+  const repairs: SvgRepair[] = [];
+  if (!text.trim()) throw new SvgExtractionError('empty', 'The model returned no output.');
+
+  const source = decodeEscapedMarkup(unwrapMarkdown(text, repairs), repairs);
+  const start = source.search(/<svg(?=[\s>/])/i);
+  if (start < 0) {
+    throw new SvgExtractionError('no-svg', 'The output does not contain an <svg> element.', repairs);
+  }
+  if (source.slice(0, start).trim()) {
+    repairs.push({ kind: 'wrapper', detail: 'Dropped text before <svg>.' });
+  }
+
+  const { tokens, rootEnd } = tokenize(source, start, repairs);
+  if (rootEnd !== null && source.slice(rootEnd).trim()) {
+    repairs.push({ kind: 'wrapper', detail: 'Dropped text after </svg>.' });
+  }
+
+  const root = tokens[0];
+  if (!root) {
+    throw new SvgExtractionError('malformed', 'The output ends inside the opening <svg> tag.', repairs);
+  }
+  if (root.type === 'open' && root.name !== 'svg') {
+    repairs.push({ kind: 'attribute', detail: `Normalized <${root.name}> to <svg>.` });
+    root.name = 'svg';
+    const close = tokens[tokens.length - 1];
+    if (close.type === 'close') close.name = 'svg';
+  }
+  ensureNamespaces(tokens, repairs);
+
+  const hasContent = tokens.some((token) => token.type === 'open' && !NON_GRAPHIC_ELEMENTS.has(token.name));
+  if (!hasContent) {
+    throw new SvgExtractionError('no-content', 'The <svg> element contains nothing to draw.', repairs);
+  }
+
+  const svgCode = serialize(tokens);
+  if (typeof DOMParser !== 'undefined') {
+    const error = checkWellFormed(svgCode);
+    if (error) {
+      throw new SvgExtractionError('malformed', `The SVG could not be repaired: ${error.message}`, repairs);
+    }
+  }
+  return { svgCode, repairs };
+};
+
+/** One-line summary of the repairs, e.g. for an artist note; null when nothing was changed. */
+export const summarizeRepairs = (repairs: SvgRepair[]): string | null => {
+  if (repairs.length === 0) return null;
+  const counts = new Map<SvgRepairKind, number>();
+  repairs.forEach(({ kind }) => counts.set(kind, (counts.get(kind) || 0) + 1));
+  const labels: Record<SvgRepairKind, string> = {
+    markdown: 'markdown fences',
+    entities: 'escaped markup',
+    wrapper: 'surrounding text',
+    jsx: 'JSX artifacts',
+    attribute: 'attributes',
+    truncated: 'truncated output',
+    unclosed: 'unclosed tags',
+    'stray-close': 'stray closing tags',
+    namespace: 'namespaces',
+  };
+  const parts = [...counts].map(([kind, count]) => `${labels[kind]}${count > 1 ? ` (${count})` : ''}`);
+  return `Repaired SVG output: ${parts.join(', ')}.`;
+};
@@ -0,0 +1,423 @@
+// Static checks on generated SVG markup: things the vision critique cannot see (dangling
+// references, duplicate ids) or tends to miss (invisible zero-size shapes, content drawn
+// outside the viewBox, animations the frame sampler cannot capture).
+
+import { parsePathData } from './svgOptimizer';
+import { ANIMATED_PROPERTIES } from './animationFrames';
+import type { CritiqueIssue, CritiqueSeverity, StructuredCritique } from '../types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'parse'
+  | 'viewbox'
+  | 'broken-reference'
+  | 'duplicate-id'
+  | 'zero-size'
+  | 'off-canvas'
+  | 'unsupported-animation'
+  | 'node-count';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  elementCount: number;
+  maxDepth: number;
+  // Element counts by tag name, most frequent first
+  elementsByTag: [string, number][];
+}
+
+export const MAX_ELEMENT_COUNT = 1500;
+export const MAX_DEPTH = 24;
+
+// User preference stored in localStorage
+const LINT_IN_REFINE_KEY = 'sketch_ai_lint_in_refine';
+
+export const getLintInRefine = (): boolean => {
+  try {
+    return localStorage.getItem(LINT_IN_REFINE_KEY) === 'true';
+  } catch {
+    // localStorage not available (privacy mode, etc.)
+    return false;
+  }
+};
+
+export const setLintInRefine = (enabled: boolean): void => {
+  localStorage.setItem(LINT_IN_REFINE_KEY, String(enabled));
+};
+
+// Aspect ratios beyond this are almost always a typo in the viewBox
+const MAX_ASPECT_RATIO = 5;
+
+// Containers whose children are not drawn in place
+const NON_RENDERED_CONTAINERS = new Set(['defs', 'clipPath', 'mask', 'symbol', 'pattern', 'marker', 'linearGradient', 'radialGradient', 'filter']);
+
+const SMIL_ELEMENTS = new Set(['animate', 'animateTransform', 'animateMotion', 'set']);
+
+// Keyframe declarations that control timing rather than drawing
+const KEYFRAME_TIMING_PROPERTIES = new Set(['animation-timing-function', 'offset', 'animation-composition']);
+
+const URL_REFERENCE = /url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const parseNumbers = (value: string | null): number[] =>
+  (value || '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+
+// Plain user-unit lengths only; percentages and em units depend on layout
+const readLength = (element: Element, name: string): number | null => {
+  const value = element.getAttribute(name);
+  if (value === null) return null;
+  return /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?(?:px)?\s*$/i.test(value) ? Number.parseFloat(value) : null;
+};
+
+const readLengthOr = (element: Element, name: string, fallback: number): number | null =>
+  element.hasAttribute(name) ? readLength(element, name) : fallback;
+
+const describe = (element: Element): string => {
+  const id = element.getAttribute('id');
+  return id ? `<${element.localName} id="${id}">` : `<${element.localName}>`;
+};
+
+const pathBox = (d: string): Box | null => {
+  const segments = parsePathData(d);
+  if (!segments || segments.length === 0) return null;
+  const box: Box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  const include = (px: number, py: number) => {
+    box.minX = Math.min(box.minX, px);
+    box.minY = Math.min(box.minY, py);
+    box.maxX = Math.max(box.maxX, px);
+    box.maxY = Math.max(box.maxY, py);
+  };
+
+  // End points and control points; curves never leave their control polygon
+  for (const { command, args } of segments) {
+    const relative = command === command.toLowerCase();
+    const type = command.toLowerCase();
+    if (type === 'z') {
+      x = startX;
+      y = startY;
+      continue;
+    }
+    if (type === 'h') {
+      x = relative ? x + args[0] : args[0];
+    } else if (type === 'v') {
+      y = relative ? y + args[0] : args[0];
+    } else if (type === 'a') {
+      // Approximate arcs by their radii around both end points
+      const [rx, ry] = args;
+      include(x - rx, y - ry);
+      include(x + rx, y + ry);
+      x = relative ? x + args[5] : args[5];
+      y = relative ? y + args[6] : args[6];
+      include(x - rx, y - ry);
+      include(x + rx, y + ry);
+    } else {
+      for (let i = 0; i < args.length; i += 2) {
+        include(relative ? x + args[i] : args[i], relative ? y + args[i + 1] : args[i + 1]);
+      }
+      x = relative ? x + args[args.length - 2] : args[args.length - 2];
+      y = relative ? y + args[args.length - 1] : args[args.length - 1];
+    }
+    if (type === 'm') {
+      startX = x;
+      startY = y;
+    }
+    include(x, y);
+  }
+  return Number.isFinite(box.minX) ? box : null;
+};
+
+/** Untransformed bounding box from the geometry attributes; null when it cannot be known statically. */
+const elementBox = (element: Element): Box | null => {
+  switch (element.localName) {
+    case 'rect':
+    case 'image':
+    case 'use':
+    case 'foreignObject': {
+      const x = readLengthOr(element, 'x', 0);
+      const y = readLengthOr(element, 'y', 0);
+      const width = readLength(element, 'width');
+      const height = readLength(element, 'height');
+      if (x === null || y === null || width === null || height === null) return null;
+      return { minX: x, minY: y, maxX: x + width, maxY: y + height };
+    }
+    case 'circle': {
+      const cx = readLengthOr(element, 'cx', 0);
+      const cy = readLengthOr(element, 'cy', 0);
+      const r = readLength(element, 'r');
+      if (cx === null || cy === null || r === null) return null;
+      return { minX: cx - r, minY: cy - r, maxX: cx + r, maxY: cy + r };
+    }
+    case 'ellipse': {
+      const cx = readLengthOr(element, 'cx', 0);
+      const cy = readLengthOr(element, 'cy', 0);
+      const rx = readLength(element, 'rx');
+      const ry = readLength(element, 'ry');
+      if (cx === null || cy === null || rx === null || ry === null) return null;
+      return { minX: cx - rx, minY: cy - ry, maxX: cx + rx, maxY: cy + ry };
+    }
+    case 'line': {
+      const [x1, y1, x2, y2] = ['x1', 'y1', 'x2', 'y2'].map((name) => readLengthOr(element, name, 0));
+      if (x1 === null || y1 === null || x2 === null || y2 === null) return null;
+      return { minX: Math.min(x1, x2), minY: Math.min(y1, y2), maxX: Math.max(x1, x2), maxY: Math.max(y1, y2) };
+    }
+    case 'polyline':
+    case 'polygon': {
+      const points = parseNumbers(element.getAttribute('points'));
+      if (points.length < 2 || points.some(Number.isNaN)) return null;
+      const xs = points.filter((_, i) => i % 2 === 0);
+      const ys = points.filter((_, i) => i % 2 === 1);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+    case 'path':
+      return pathBox(element.getAttribute('d') || '');
+    default:
+      return null;
+  }
+};
+
+const ZERO_SIZE_ATTRIBUTES: Record<string, string[]> = {
+  rect: ['width', 'height'],
+  image: ['width', 'height'],
+  circle: ['r'],
+  ellipse: ['rx', 'ry'],
+};
+
+/** Explains why a shape draws nothing, or null when it has visible size. */
+const zeroSizeReason = (element: Element): string | null => {
+  const required = ZERO_SIZE_ATTRIBUTES[element.localName];
+  if (required) {
+    const zero = required.find((name) => {
+      if (!element.hasAttribute(name)) return element.localName !== 'image';
+      const value = readLength(element, name);
+      return value !== null && value <= 0;
+    });
+    return zero ? `${zero} is ${element.getAttribute(zero) ?? 'missing'}` : null;
+  }
+  if (element.localName === 'path') {
+    const d = (element.getAttribute('d') || '').trim();
+    if (!d) return 'path data is empty';
+    const segments = parsePathData(d);
+    if (segments && segments.every(({ command }) => /[mMzZ]/.test(command))) return 'path data only moves';
+    return null;
+  }
+  if (element.localName === 'line') {
+    const [x1, y1, x2, y2] = ['x1', 'y1', 'x2', 'y2'].map((name) => readLengthOr(element, name, 0));
+    return x1 !== null && x1 === x2 && y1 === y2 ? 'start and end points are the same' : null;
+  }
+  return null;
+};
+
+const hasTransformedAncestor = (element: Element, root: Element): boolean => {
+  for (let node: Element | null = element; node && node !== root; node = node.parentElement) {
+    if (node.hasAttribute('transform') || node.localName === 'svg') return true;
+  }
+  return false;
+};
+
+const isInsideNonRendered = (element: Element, root: Element): boolean => {
+  for (let node = element.parentElement; node && node !== root; node = node.parentElement) {
+    if (NON_RENDERED_CONTAINERS.has(node.localName)) return true;
+  }
+  return false;
+};
+
+/** Property names assigned inside every @keyframes block of a stylesheet. */
+const keyframeProperties = (css: string): Set<string> => {
+  const properties = new Set<string>();
+  const pattern = /@(?:-webkit-)?keyframes\s+[^{]+\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(css))) {
+    let depth = 1;
+    let end = pattern.lastIndex;
+    while (end < css.length && depth > 0) {
+      if (css[end] === '{') depth++;
+      else if (css[end] === '}') depth--;
+      end++;
+    }
+    const body = css.slice(pattern.lastIndex, end);
+    for (const [, property] of body.matchAll(/([a-z-]+)\s*:/gi)) {
+      properties.add(property.toLowerCase());
+    }
+    pattern.lastIndex = end;
+  }
+  return properties;
+};
+
+const lintViewBox = (root: Element, issues: LintIssue[]) => {
+  const raw = root.getAttribute('viewBox');
+  if (raw === null) {
+    issues.push({ rule: 'viewbox', severity: 'warning', message: 'No viewBox: the drawing will not scale with its container.' });
+    return null;
+  }
+  const values = parseNumbers(raw);
+  if (values.length !== 4 || values.some(Number.isNaN)) {
+    issues.push({ rule: 'viewbox', severity: 'error', message: `viewBox "${raw}" is not four numbers.` });
+    return null;
+  }
+  const [minX, minY, width, height] = values;
+  if (width <= 0 || height <= 0) {
+    issues.push({ rule: 'viewbox', severity: 'error', message: `viewBox "${raw}" has a zero or negative size; nothing renders.` });
+    return null;
+  }
+  const aspect = width / height;
+  if (aspect > MAX_ASPECT_RATIO || aspect < 1 / MAX_ASPECT_RATIO) {
+    issues.push({ rule: 'viewbox', severity: 'warning', message: `viewBox "${raw}" has an unusual ${aspect.toFixed(2)}:1 aspect ratio.` });
+  }
+  const attrWidth = readLength(root, 'width');
+  const attrHeight = readLength(root, 'height');
+  if (attrWidth && attrHeight && Math.abs(attrWidth / attrHeight - aspect) / aspect > 0.05) {
+    issues.push({
+      rule: 'viewbox',
+      severity: 'info',
+      message: `width/height (${attrWidth}x${attrHeight}) do not match the viewBox aspect ratio; the drawing is letterboxed.`,
+    });
+  }
+  return { minX, minY, maxX: minX + width, maxY: minY + height };
+};
+
+/** Lint SVG markup. Parsing failures are reported as an error issue rather than thrown. */
+export const lintSvg = (svgCode: string): LintReport => {
+  const issues: LintIssue[] = [];
+  const report: LintReport = { issues, elementCount: 0, maxDepth: 0, elementsByTag: [] };
+
+  const doc = new DOMParser().parseFromString(svgCode, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    issues.push({ rule: 'parse', severity: 'error', message: 'The markup is not a well-formed SVG document.' });
+    return report;
+  }
+
+  const canvas = lintViewBox(root, issues);
+  const elements = [root, ...Array.from(root.getElementsByTagName('*'))];
+  const tagCounts = new Map<string, number>();
+  const ids = new Map<string, number>();
+
+  elements.forEach((element) => {
+    tagCounts.set(element.localName, (tagCounts.get(element.localName) || 0) + 1);
+    const id = element.getAttribute('id');
+    if (id) ids.set(id, (ids.get(id) || 0) + 1);
+    let depth = 0;
+    for (let node = element.parentElement; node; node = node.parentElement) depth++;
+    report.maxDepth = Math.max(report.maxDepth, depth);
+  });
+  report.elementCount = elements.length;
+  report.elementsByTag = [...tagCounts].sort((a, b) => b[1] - a[1]);
+
+  ids.forEach((count, id) => {
+    if (count > 1) {
+      issues.push({ rule: 'duplicate-id', severity: 'error', message: `id "${id}" is used ${count} times; references resolve to the first one only.` });
+    }
+  });
+
+  // References: url(#id) in attributes, inline styles and <style> sheets, plus href="#id"
+  const missing = new Map<string, string>();
+  const checkReference = (id: string, source: string) => {
+    if (!ids.has(id) && !missing.has(id)) missing.set(id, source);
+  };
+  elements.forEach((element) => {
+    Array.from(element.attributes).forEach((attribute) => {
+      for (const [, id] of attribute.value.matchAll(URL_REFERENCE)) checkReference(id, describe(element));
+      if (attribute.localName === 'href' && attribute.value.startsWith('#')) {
+        checkReference(attribute.value.slice(1), describe(element));
+      }
+    });
+  });
+  const stylesheets = Array.from(root.getElementsByTagName('style')).map((style) => style.textContent || '');
+  stylesheets.forEach((css) => {
+    for (const [, id] of css.matchAll(URL_REFERENCE)) checkReference(id, '<style>');
+  });
+  missing.forEach((source, id) => {
+    issues.push({ rule: 'broken-reference', severity: 'error', message: `${source} references #${id}, which does not exist.` });
+  });
+
+  elements.forEach((element) => {
+    if (isInsideNonRendered(element, root)) return;
+    // Animated geometry may grow from zero or fly in from off-canvas on purpose
+    const animated = Array.from(element.children).some((child) => SMIL_ELEMENTS.has(child.localName));
+
+    const reason = animated ? null : zeroSizeReason(element);
+    if (reason) {
+      issues.push({ rule: 'zero-size', severity: 'warning', message: `${describe(element)} draws nothing: ${reason}.` });
+      return;
+    }
+
+    if (!canvas || animated || hasTransformedAncestor(element, root)) return;
+    const box = elementBox(element);
+    if (box && (box.maxX < canvas.minX || box.minX > canvas.maxX || box.maxY < canvas.minY || box.minY > canvas.maxY)) {
+      issues.push({ rule: 'off-canvas', severity: 'warning', message: `${describe(element)} lies entirely outside the viewBox.` });
+    }
+  });
+
+  // Animations the frame sampler cannot bake into evaluation frames and exports
+  const captured = new Set<string>(ANIMATED_PROPERTIES);
+  const unsupported = new Set<string>();
+  stylesheets.forEach((css) => {
+    keyframeProperties(css).forEach((property) => {
+      if (!captured.has(property) && !KEYFRAME_TIMING_PROPERTIES.has(property)) unsupported.add(property);
+    });
+  });
+  elements.forEach((element) => {
+    if (element.localName === 'animateMotion') unsupported.add('motion path (<animateMotion>)');
+    if (element.localName === 'animate' || element.localName === 'set') {
+      const attributeName = element.getAttribute('attributeName');
+      if (attributeName && !captured.has(attributeName)) unsupported.add(attributeName);
+    }
+  });
+  unsupported.forEach((property) => {
+    issues.push({
+      rule: 'unsupported-animation',
+      severity: 'warning',
+      message: `Animating ${property} is not captured in evaluation frames or exports, and some browsers ignore it.`,
+    });
+  });
+
+  if (report.elementCount > MAX_ELEMENT_COUNT) {
+    issues.push({
+      rule: 'node-count',
+      severity: 'warning',
+      message: `${report.elementCount} elements (limit ${MAX_ELEMENT_COUNT}); rendering and editing will be slow.`,
+    });
+  }
+  if (report.maxDepth > MAX_DEPTH) {
+    issues.push({ rule: 'node-count', severity: 'warning', message: `Elements are nested ${report.maxDepth} levels deep (limit ${MAX_DEPTH}).` });
+  }
+
+  const order: LintSeverity[] = ['error', 'warning', 'info'];
+  issues.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+  return report;
+};
+
+const CRITIQUE_SEVERITY: Record<LintSeverity, CritiqueSeverity> = {
+  error: 'high',
+  warning: 'medium',
+  info: 'low',
+};
+
+/** Copy of the critique with lint errors and warnings added as technical checklist items. */
+export const appendLintIssues = (critique: StructuredCritique, report: LintReport): StructuredCritique => {
+  const lintIssues: CritiqueIssue[] = report.issues
+    .filter((issue) => issue.severity !== 'info')
+    .map((issue) => ({
+      text: `[Lint] ${issue.message}`,
+      criterion: 'technicalExecution',
+      severity: CRITIQUE_SEVERITY[issue.severity],
+    }));
+  if (lintIssues.length === 0) return critique;
+  return { ...critique, issues: [...critique.issues, ...lintIssues] };
+};
@@ -0,0 +1,368 @@
+// Lossless-in-practice cleanup for model-written SVGs: fewer decimals, no dead ids/defs, no empty
+// wrapper groups, compact path data and presentation attributes instead of inline style soup.
+
+export interface SvgOptimizerOptions {
+  // Decimal places kept for coordinates and lengths in a 100-unit viewBox; smaller viewBoxes keep more
+  precision: number;
+}
+
+export interface SvgOptimizeResult {
+  code: string;
+  originalBytes: number;
+  optimizedBytes: number;
+  // Names of the passes that changed something, in order
+  applied: string[];
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: SvgOptimizerOptions = { precision: 2 };
+
+// User preference stored in localStorage
+const OPTIMIZE_KEY = 'sketch_ai_optimize_svg';
+
+export const getOptimizeOnSave = (): boolean => {
+  try {
+    return localStorage.getItem(OPTIMIZE_KEY) === 'true';
+  } catch {
+    // localStorage not available (privacy mode, etc.)
+    return false;
+  }
+};
+
+export const setOptimizeOnSave = (enabled: boolean): void => {
+  localStorage.setItem(OPTIMIZE_KEY, String(enabled));
+};
+
+export const byteLength = (code: string): number => new TextEncoder().encode(code).length;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Transforms are left alone: scale factors and angles do not follow the viewBox size
+const NUMERIC_ATTRIBUTES = new Set([
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'width', 'height',
+  'points', 'viewBox', 'stroke-width', 'stroke-dashoffset', 'stroke-dasharray', 'font-size', 'dx', 'dy',
+]);
+
+// Inline style properties that have an equivalent presentation attribute
+const PRESENTATION_PROPERTIES = new Set([
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'opacity',
+  'stop-color', 'stop-opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor',
+  'dominant-baseline', 'visibility', 'display', 'clip-rule',
+]);
+
+const SMIL_ELEMENTS = new Set(['animate', 'animateTransform', 'animateMotion', 'set']);
+
+// Text content matters inside these; whitespace-only nodes elsewhere are dropped
+const WHITESPACE_SENSITIVE = new Set(['text', 'tspan', 'textPath', 'style', 'title', 'desc']);
+
+const formatNumber = (value: number, precision: number): string => {
+  if (value === 0) return '0';
+  let rounded = Number(value.toFixed(precision));
+  // A tiny non-zero value would vanish at this precision, so keep its leading digits instead
+  if (rounded === 0) rounded = Number(value.toPrecision(2));
+  return String(rounded).replace(/^(-?)0\./, '$1.');
+};
+
+const roundNumbersIn = (value: string, precision: number): string =>
+  value.replace(/-?\d*\.\d+(?:[eE][-+]?\d+)?/g, (match) => formatNumber(Number(match), precision));
+
+// ===== Path data =====
+
+const PATH_ARG_COUNTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+interface PathSegment {
+  command: string;
+  args: number[];
+}
+
+/** Parse path data into segments; null when it is malformed so the original is kept. */
+export const parsePathData = (d: string): PathSegment[] | null => {
+  const segments: PathSegment[] = [];
+  let index = 0;
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) return null;
+    index += match[0].length;
+    return Number(match[0]);
+  };
+  const readFlag = (): number | null => {
+    skipSeparators();
+    const char = d[index];
+    if (char !== '0' && char !== '1') return null;
+    index++;
+    return Number(char);
+  };
+
+  skipSeparators();
+  let command = '';
+  while (index < d.length) {
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+      if (!(command.toLowerCase() in PATH_ARG_COUNTS)) return null;
+    } else if (!command) {
+      return null;
+    }
+    const count = PATH_ARG_COUNTS[command.toLowerCase()];
+    if (count === 0) {
+      segments.push({ command, args: [] });
+    } else {
+      const args: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = command.toLowerCase() === 'a' && (i === 3 || i === 4) ? readFlag() : readNumber();
+        if (value === null) return null;
+        args.push(value);
+      }
+      segments.push({ command, args });
+      // Extra coordinate pairs after a moveto are implicit linetos
+      if (command === 'M') command = 'L';
+      else if (command === 'm') command = 'l';
+    }
+    skipSeparators();
+  }
+  return segments;
+};
+
+/** Serialize with minimal separators and without repeating the command letter. */
+export const serializePathData = (segments: PathSegment[], precision: number): string => {
+  let out = '';
+  let previousCommand = '';
+  let previousToken = '';
+  segments.forEach(({ command, args }, segmentIndex) => {
+    // A repeated M would turn into an implicit L, so movetos always keep their letter
+    const implicit = command === previousCommand && command.toLowerCase() !== 'm' && args.length > 0 && segmentIndex > 0;
+    if (!implicit) {
+      out += command;
+      previousToken = command;
+    }
+    previousCommand = command;
+    args.forEach((arg, argIndex) => {
+      const isFlag = command.toLowerCase() === 'a' && (argIndex === 3 || argIndex === 4);
+      const token = isFlag ? String(arg) : formatNumber(arg, precision);
+      const needsSeparator = /[\d.]$/.test(previousToken)
+        && !token.startsWith('-')
+        && !(token.startsWith('.') && previousToken.includes('.'));
+      out += (needsSeparator ? ' ' : '') + token;
+      previousToken = token;
+    });
+  });
+  return out;
+};
+
+const compactPath = (d: string, precision: number): string => {
+  const segments = parsePathData(d.trim());
+  return segments ? serializePathData(segments, precision) : d;
+};
+
+// ===== Tree passes =====
+
+const elementsOf = (root: Element): Element[] => [root, ...Array.from(root.getElementsByTagName('*'))];
+
+const removeCommentsAndMetadata = (root: Element): boolean => {
+  let changed = false;
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach((node) => {
+    node.parentNode?.removeChild(node);
+    changed = true;
+  });
+  Array.from(root.getElementsByTagName('metadata')).forEach((node) => {
+    node.remove();
+    changed = true;
+  });
+  return changed;
+};
+
+const removeWhitespaceNodes = (root: Element): boolean => {
+  let changed = false;
+  elementsOf(root).forEach((element) => {
+    if (WHITESPACE_SENSITIVE.has(element.localName)) return;
+    Array.from(element.childNodes).forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE && !(child.textContent || '').trim()) {
+        element.removeChild(child);
+        changed = true;
+      }
+    });
+  });
+  return changed;
+};
+
+// Extra decimals for viewBoxes under 100 units, so the same visual detail survives at any scale
+const precisionFor = (root: Element, precision: number): number => {
+  const viewBox = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  const size = viewBox.length === 4
+    ? Math.max(viewBox[2], viewBox[3])
+    : Math.max(parseFloat(root.getAttribute('width') || ''), parseFloat(root.getAttribute('height') || ''));
+  if (!Number.isFinite(size) || size <= 0) return precision;
+  return precision + Math.max(0, Math.ceil(Math.log10(100 / size)));
+};
+
+const reducePrecision = (root: Element, basePrecision: number): boolean => {
+  const precision = precisionFor(root, basePrecision);
+  let changed = false;
+  elementsOf(root).forEach((element) => {
+    Array.from(element.attributes).forEach((attr) => {
+      let next = attr.value;
+      if (attr.name === 'd' && element.localName !== 'glyph') next = compactPath(attr.value, precision);
+      else if (NUMERIC_ATTRIBUTES.has(attr.name)) next = roundNumbersIn(attr.value, attr.name === 'viewBox' ? precision + 1 : precision);
+      if (next !== attr.value) {
+        element.setAttribute(attr.name, next);
+        changed = true;
+      }
+    });
+  });
+  return changed;
+};
+
+const styleToAttributes = (root: Element): boolean => {
+  // Inline styles beat stylesheet rules but attributes lose to them, so moving them is only safe without a <style>
+  if (root.getElementsByTagName('style').length > 0) return false;
+  let changed = false;
+  elementsOf(root).forEach((element) => {
+    const style = element.getAttribute('style');
+    if (!style) return;
+    const kept: string[] = [];
+    style.split(';').forEach((declaration) => {
+      const colon = declaration.indexOf(':');
+      if (colon < 0) return;
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (!property || !value) return;
+      if (PRESENTATION_PROPERTIES.has(property) && !/!important|url\(/i.test(value)) {
+        element.setAttribute(property, value);
+      } else {
+        kept.push(`${property}:${value}`);
+      }
+    });
+    const nextStyle = kept.join(';');
+    if (nextStyle) {
+      if (nextStyle !== style) element.setAttribute('style', nextStyle);
+    } else {
+      element.removeAttribute('style');
+    }
+    changed = changed || nextStyle !== style;
+  });
+  return changed;
+};
+
+// Everything that could point at an id: url(#id), href="#id", CSS selectors and SMIL begin="id.end"
+const collectReferencedIds = (root: Element): Set<string> => {
+  const referenced = new Set<string>();
+  const scan = (text: string) => {
+    for (const match of text.matchAll(/#([\w.:-]+)/g)) referenced.add(match[1]);
+  };
+  elementsOf(root).forEach((element) => {
+    Array.from(element.attributes).forEach((attr) => {
+      if (attr.name === 'id') return;
+      scan(attr.value);
+      if (attr.name === 'begin' || attr.name === 'end') {
+        for (const match of attr.value.matchAll(/([\w:-]+)\./g)) referenced.add(match[1]);
+      }
+      if (attr.name.startsWith('aria-')) attr.value.split(/\s+/).forEach((id) => referenced.add(id));
+    });
+    if (element.localName === 'style') scan(element.textContent || '');
+  });
+  return referenced;
+};
+
+const removeUnusedDefs = (root: Element): boolean => {
+  let changed = false;
+  // Removing one definition can orphan another (e.g. a gradient inheriting via href), so repeat
+  for (let pass = 0; pass < 5; pass++) {
+    const referenced = collectReferencedIds(root);
+    let removed = false;
+    Array.from(root.getElementsByTagName('defs')).forEach((defs) => {
+      Array.from(defs.children).forEach((child) => {
+        if (child.localName === 'style') return;
+        // A wrapper without an id stays while anything inside it is referenced
+        const used = [child, ...Array.from(child.getElementsByTagName('*'))].some((element) => {
+          const id = element.getAttribute('id');
+          return id !== null && referenced.has(id);
+        });
+        if (!used) {
+          child.remove();
+          removed = true;
+        }
+      });
+      if (defs.children.length === 0) {
+        defs.remove();
+        removed = true;
+      }
+    });
+    if (!removed) break;
+    changed = true;
+  }
+  return changed;
+};
+
+const removeUnusedIds = (root: Element): boolean => {
+  const referenced = collectReferencedIds(root);
+  let changed = false;
+  elementsOf(root).forEach((element) => {
+    const id = element.getAttribute('id');
+    if (id !== null && !referenced.has(id)) {
+      element.removeAttribute('id');
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+const collapseGroups = (root: Element): boolean => {
+  // Stylesheets can target groups structurally (g > path, :nth-child), so only drop empty ones then
+  const canUnwrap = root.getElementsByTagName('style').length === 0;
+  let changed = false;
+  // Deepest groups first so nested wrappers collapse in one go
+  Array.from(root.getElementsByTagName('g')).reverse().forEach((group) => {
+    if (group.childNodes.length === 0) {
+      if (!group.hasAttribute('id')) {
+        group.remove();
+        changed = true;
+      }
+      return;
+    }
+    // SMIL children animate their parent, so unwrapping would retarget them
+    const hasSmilChild = Array.from(group.children).some((child) => SMIL_ELEMENTS.has(child.localName));
+    if (canUnwrap && !hasSmilChild && group.attributes.length === 0 && group.parentNode) {
+      while (group.firstChild) group.parentNode.insertBefore(group.firstChild, group);
+      group.remove();
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+/**
+ * Optimize SVG markup. Returns the input unchanged when it does not parse or the result
+ * would not be smaller.
+ */
+export const optimizeSvg = (code: string, options: SvgOptimizerOptions = DEFAULT_OPTIMIZER_OPTIONS): SvgOptimizeResult => {
+  const originalBytes = byteLength(code);
+  const unchanged: SvgOptimizeResult = { code, originalBytes, optimizedBytes: originalBytes, applied: [] };
+
+  const doc = new DOMParser().parseFromString(code, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') return unchanged;
+
+  const passes: [string, () => boolean][] = [
+    ['comments', () => removeCommentsAndMetadata(root)],
+    ['whitespace', () => removeWhitespaceNodes(root)],
+    ['style-to-attributes', () => styleToAttributes(root)],
+    ['precision', () => reducePrecision(root, options.precision)],
+    ['unused-defs', () => removeUnusedDefs(root)],
+    ['unused-ids', () => removeUnusedIds(root)],
+    ['empty-groups', () => collapseGroups(root)],
+  ];
+  const applied = passes.filter(([, run]) => run()).map(([name]) => name);
+
+  if (!root.getAttribute('xmlns')) root.setAttribute('xmlns', SVG_NS);
+  const optimized = new XMLSerializer().serializeToString(doc);
+  const optimizedBytes = byteLength(optimized);
+  if (applied.length === 0 || optimizedBytes >= originalBytes) return unchanged;
+
+  return { code: optimized, originalBytes, optimizedBytes, applied };
+};
@@ -0,0 +1,319 @@
+// Palette extraction and recoloring. Colors are found in paint attributes, inline styles, <style>
+// sheets and SMIL color animations, clustered by perceptual distance, and rewritten in place as
+// text so nothing else in the markup changes.
+
+export interface PaletteColor {
+  // Most frequent member; identifies the cluster
+  hex: string;
+  // Every distinct #rrggbb folded into this cluster, most frequent first
+  members: string[];
+  // Occurrences across the document
+  count: number;
+}
+
+export interface BrandPalette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export type PaletteVariant = 'light' | 'dark';
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+type Lab = [number, number, number];
+
+// Colors closer than this (CIE76 ΔE) are treated as shades of one palette entry
+const CLUSTER_DISTANCE = 12;
+
+// User preference stored in localStorage
+const BRAND_PALETTES_KEY = 'sketch_ai_brand_palettes';
+
+export const getBrandPalettes = (): BrandPalette[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BRAND_PALETTES_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((p): p is BrandPalette => typeof p?.id === 'string' && typeof p?.name === 'string' && Array.isArray(p?.colors))
+      : [];
+  } catch {
+    // localStorage not available (privacy mode, etc.) or unreadable
+    return [];
+  }
+};
+
+export const setBrandPalettes = (palettes: BrandPalette[]): void => {
+  localStorage.setItem(BRAND_PALETTES_KEY, JSON.stringify(palettes));
+};
+
+// ===== Parsing =====
+
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
+
+const COLOR_ATTRIBUTES = new Set(['fill', 'stroke', 'stop-color', 'flood-color', 'lighting-color', 'color']);
+const COLOR_PROPERTIES = /(^|[;{\s])((?:fill|stroke|stop-color|flood-color|lighting-color|color|background-color|background)\s*:\s*)([^;{}"]+)/gi;
+// SMIL values that animate a paint attribute
+const ANIMATION_VALUE_ATTRIBUTES = new Set(['values', 'from', 'to', 'by']);
+// url(...) references come first so the #id inside them is never read as a hex color
+const COLOR_TOKEN = /url\([^)]*\)|#[0-9a-fA-F]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)|\b[a-zA-Z]+\b/g;
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+const parseChannel = (value: string, scale: number): number =>
+  value.endsWith('%') ? (parseFloat(value) / 100) * scale : parseFloat(value);
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+};
+
+const parseHex = (hex: string): Rgba | null => {
+  const digits = hex.length === 3 || hex.length === 4 ? hex.split('').map((d) => d + d).join('') : hex;
+  if (digits.length !== 6 && digits.length !== 8) return null;
+  const value = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+  return { r: value(0), g: value(2), b: value(4), a: digits.length === 8 ? value(6) / 255 : 1 };
+};
+
+/** Parse a CSS/SVG color; null for none, currentColor, keywords and anything unrecognised. */
+const parseColor = (token: string): Rgba | null => {
+  const lower = token.toLowerCase();
+  if (lower.startsWith('#')) return parseHex(lower.slice(1));
+  if (NAMED_COLORS[lower]) return parseHex(NAMED_COLORS[lower]);
+
+  const fn = lower.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!fn) return null;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+  const a = parts[3] !== undefined ? parseChannel(parts[3], 1) : 1;
+  let rgb: [number, number, number];
+  if (fn[1].startsWith('rgb')) {
+    rgb = [parseChannel(parts[0], 255), parseChannel(parts[1], 255), parseChannel(parts[2], 255)];
+  } else {
+    rgb = hslToRgb(parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100);
+  }
+  if ([...rgb, a].some((n) => Number.isNaN(n))) return null;
+  return { r: clampByte(rgb[0]), g: clampByte(rgb[1]), b: clampByte(rgb[2]), a: Math.max(0, Math.min(1, a)) };
+};
+
+export const toHex = ({ r, g, b }: Pick<Rgba, 'r' | 'g' | 'b'>): string =>
+  `#${[r, g, b].map((c) => clampByte(c).toString(16).padStart(2, '0')).join('')}`;
+
+const formatColor = (color: Rgba): string =>
+  color.a < 1 ? `rgba(${color.r}, ${color.g}, ${color.b}, ${Number(color.a.toFixed(3))})` : toHex(color);
+
+/** Normalize any parseable color to #rrggbb; null when it is not a concrete color. */
+export const normalizeColor = (value: string): string | null => {
+  const color = parseColor(value.trim());
+  return color ? toHex(color) : null;
+};
+
+// ===== Lab =====
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (v: number) => 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// D65 reference white
+const WHITE = [0.95047, 1, 1.08883];
+
+const rgbToLab = (hex: string): Lab => {
+  const { r, g, b } = parseHex(hex.slice(1))!;
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const xyz = [
+    (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / WHITE[0],
+    (lr * 0.2126 + lg * 0.7152 + lb * 0.0722) / WHITE[1],
+    (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / WHITE[2],
+  ].map((t) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+};
+
+const labToHex = ([l, a, b]: Lab): string => {
+  const fy = (l + 16) / 116;
+  const [x, y, z] = [fy + a / 500, fy, fy - b / 200]
+    .map((t) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787))
+    .map((t, i) => t * WHITE[i]);
+  return toHex({
+    r: fromLinear(x * 3.2406 + y * -1.5372 + z * -0.4986),
+    g: fromLinear(x * -0.9689 + y * 1.8758 + z * 0.0415),
+    b: fromLinear(x * 0.0557 + y * -0.204 + z * 1.057),
+  });
+};
+
+const distance = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Below this chroma a color reads as gray
+const NEUTRAL_CHROMA = 10;
+
+/** Hue angle in degrees (CIELAB), or null for black, white and grays. */
+export const colorHue = (hex: string): number | null => {
+  const [, a, b] = rgbToLab(hex);
+  if (Math.hypot(a, b) < NEUTRAL_CHROMA) return null;
+  return ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+};
+
+// ===== Rewriting =====
+
+const rewriteTokens = (value: string, replace: (color: Rgba, token: string) => string): string =>
+  value.replace(COLOR_TOKEN, (token) => {
+    if (token.startsWith('url(')) return token;
+    const color = parseColor(token);
+    return color ? replace(color, token) : token;
+  });
+
+const rewriteCss = (css: string, replace: (color: Rgba, token: string) => string): string =>
+  css.replace(COLOR_PROPERTIES, (_, before: string, property: string, value: string) =>
+    `${before}${property}${rewriteTokens(value, replace)}`);
+
+/** Visit every color in paint attributes, style attributes, <style> sheets and SMIL color animations. */
+const rewriteColors = (svgCode: string, replace: (color: Rgba, token: string) => string): string =>
+  svgCode
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_, open: string, css: string, close: string) =>
+      `${open}${rewriteCss(css, replace)}${close}`)
+    .replace(/<[A-Za-z][^>]*>/g, (tag) => {
+      const animatesColor = /^<(?:animate|set)\b/i.test(tag)
+        && /\sattributeName\s*=\s*["'](?:fill|stroke|stop-color|flood-color|lighting-color|color)["']/i.test(tag);
+      return tag.replace(/(\s)([\w:-]+)(\s*=\s*)(["'])([\s\S]*?)\4/g,
+        (match, space: string, name: string, equals: string, quote: string, value: string) => {
+          const lower = name.toLowerCase();
+          let next = value;
+          if (COLOR_ATTRIBUTES.has(lower) || (animatesColor && ANIMATION_VALUE_ATTRIBUTES.has(lower))) {
+            next = rewriteTokens(value, replace);
+          } else if (lower === 'style') {
+            next = rewriteCss(value, replace);
+          }
+          return next === value ? match : `${space}${name}${equals}${quote}${next}${quote}`;
+        });
+    });
+
+// ===== Palette =====
+
+/** Collect every color in the SVG and cluster near-identical shades into palette entries. */
+export const extractPalette = (svgCode: string): PaletteColor[] => {
+  const counts = new Map<string, number>();
+  rewriteColors(svgCode, (color, token) => {
+    const hex = toHex(color);
+    counts.set(hex, (counts.get(hex) || 0) + 1);
+    return token;
+  });
+
+  const clusters: { palette: PaletteColor; lab: Lab }[] = [];
+  [...counts].sort((a, b) => b[1] - a[1]).forEach(([hex, count]) => {
+    const lab = rgbToLab(hex);
+    const cluster = clusters.find((c) => distance(c.lab, lab) < CLUSTER_DISTANCE);
+    if (cluster) {
+      cluster.palette.members.push(hex);
+      cluster.palette.count += count;
+    } else {
+      clusters.push({ palette: { hex, members: [hex], count }, lab });
+    }
+  });
+  return clusters.map((c) => c.palette).sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Replace palette entries with new colors. `targets` maps an entry's hex to its replacement;
+ * other shades in the same cluster keep their offset from the entry so gradients survive.
+ * Alpha is preserved.
+ */
+export const recolorSvg = (svgCode: string, palette: PaletteColor[], targets: Record<string, string>): string => {
+  const replacements = new Map<string, string>();
+  palette.forEach((entry) => {
+    const target = targets[entry.hex] && normalizeColor(targets[entry.hex]);
+    if (!target || target === entry.hex) return;
+    const from = rgbToLab(entry.hex);
+    const to = rgbToLab(target);
+    entry.members.forEach((member) => {
+      if (member === entry.hex) {
+        replacements.set(member, target);
+        return;
+      }
+      const lab = rgbToLab(member);
+      replacements.set(member, labToHex([
+        Math.max(0, Math.min(100, lab[0] + to[0] - from[0])),
+        lab[1] + to[1] - from[1],
+        lab[2] + to[2] - from[2],
+      ]));
+    });
+  });
+  if (replacements.size === 0) return svgCode;
+
+  return rewriteColors(svgCode, (color, token) => {
+    const next = replacements.get(toHex(color));
+    return next ? formatColor({ ...parseHex(next.slice(1))!, a: color.a }) : token;
+  });
+};
+
+/** Map each palette entry to the perceptually nearest brand color. */
+export const mapToBrandPalette = (palette: PaletteColor[], brandColors: string[]): Record<string, string> => {
+  const brand = brandColors.map(normalizeColor).filter((hex): hex is string => !!hex).map((hex) => ({ hex, lab: rgbToLab(hex) }));
+  if (brand.length === 0) return {};
+  return Object.fromEntries(palette.map((entry) => {
+    const lab = rgbToLab(entry.hex);
+    const nearest = brand.reduce((best, candidate) => (distance(candidate.lab, lab) < distance(best.lab, lab) ? candidate : best));
+    return [entry.hex, nearest.hex];
+  }));
+};
+
+/**
+ * Light or dark variant: flips lightness (keeping hue and chroma) when the palette, weighted by
+ * use, leans the other way. An already-light palette is left alone for 'light', and vice versa.
+ */
+export const variantPalette = (palette: PaletteColor[], variant: PaletteVariant): Record<string, string> => {
+  const total = palette.reduce((sum, entry) => sum + entry.count, 0);
+  if (total === 0) return {};
+  const meanLightness = palette.reduce((sum, entry) => sum + rgbToLab(entry.hex)[0] * entry.count, 0) / total;
+  const isDark = meanLightness < 50;
+  if (isDark === (variant === 'dark')) return {};
+  return Object.fromEntries(palette.map((entry) => {
+    const [l, a, b] = rgbToLab(entry.hex);
+    return [entry.hex, labToHex([100 - l, a, b])];
+  }));
+};
@@ -0,0 +1,228 @@
+// Region-targeted refinement. Elements are located in the source text (not a parsed DOM) so a
+// refine can splice new markup into exactly the selected ranges and leave every other byte alone.
+
+export interface SourceElement {
+  index: number;
+  tag: string;
+  // Offsets into the source: start of '<tag', just past its '>', start of '</tag>' and just past it.
+  // Self-closing elements have openEnd === closeStart === end.
+  start: number;
+  openEnd: number;
+  closeStart: number;
+  end: number;
+  parent: number | null;
+}
+
+export class RegionRefineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RegionRefineError';
+  }
+}
+
+// Attribute that maps rendered nodes back to SourceElement indexes (display copies only)
+export const REGION_ATTRIBUTE = 'data-region';
+// Attribute on the groups that mark selected subtrees in the markup sent to the model
+const TARGET_ATTRIBUTE = 'data-target';
+
+// Content of these is text, not markup
+const RAW_TEXT_TAGS = new Set(['style', 'script']);
+// Not drawn by themselves, or only meaningful inside their parent; nothing below them is selectable
+const UNSELECTABLE_TAGS = new Set([
+  'defs', 'style', 'script', 'title', 'desc', 'metadata', 'symbol', 'clippath', 'mask', 'pattern',
+  'marker', 'lineargradient', 'radialgradient', 'stop', 'filter', 'animate', 'animatetransform',
+  'animatemotion', 'set', 'mpath', 'tspan', 'textpath',
+]);
+
+const skipPast = (code: string, from: number, terminator: string): number => {
+  const at = code.indexOf(terminator, from);
+  return at < 0 ? code.length : at + terminator.length;
+};
+
+/** Every element of the document in source order, with its exact text ranges. */
+export const indexElements = (svgCode: string): SourceElement[] => {
+  const elements: SourceElement[] = [];
+  const open: SourceElement[] = [];
+  let i = 0;
+
+  while (i < svgCode.length) {
+    const lt = svgCode.indexOf('<', i);
+    if (lt < 0) break;
+    if (svgCode.startsWith('<!--', lt)) {
+      i = skipPast(svgCode, lt + 4, '-->');
+    } else if (svgCode.startsWith('<![CDATA[', lt)) {
+      i = skipPast(svgCode, lt + 9, ']]>');
+    } else if (svgCode.startsWith('<?', lt) || svgCode.startsWith('<!', lt)) {
+      i = skipPast(svgCode, lt + 2, '>');
+    } else if (svgCode.startsWith('</', lt)) {
+      const gt = skipPast(svgCode, lt + 2, '>');
+      const name = svgCode.slice(lt + 2, gt - 1).trim().toLowerCase();
+      // Close the nearest open element with this name; anything opened inside it is closed implicitly
+      const at = open.map((element) => element.tag.toLowerCase()).lastIndexOf(name);
+      if (at >= 0) {
+        open.splice(at).forEach((element) => {
+          element.closeStart = lt;
+          element.end = gt;
+        });
+      }
+      i = gt;
+    } else {
+      const nameMatch = svgCode.slice(lt + 1).match(/^[A-Za-z][\w:.-]*/);
+      if (!nameMatch) {
+        i = lt + 1;
+        continue;
+      }
+      // Find the closing '>' outside quoted attribute values
+      let j = lt + 1 + nameMatch[0].length;
+      let quote: string | null = null;
+      for (; j < svgCode.length; j++) {
+        const ch = svgCode[j];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === '>') {
+          break;
+        }
+      }
+      const openEnd = Math.min(svgCode.length, j + 1);
+      const selfClosing = svgCode[j - 1] === '/';
+      const element: SourceElement = {
+        index: elements.length,
+        tag: nameMatch[0],
+        start: lt,
+        openEnd,
+        closeStart: openEnd,
+        end: openEnd,
+        parent: open.length > 0 ? open[open.length - 1].index : null,
+      };
+      elements.push(element);
+      i = openEnd;
+      if (selfClosing) continue;
+
+      if (RAW_TEXT_TAGS.has(element.tag.toLowerCase())) {
+        const close = svgCode.toLowerCase().indexOf(`</${element.tag.toLowerCase()}`, openEnd);
+        element.closeStart = close < 0 ? svgCode.length : close;
+        element.end = close < 0 ? svgCode.length : skipPast(svgCode, close, '>');
+        i = element.end;
+      } else {
+        open.push(element);
+      }
+    }
+  }
+  // Unclosed elements run to the end of the document
+  open.forEach((element) => {
+    element.closeStart = svgCode.length;
+    element.end = svgCode.length;
+  });
+  return elements;
+};
+
+const isSelectable = (elements: SourceElement[], element: SourceElement): boolean => {
+  if (element.parent === null) return false; // the root <svg>
+  for (let current: SourceElement | null = element; current; current = current.parent === null ? null : elements[current.parent]) {
+    if (UNSELECTABLE_TAGS.has(current.tag.toLowerCase())) return false;
+  }
+  return true;
+};
+
+/** Insert into the source at several offsets at once, last first so earlier offsets stay valid. */
+const spliceAll = (code: string, edits: { start: number; end: number; text: string }[]): string =>
+  [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+
+/** A display copy where every selectable element carries its source index. */
+export const tagRegions = (svgCode: string): string => {
+  const elements = indexElements(svgCode);
+  return spliceAll(
+    svgCode,
+    elements
+      .filter((element) => isSelectable(elements, element))
+      .map((element) => {
+        const at = element.start + 1 + element.tag.length;
+        return { start: at, end: at, text: ` ${REGION_ATTRIBUTE}="${element.index}"` };
+      })
+  );
+};
+
+/** Drop selected elements that sit inside another selected element, and sort by source order. */
+export const normalizeSelection = (svgCode: string, indexes: number[]): number[] => {
+  const elements = indexElements(svgCode);
+  const selected = new Set(indexes.filter((index) => elements[index] && isSelectable(elements, elements[index])));
+  const hasSelectedAncestor = (element: SourceElement): boolean => {
+    for (let parent = element.parent; parent !== null; parent = elements[parent].parent) {
+      if (selected.has(parent)) return true;
+    }
+    return false;
+  };
+  return [...selected].filter((index) => !hasSelectedAncestor(elements[index])).sort((a, b) => a - b);
+};
+
+// Definitions a selected subtree may reference by id or class; copied whole into the excerpt
+const CONTEXT_TAGS = new Set(['defs', 'style']);
+
+/**
+ * A minimal document for the model: the root <svg> open tag (viewBox and namespaces), every <defs>
+ * and <style> outside the selection, and each selected subtree wrapped in <g data-target="N">
+ * (numbered from 1) inside copies of its ancestors' open tags, so inherited transforms and paint
+ * still apply. The rest of the drawing is left out; mergeRegionEdits only reads the target groups.
+ */
+export const excerptRegions = (svgCode: string, indexes: number[]): string => {
+  const elements = indexElements(svgCode);
+  const root = elements[0];
+  if (!root) throw new RegionRefineError('The SVG has no elements to refine.');
+  const selection = normalizeSelection(svgCode, indexes);
+  const isInside = (element: SourceElement, ranges: SourceElement[]): boolean =>
+    ranges.some((range) => range !== element && element.start >= range.start && element.end <= range.end);
+
+  const targets = selection.map((index) => elements[index]);
+  const context = elements.filter((element) => CONTEXT_TAGS.has(element.tag.toLowerCase()) && !isInside(element, targets));
+  const parts = context.filter((element) => !isInside(element, context)).map((element) => svgCode.slice(element.start, element.end));
+
+  targets.forEach((target, n) => {
+    const ancestors: SourceElement[] = [];
+    for (let parent = target.parent; parent !== null && parent !== root.index; parent = elements[parent].parent) {
+      ancestors.unshift(elements[parent]);
+    }
+    parts.push(
+      ancestors.map((ancestor) => svgCode.slice(ancestor.start, ancestor.openEnd)).join('') +
+        `<g ${TARGET_ATTRIBUTE}="${n + 1}">${svgCode.slice(target.start, target.end)}</g>` +
+        [...ancestors].reverse().map((ancestor) => `</${ancestor.tag}>`).join('')
+    );
+  });
+
+  return `${svgCode.slice(root.start, root.openEnd)}\n${parts.join('\n')}\n</${root.tag}>`;
+};
+
+/**
+ * Splice the contents of each <g data-target="N"> in the model's output over the matching selected
+ * element of the original. Everything outside the selection is taken from the original untouched.
+ */
+export const mergeRegionEdits = (svgCode: string, indexes: number[], editedSvg: string): string => {
+  const elements = indexElements(svgCode);
+  const selection = normalizeSelection(svgCode, indexes);
+  const edited = indexElements(editedSvg);
+  const replacements = selection.map((index, n) => {
+    const target = edited.find((element) =>
+      new RegExp(`\\s${TARGET_ATTRIBUTE}\\s*=\\s*["']${n + 1}["']`).test(editedSvg.slice(element.start, element.openEnd))
+    );
+    if (!target) return null;
+    return { start: elements[index].start, end: elements[index].end, text: editedSvg.slice(target.openEnd, target.closeStart).trim() };
+  });
+
+  const found = replacements.filter((replacement): replacement is NonNullable<typeof replacement> => replacement !== null);
+  if (found.length === 0) {
+    throw new RegionRefineError('The model did not return any of the selected regions.');
+  }
+  return spliceAll(svgCode, found);
+};
+
+/** Short labels such as "<path>" or "<g> (3 children)" for the selected elements. */
+export const describeSelection = (svgCode: string, indexes: number[]): string[] => {
+  const elements = indexElements(svgCode);
+  return normalizeSelection(svgCode, indexes).map((index) => {
+    const children = elements.filter((element) => element.parent === index).length;
+    return `<${elements[index].tag}>${children > 0 ? ` (${children} children)` : ''}`;
+  });
+};
@@ -1,11 +1,194 @@
 import DOMPurify from 'dompurify';
+import type { Config } from 'dompurify';
+
+// strict: no <style>, CSS or SMIL animation. standard: the default app profile.
+// permissive-local: adds foreignObject text and fonts embedded as data: URIs; still nothing external.
+export type SanitizerPolicyName = 'strict' | 'standard' | 'permissive-local';
+
+// Where sanitized markup ends up: on screen, in downloaded/rasterized files, or in saved history
+export type SanitizerUse = 'render' | 'export' | 'storage';
+
+export interface SanitizerPolicyInfo {
+  id: SanitizerPolicyName;
+  label: string;
+  description: string;
+}
+
+export const SANITIZER_POLICIES: SanitizerPolicyInfo[] = [
+  { id: 'strict', label: 'Strict', description: 'No stylesheets or animation' },
+  { id: 'standard', label: 'Standard', description: 'Styles and animation, nothing external' },
+  { id: 'permissive-local', label: 'Permissive (local)', description: 'Also embedded fonts and foreignObject text' },
+];
+
+export const SANITIZER_USES: { id: SanitizerUse; label: string }[] = [
+  { id: 'render', label: 'Rendering' },
+  { id: 'export', label: 'Export' },
+  { id: 'storage', label: 'Saved history' },
+];
+
+export const DEFAULT_SANITIZER_POLICIES: Record<SanitizerUse, SanitizerPolicyName> = {
+  render: 'standard',
+  export: 'standard',
+  storage: 'standard',
+};
+
+export interface SanitizeReport {
+  // Tag names of removed elements, e.g. "script"
+  elements: string[];
+  // "attribute on <tag>", e.g. "onclick on <rect>"
+  attributes: string[];
+  // Stripped CSS constructs, e.g. "@import" or "url(https://...)"
+  css: string[];
+}
+
+export interface SanitizeResult {
+  svg: string;
+  report: SanitizeReport;
+}
+
+// User preference stored in localStorage
+const POLICIES_KEY = 'sketch_ai_sanitizer_policies';
+
+let cachedPolicies: Record<SanitizerUse, SanitizerPolicyName> | null = null;
+
+const isPolicyName = (value: unknown): value is SanitizerPolicyName =>
+  SANITIZER_POLICIES.some((policy) => policy.id === value);
+
+export const getSanitizerPolicies = (): Record<SanitizerUse, SanitizerPolicyName> => {
+  if (cachedPolicies) return cachedPolicies;
+  const policies = { ...DEFAULT_SANITIZER_POLICIES };
+  try {
+    const stored = JSON.parse(localStorage.getItem(POLICIES_KEY) || '{}') as Record<string, unknown>;
+    SANITIZER_USES.forEach(({ id }) => {
+      if (isPolicyName(stored[id])) policies[id] = stored[id];
+    });
+  } catch {
+    // localStorage not available (privacy mode, etc.) or unreadable; keep the defaults
+  }
+  cachedPolicies = policies;
+  return policies;
+};
+
+export const setSanitizerPolicies = (policies: Record<SanitizerUse, SanitizerPolicyName>): void => {
+  cachedPolicies = { ...policies };
+  localStorage.setItem(POLICIES_KEY, JSON.stringify(policies));
+};
 
 const URI_ATTRS = new Set(['href', 'xlink:href']);
+const SMIL_TAGS = ['animate', 'animateTransform', 'animateMotion', 'set'];
+// HTML allowed inside <foreignObject> under permissive-local: text and its formatting only
+const FOREIGN_TEXT_TAGS = ['foreignObject', 'div', 'p', 'span', 'br', 'b', 'i', 'em', 'strong', 'small', 'sub', 'sup'];
+
+const BASE_CONFIG: Config = {
+  USE_PROFILES: { svg: true, svgFilters: true },
+  // 5. Added 'pointer-events' to the allowlist so overlay layers don't block clicks
+  ADD_ATTR: ['href', 'xlink:href', 'pointer-events'],
+  ALLOW_UNKNOWN_PROTOCOLS: false,
+};
+
+const POLICY_CONFIGS: Record<SanitizerPolicyName, Config> = {
+  strict: {
+    ...BASE_CONFIG,
+    ADD_TAGS: ['use'],
+    FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'foreignObject', 'style', ...SMIL_TAGS],
+  },
+  standard: {
+    ...BASE_CONFIG,
+    ADD_TAGS: ['style', 'use', ...SMIL_TAGS],
+    FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'foreignObject'],
+  },
+  'permissive-local': {
+    ...BASE_CONFIG,
+    ADD_TAGS: ['style', 'use', ...SMIL_TAGS, ...FOREIGN_TEXT_TAGS],
+    ADD_ATTR: [...(BASE_CONFIG.ADD_ATTR as string[]), 'xmlns'],
+    FORBID_TAGS: ['script', 'iframe', 'object', 'embed'],
+  },
+};
+
+// ===== CSS =====
+
+// Declarations that run code or bind behaviour in legacy engines
+const DANGEROUS_DECLARATION = /[\w-]+\s*:[^;{}]*(?:expression\s*\(|javascript:|-moz-binding|behavior\s*:)[^;{}]*;?/gi;
+const ANIMATION_DECLARATION = /(?:-webkit-)?(?:animation|transition)[\w-]*\s*:[^;{}]*;?/gi;
+const CSS_URL = /url\(\s*(['"]?)([\s\S]*?)\1\s*\)/gi;
+const IMAGE_SET = /(?:-webkit-)?image-set\([^;{}]*\)/gi;
+const FONT_DATA_URI = /^data:(?:font\/|application\/(?:x-)?font-|application\/font-woff)/i;
+
+const isAllowedCssUrl = (url: string, policy: SanitizerPolicyName): boolean => {
+  const value = url.trim().toLowerCase();
+  if (value.startsWith('#')) return true;
+  if (value.startsWith('data:image/')) return true;
+  return policy === 'permissive-local' && FONT_DATA_URI.test(value);
+};
+
+const truncate = (text: string, max = 60) => (text.length > max ? `${text.slice(0, max)}...` : text);
+
+/**
+ * Strip exfiltration and code vectors from CSS: @import, external or script url()s, image-set(),
+ * escape sequences that could hide either, and legacy scriptable properties. Strict also drops
+ * animations and transitions.
+ */
+export const sanitizeCss = (css: string, policy: SanitizerPolicyName): { css: string; removed: string[] } => {
+  const removed: string[] = [];
+  let clean = css.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  // Escapes like \75 rl( spell out url( without matching any pattern below
+  if (/\\[0-9a-fA-F]/.test(clean)) {
+    removed.push('CSS escape sequences');
+    clean = clean.replace(/\\[0-9a-fA-F]{1,6}\s?/g, '');
+  }
+
+  clean = clean.replace(/@import[^;]*;?/gi, (match) => {
+    removed.push(`@import ${truncate(match.replace(/^@import\s*/i, '').replace(/;$/, ''))}`);
+    return '';
+  });
+
+  clean = clean.replace(CSS_URL, (match, _quote: string, url: string) => {
+    if (isAllowedCssUrl(url, policy)) return match;
+    removed.push(`url(${truncate(url)})`);
+    return 'none';
+  });
+
+  clean = clean.replace(IMAGE_SET, (match) => {
+    removed.push(truncate(match));
+    return 'none';
+  });
+
+  clean = clean.replace(DANGEROUS_DECLARATION, (match) => {
+    removed.push(truncate(match.trim()));
+    return '';
+  });
+
+  if (policy === 'strict') {
+    clean = clean.replace(ANIMATION_DECLARATION, (match) => {
+      removed.push(truncate(match.trim()));
+      return '';
+    });
+  }
+
+  return { css: clean, removed };
+};
+
+// ===== DOMPurify hooks =====
+
+// Hooks are global in DOMPurify; sanitization is synchronous, so the active call's state lives here
+let activePolicy: SanitizerPolicyName = 'standard';
+let activeCssRemovals: string[] = [];
 let hooksInstalled = false;
 
 const ensureHooks = () => {
   if (hooksInstalled) return;
 
+  DOMPurify.addHook('uponSanitizeElement', (node, data) => {
+    // Strict drops <style> outright
+    if (data.tagName !== 'style' || !node.textContent || activePolicy === 'strict') return;
+    const { css, removed } = sanitizeCss(node.textContent, activePolicy);
+    if (removed.length > 0) {
+      node.textContent = css;
+      activeCssRemovals.push(...removed);
+    }
+  });
+
   DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
     const attr = data.attrName.toLowerCase();
     const value = (data.attrValue || '').trim();
@@ -41,29 +224,78 @@ const ensureHooks = () => {
     }
 
     // 4. Fix the broken inline animations (style="animation-delay: 0.1s;")
+    // The value is run through the same CSS filter as <style> blocks
     if (attr === 'style') {
-      if (valueLower.includes('javascript:') || valueLower.includes('expression(')) {
-        data.keepAttr = false;
-      } else {
-        data.keepAttr = true;
-        data.forceKeepAttr = true;
-      }
+      const { css, removed } = sanitizeCss(value, activePolicy);
+      activeCssRemovals.push(...removed);
+      data.attrValue = css;
+      data.keepAttr = true;
+      data.forceKeepAttr = true;
+      return;
+    }
+
+    // 6. Presentation attributes (fill, filter, mask, clip-path...) take url() too, and DOMPurify's
+    // URI check lets "url(" through, so external references are filtered like CSS
+    if (valueLower.includes('url(')) {
+      const { css, removed } = sanitizeCss(value, activePolicy);
+      activeCssRemovals.push(...removed.map((entry) => `${entry} in ${attr}`));
+      data.attrValue = css;
     }
   });
 
   hooksInstalled = true;
 };
 
-export const sanitizeSvg = (rawSvg: string): string => {
-  if (!rawSvg) return '';
+const describeRemoval = (entry: (typeof DOMPurify.removed)[number], report: SanitizeReport) => {
+  if ('element' in entry) {
+    const node = entry.element;
+    // Text nodes dropped alongside their element are not worth reporting
+    if (node.nodeType === 1) report.elements.push((node as Element).localName);
+  } else if (entry.attribute) {
+    const owner = entry.from && 'localName' in entry.from ? ` on <${(entry.from as Element).localName}>` : '';
+    report.attributes.push(`${entry.attribute.name}${owner}`);
+  }
+};
+
+/** Sanitize with a named policy and report everything that was removed. */
+export const sanitizeSvgWithReport = (rawSvg: string, policy: SanitizerPolicyName = 'standard'): SanitizeResult => {
+  const report: SanitizeReport = { elements: [], attributes: [], css: [] };
+  if (!rawSvg) return { svg: '', report };
   ensureHooks();
 
-  return DOMPurify.sanitize(rawSvg, {
-    USE_PROFILES: { svg: true, svgFilters: true },
-    ADD_TAGS: ['style', 'use', 'animate', 'animateTransform', 'animateMotion'],
-    // 5. Added 'pointer-events' to the allowlist so overlay layers don't block clicks
-    ADD_ATTR: ['href', 'xlink:href', 'pointer-events'],
-    FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'foreignObject'],
-    ALLOW_UNKNOWN_PROTOCOLS: false,
-  }) as string;
-}; 
\ No newline at end of file
+  activePolicy = policy;
+  activeCssRemovals = [];
+  try {
+    const svg = DOMPurify.sanitize(rawSvg, POLICY_CONFIGS[policy]) as string;
+    DOMPurify.removed.forEach((entry) => describeRemoval(entry, report));
+    report.css = activeCssRemovals;
+    return { svg, report };
+  } finally {
+    activePolicy = 'standard';
+    activeCssRemovals = [];
+  }
+};
+
+export const sanitizeSvg = (rawSvg: string, policy: SanitizerPolicyName = 'standard'): string =>
+  sanitizeSvgWithReport(rawSvg, policy).svg;
+
+/** Sanitize with the policy the user picked for this use. */
+export const sanitizeSvgFor = (use: SanitizerUse, rawSvg: string): string =>
+  sanitizeSvg(rawSvg, getSanitizerPolicies()[use]);
+
+export const isSanitizeReportEmpty = (report: SanitizeReport): boolean =>
+  report.elements.length === 0 && report.attributes.length === 0 && report.css.length === 0;
+
+/** Short human-readable list of removals, duplicates collapsed with counts. */
+export const summarizeSanitizeReport = (report: SanitizeReport): string[] => {
+  const counted = (items: string[]) => {
+    const counts = new Map<string, number>();
+    items.forEach((item) => counts.set(item, (counts.get(item) || 0) + 1));
+    return [...counts].map(([item, count]) => (count > 1 ? `${item} (x${count})` : item));
+  };
+  return [
+    ...counted(report.elements).map((tag) => `<${tag}> element`),
+    ...counted(report.attributes).map((attribute) => `${attribute} attribute`),
+    ...counted(report.css).map((css) => `CSS ${css}`),
+  ];
+};
@@ -0,0 +1,198 @@
+// Every inline SVG shares the page's id space and stylesheet, so two versions that both define
+// id="grad1" or @keyframes spin bleed into each other. scopeSvg rewrites one instance's ids,
+// references, keyframe names, classes and selectors under a per-instance prefix.
+
+const URL_REFERENCE = /url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g;
+const KEYFRAMES_NAME = /@(-webkit-)?keyframes\s+(['"]?)([\w-]+)\2/g;
+// SMIL timing such as begin="intro.end + 1s" or begin="button.click"
+const SMIL_TIMING_REFERENCE = /(^|[;\s+-])([A-Za-z_][\w-]*)\.(begin|end|click|mouseover|mouseout|repeat\(\d+\))/g;
+const SMIL_TIMING_ATTRIBUTES = new Set(['begin', 'end']);
+const ANIMATION_NAME_PROPERTY = /^(?:-webkit-)?animation(?:-name)?$/i;
+
+interface ScopeNames {
+  prefix: string;
+  ids: Map<string, string>;
+  keyframes: Map<string, string>;
+  classes: Set<string>;
+}
+
+/** A CSS-safe prefix from scope keys such as a React useId() value and a version id. */
+export const toScopePrefix = (...keys: string[]): string =>
+  `s-${keys.map((key) => key.replace(/[^\w-]/g, '')).filter(Boolean).join('-')}`;
+
+const scopedClass = (names: ScopeNames, className: string) => `${names.prefix}-${className}`;
+
+const rewriteUrls = (value: string, names: ScopeNames): string =>
+  value.replace(URL_REFERENCE, (match, quote: string, id: string) => {
+    const scoped = names.ids.get(id);
+    return scoped ? `url(${quote}#${scoped}${quote})` : match;
+  });
+
+const rewriteDeclarations = (css: string, names: ScopeNames): string =>
+  rewriteUrls(css, names).replace(/([\w-]+)(\s*:\s*)([^;}]*)/g, (match, property: string, colon: string, value: string) => {
+    if (!ANIMATION_NAME_PROPERTY.test(property)) return match;
+    const renamed = value.replace(/[\w-]+/g, (word) => names.keyframes.get(word) ?? word);
+    return `${property}${colon}${renamed}`;
+  });
+
+/** Split on commas that are not inside parentheses, e.g. `a, b:is(c, d)`. */
+const splitSelectorList = (selectorList: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selectorList.length; i++) {
+    const c = selectorList[i];
+    if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === ',' && depth === 0) {
+      parts.push(selectorList.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selectorList.slice(start));
+  return parts;
+};
+
+const rewriteSelector = (selector: string, names: ScopeNames): string => {
+  const renamed = selector
+    .replace(/#([A-Za-z_][\w-]*)/g, (match, id: string) => {
+      const scoped = names.ids.get(id);
+      return scoped ? `#${scoped}` : match;
+    })
+    .replace(/\.([A-Za-z_][\w-]*)/g, (_, className: string) => {
+      names.classes.add(className);
+      return `.${scopedClass(names, className)}`;
+    })
+    .trim();
+
+  // Confine the rule to this instance: the root svg carries the prefix as a class
+  if (/^:root\b/.test(renamed)) return renamed.replace(/^:root/, `.${names.prefix}`);
+  if (/^svg(?![\w-])/i.test(renamed)) return renamed.replace(/^svg/i, `svg.${names.prefix}`);
+  // A single compound selector may also target the root itself
+  if (!/[\s>+~]/.test(renamed)) return `.${names.prefix} ${renamed}, ${renamed}.${names.prefix}`;
+  return `.${names.prefix} ${renamed}`;
+};
+
+/** Index just past the block whose '{' is at `open`, skipping braces in strings and comments. */
+const blockEnd = (css: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < css.length; i++) {
+    const c = css[i];
+    if (c === '"' || c === "'") {
+      const close = css.indexOf(c, i + 1);
+      i = close < 0 ? css.length : close;
+    } else if (css.startsWith('/*', i)) {
+      const close = css.indexOf('*/', i + 2);
+      i = close < 0 ? css.length : close + 1;
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return css.length;
+};
+
+const rewriteStylesheet = (css: string, names: ScopeNames): string => {
+  let out = '';
+  let pos = 0;
+  while (pos < css.length) {
+    const open = css.indexOf('{', pos);
+    const semicolon = css.indexOf(';', pos);
+    if (open < 0) {
+      out += rewriteDeclarations(css.slice(pos), names);
+      break;
+    }
+    if (semicolon >= 0 && semicolon < open) {
+      // Statement at-rule such as @import or @charset
+      out += css.slice(pos, semicolon + 1);
+      pos = semicolon + 1;
+      continue;
+    }
+
+    const prelude = css.slice(pos, open);
+    const end = blockEnd(css, open);
+    const body = css.slice(open + 1, Math.max(open + 1, end - 1));
+    const trimmed = prelude.trim();
+    const leading = prelude.slice(0, prelude.length - prelude.trimStart().length);
+
+    if (/^@(-webkit-)?keyframes\b/i.test(trimmed)) {
+      const renamed = trimmed.replace(KEYFRAMES_NAME, (match, vendor: string | undefined, _quote: string, name: string) =>
+        `@${vendor || ''}keyframes ${names.keyframes.get(name) ?? name}`);
+      out += `${leading}${renamed} {${rewriteDeclarations(body, names)}}`;
+    } else if (/^@(media|supports|container|layer)\b/i.test(trimmed)) {
+      out += `${leading}${trimmed} {${rewriteStylesheet(body, names)}}`;
+    } else if (trimmed.startsWith('@')) {
+      out += `${leading}${trimmed} {${rewriteDeclarations(body, names)}}`;
+    } else {
+      const selectors = splitSelectorList(trimmed).map((selector) => rewriteSelector(selector, names)).join(', ');
+      out += `${leading}${selectors} {${rewriteDeclarations(body, names)}}`;
+    }
+    pos = end;
+  }
+  return out;
+};
+
+const rewriteSmilTiming = (value: string, names: ScopeNames): string =>
+  value.replace(SMIL_TIMING_REFERENCE, (match, before: string, id: string, event: string) => {
+    const scoped = names.ids.get(id);
+    return scoped ? `${before}${scoped}.${event}` : match;
+  });
+
+/**
+ * Prefix ids, url(#...) / href references, SMIL timing references, @keyframes names, classes
+ * and <style> selectors in already-sanitized SVG markup. The markup is parsed the same way
+ * innerHTML will parse it, so the output renders identically apart from the names.
+ */
+export const scopeSvg = (markup: string, prefix: string): string => {
+  if (!markup) return markup;
+  const template = document.createElement('template');
+  template.innerHTML = markup;
+  const root = template.content.querySelector('svg');
+  if (!root) return markup;
+
+  const names: ScopeNames = { prefix, ids: new Map(), keyframes: new Map(), classes: new Set() };
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+  elements.forEach((element) => {
+    const id = element.getAttribute('id');
+    if (id) names.ids.set(id, `${prefix}-${id}`);
+  });
+  const styles = Array.from(root.querySelectorAll('style'));
+  styles.forEach((style) => {
+    for (const [, , , name] of (style.textContent || '').matchAll(KEYFRAMES_NAME)) {
+      names.keyframes.set(name, `${prefix}-${name}`);
+    }
+  });
+
+  // Stylesheets first: they decide which class names need renaming on the elements
+  styles.forEach((style) => {
+    style.textContent = rewriteStylesheet(style.textContent || '', names);
+  });
+
+  elements.forEach((element) => {
+    Array.from(element.attributes).forEach((attribute) => {
+      const { name, value } = attribute;
+      let next = value;
+      if (name === 'id') {
+        next = names.ids.get(value) ?? value;
+      } else if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+        next = `#${names.ids.get(value.slice(1)) ?? value.slice(1)}`;
+      } else if (name === 'style') {
+        next = rewriteDeclarations(value, names);
+      } else if (name === 'class') {
+        next = value.split(/\s+/).filter(Boolean)
+          .map((className) => (names.classes.has(className) ? scopedClass(names, className) : className))
+          .join(' ');
+      } else if (SMIL_TIMING_ATTRIBUTES.has(name)) {
+        next = rewriteSmilTiming(value, names);
+      } else if (value.includes('url(')) {
+        next = rewriteUrls(value, names);
+      }
+      if (next !== value) attribute.value = next;
+    });
+  });
+
+  root.classList.add(prefix);
+  return template.innerHTML;
+};
@@ -0,0 +1,88 @@
+export type SvgTokenType = 'tag' | 'attr' | 'value' | 'comment' | 'punct' | 'text';
+
+export interface SvgToken {
+  type: SvgTokenType;
+  text: string;
+}
+
+export interface XmlSyntaxError {
+  message: string;
+  line: number | null;
+  column: number | null;
+}
+
+// Lightweight highlighter: markup is split into tags, attribute names/values and comments.
+const MARKUP_PATTERN = /(<!--[\s\S]*?(?:-->|$))|(<\/?[A-Za-z][\w:.-]*)|(\/?>)|([\w:.-]+)(?=\s*=)|("[^"]*"?|'[^']*'?)|(=)/g;
+
+/** Tokenize SVG source for syntax highlighting. Concatenating every token's text yields the input. */
+export const tokenizeSvg = (code: string): SvgToken[] => {
+  const tokens: SvgToken[] = [];
+  let insideTag = false;
+  let cursor = 0;
+
+  const pushText = (text: string) => {
+    if (text) tokens.push({ type: 'text', text });
+  };
+
+  for (const match of code.matchAll(MARKUP_PATTERN)) {
+    const [text, comment, tagOpen, tagClose, attr, value, equals] = match;
+    const index = match.index ?? 0;
+
+    // Attribute-like words only count inside a tag; elsewhere they are text content
+    if (!insideTag && !comment && !tagOpen) continue;
+
+    pushText(code.slice(cursor, index));
+    cursor = index + text.length;
+
+    if (comment) tokens.push({ type: 'comment', text });
+    else if (tagOpen) {
+      tokens.push({ type: 'tag', text });
+      insideTag = true;
+    } else if (tagClose) {
+      tokens.push({ type: 'punct', text });
+      insideTag = false;
+    } else if (attr) tokens.push({ type: 'attr', text });
+    else if (value) tokens.push({ type: 'value', text });
+    else if (equals) tokens.push({ type: 'punct', text });
+  }
+
+  pushText(code.slice(cursor));
+  return tokens;
+};
+
+// Chrome/WebKit put the message after the location; Firefox leads with it on the first line.
+const WEBKIT_LOCATION = /line (\d+) at column (\d+)/i;
+const FIREFOX_LOCATION = /Line Number (\d+), Column (\d+)/i;
+
+/** Parse as XML and report the first well-formedness error, or null when the document parses. */
+export const checkWellFormed = (code: string): XmlSyntaxError | null => {
+  if (!code.trim()) {
+    return { message: 'The document is empty.', line: null, column: null };
+  }
+
+  const doc = new DOMParser().parseFromString(code, 'image/svg+xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (!parserError) {
+    if (doc.documentElement.localName !== 'svg') {
+      return { message: `Root element must be <svg>, found <${doc.documentElement.localName}>.`, line: 1, column: null };
+    }
+    return null;
+  }
+
+  const raw = (parserError.textContent || 'Malformed XML').trim();
+  const firstLine = raw.split('\n')[0];
+  const webkit = raw.match(WEBKIT_LOCATION);
+  if (webkit) {
+    const detail = raw
+      .slice((webkit.index ?? 0) + webkit[0].length)
+      .replace(/^[:\s]+/, '')
+      .split(/\n|Below is a rendering/)[0]
+      .trim();
+    return { message: detail || firstLine, line: Number(webkit[1]), column: Number(webkit[2]) };
+  }
+  const firefox = raw.match(FIREFOX_LOCATION);
+  if (firefox) {
+    return { message: firstLine, line: Number(firefox[1]), column: Number(firefox[2]) };
+  }
+  return { message: firstLine, line: null, column: null };
+};
@@ -0,0 +1,160 @@
+import { SVGVersion } from '../types';
+import { sanitizeSvgFor } from './svgSanitizer';
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface PixelDiffResult {
+  heatmap: string;
+  // Share of pixels whose colour moved noticeably, 0..1
+  changedRatio: number;
+}
+
+// Above this many LCS cells the middle section is shown as a plain replace block.
+const MAX_LCS_CELLS = 4_000_000;
+const PIXEL_DIFF_SIZE = 256;
+const PIXEL_DIFF_THRESHOLD = 24;
+
+// Models often emit a whole SVG on one line; break between tags so the diff stays readable.
+const toLines = (code: string): string[] =>
+  code
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+
+/** Line diff of two SVG sources, trimming the shared prefix/suffix before running an LCS. */
+export const diffSvgSource = (before: string, after: string): DiffLine[] => {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map((text) => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
+
+/** Thumbnail when one was captured, otherwise the sanitized SVG as a data URL. */
+export const getVersionImageSrc = (version: SVGVersion): string =>
+  version.thumbnail || `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sanitizeSvgFor('render', version.svgCode))}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for comparison'));
+    img.src = src;
+  });
+
+const drawToPixels = (img: HTMLImageElement, size: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  const scale = Math.min(size / (img.naturalWidth || size), size / (img.naturalHeight || size));
+  const w = (img.naturalWidth || size) * scale;
+  const h = (img.naturalHeight || size) * scale;
+  ctx.drawImage(img, (size - w) / 2, (size - h) / 2, w, h);
+  return ctx.getImageData(0, 0, size, size).data;
+};
+
+/** Pixel-difference heatmap: the "before" image faded to grey, changed pixels painted hot. */
+export const computePixelDiff = async (beforeSrc: string, afterSrc: string): Promise<PixelDiffResult> => {
+  const [beforeImg, afterImg] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const size = PIXEL_DIFF_SIZE;
+  const before = drawToPixels(beforeImg, size);
+  const after = drawToPixels(afterImg, size);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  const out = ctx.createImageData(size, size);
+
+  let changed = 0;
+  for (let p = 0; p < before.length; p += 4) {
+    const delta = Math.max(
+      Math.abs(before[p] - after[p]),
+      Math.abs(before[p + 1] - after[p + 1]),
+      Math.abs(before[p + 2] - after[p + 2])
+    );
+    const grey = (before[p] + before[p + 1] + before[p + 2]) / 3;
+    const faded = 200 + grey * 0.2;
+
+    if (delta > PIXEL_DIFF_THRESHOLD) {
+      changed++;
+      const heat = delta / 255;
+      out.data[p] = 255;
+      out.data[p + 1] = Math.round(200 * (1 - heat));
+      out.data[p + 2] = 0;
+    } else {
+      out.data[p] = faded;
+      out.data[p + 1] = faded;
+      out.data[p + 2] = faded;
+    }
+    out.data[p + 3] = 255;
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return {
+    heatmap: canvas.toDataURL('image/png'),
+    changedRatio: changed / (size * size),
+  };
+};
@@ -1,11 +1,51 @@
+import type { OutputConstraints, StyleGuide } from './services/prompts';
+
+export type CritiqueCriterion = 'promptAlignment' | 'aesthetics' | 'technicalExecution' | 'animation';
+
+export type CritiqueSeverity = 'high' | 'medium' | 'low';
+
+export type CritiqueVote = 'up' | 'down';
+
+export interface CritiqueIssue {
+  text: string;
+  criterion?: CritiqueCriterion;
+  severity?: CritiqueSeverity;
+  // Set while reviewing a critique: up insists on the point, down tells refine to leave it alone
+  vote?: CritiqueVote;
+  addedByUser?: boolean;
+}
+
+export interface StructuredCritique {
+  // 0-10 per criterion; null when the model did not score it (e.g. no animation present)
+  scores: Record<CritiqueCriterion, number | null>;
+  // Mean of the available scores, null when nothing was scored
+  overall: number | null;
+  summary?: string;
+  issues: CritiqueIssue[];
+  // 'prose' means the model ignored the JSON format and the fallback parser was used
+  parsedFrom: 'json' | 'prose';
+}
+
 export interface SVGVersion {
   id: string;
   timestamp: number;
   svgCode: string;
   critique?: string;
+  critiqueDetails?: StructuredCritique;
+  reviewedCritique?: StructuredCritique; // The user's edit of critiqueDetails; refine followed this one
   iteration: number;
   prompt: string;
   thumbnail?: string; // Base64 representation for history
+  sessionId?: string; // Run this version belongs to; branches keep their root session
+  parentId?: string; // Version this one was refined from (absent for a session's first draft)
+  candidate?: CandidateInfo; // Set on drafts from a multi-candidate generation
+  originalSvgCode?: string; // Pre-optimizer markup, kept when the optimizer rewrote svgCode
+}
+
+export interface CandidateInfo {
+  index: number; // 0-based draft order
+  count: number;
+  rank: number | null; // 1 = winner; null until the judge has ranked the drafts
 }
 
 export enum AppPhase {
@@ -14,10 +54,40 @@ export enum AppPhase {
   GENERATING = 'GENERATING',
   RENDERING = 'RENDERING', // Technical phase to capture image
   EVALUATING = 'EVALUATING',
+  REVIEWING = 'REVIEWING', // Paused for the user to edit the critique before refine
+  RANKING = 'RANKING', // Vision model picks the best of several drafted candidates
   REFINING = 'REFINING',
   STOPPED = 'STOPPED'
 }
 
+export interface SessionSettings {
+  providerId: string;
+  autoRefine: boolean;
+  stopConditions: StopConditions;
+  style?: StyleGuide; // Absent for the default look
+  constraints?: OutputConstraints; // Absent when the run had none
+}
+
+// One prompt's run (and any branches continued from it) in the local history.
+export interface SVGSession {
+  id: string;
+  prompt: string;
+  plan: string | null;
+  createdAt: number;
+  settings?: SessionSettings; // Absent for sessions backfilled from pre-session history
+  bestVersionId?: string;
+}
+
+// Auto-stop rules checked after every evaluation; null disables a rule.
+export interface StopConditions {
+  targetScore: number | null;
+  // Stop when the best overall score has not improved for this many evaluations
+  patience: number | null;
+  maxIterations: number | null;
+  maxCredits: number | null;
+  maxTokens: number | null;
+}
+
 export interface GenerationState {
   phase: AppPhase;
   currentIteration: number;
@@ -25,4 +95,5 @@ export interface GenerationState {
   lastThoughts: string[];
   plan: string | null;
   error: string | null;
+  stopReason: string | null;
 }
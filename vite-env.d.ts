@@ -7,6 +7,12 @@ interface ImportMetaEnv {
    * Set via GEMINI_API_KEY in .env.local
    */
   readonly VITE_GEMINI_API_KEY?: string;
+  /** Optional default model provider ('gemini' or 'offline') when the user has not picked one. */
+  readonly VITE_MODEL_PROVIDER?: string;
+  /** Optional Gemini model override for planning, generation and refinement. */
+  readonly VITE_GEMINI_REASONING_MODEL?: string;
+  /** Optional Gemini model override for evaluating rendered images. */
+  readonly VITE_GEMINI_VISION_MODEL?: string;
   /** Public privacy policy URL shown in-app (required for release). */
   readonly VITE_PRIVACY_POLICY_URL?: string;
   /** Optional support contact email shown in account settings. */